@@ -0,0 +1,363 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { authedFetch } from "@/lib/authedFetch";
+import ApiKeysAdmin from "@/components/ApiKeysAdmin";
+import CustomerDomainsAdmin from "@/components/CustomerDomainsAdmin";
+import type { AllowedUser } from "@/lib/adminUsers";
+
+function splitIds(v: string) {
+  return v
+    .split(/[\s,]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+function activeIds(user: AllowedUser) {
+  return user.memberships.filter((m) => m.is_active).map((m) => m.customer_id);
+}
+
+export default function AdminPage() {
+  const [users, setUsers] = useState<AllowedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [query, setQuery] = useState("");
+  const [message, setMessage] = useState("");
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteCustomers, setInviteCustomers] = useState("");
+  const [inviteResult, setInviteResult] = useState("");
+  const [inviting, setInviting] = useState(false);
+
+  const [editing, setEditing] = useState<string | null>(null);
+  const [scopeDraft, setScopeDraft] = useState("");
+
+  const [mfaCustomer, setMfaCustomer] = useState("");
+  const [mfaResult, setMfaResult] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const qs = query ? `?q=${encodeURIComponent(query)}` : "";
+      const res = await authedFetch(`/api/admin/users${qs}`);
+      const json = await res.json();
+
+      if (res.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (!res.ok) {
+        setMessage(json.error || "Unable to load users.");
+        return;
+      }
+      setUsers(json.data ?? []);
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    const t = setTimeout(load, 300);
+    return () => clearTimeout(t);
+  }, [load]);
+
+  async function send(url: string, init: RequestInit) {
+    setMessage("");
+    try {
+      const res = await authedFetch(url, init);
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Request failed.");
+        return null;
+      }
+      await load();
+      return json;
+    } catch {
+      setMessage("Network error. Please try again.");
+      return null;
+    }
+  }
+
+  async function invite(e: React.FormEvent) {
+    e.preventDefault();
+    setInviting(true);
+    setInviteResult("");
+    const json = await send("/api/admin/users", {
+      method: "POST",
+      body: JSON.stringify({
+        email: inviteEmail,
+        customer_ids: splitIds(inviteCustomers),
+      }),
+    });
+    if (json) {
+      setInviteResult(
+        `${inviteEmail} can now create an account at ${json.signup_url}`
+      );
+      setInviteEmail("");
+      setInviteCustomers("");
+    }
+    setInviting(false);
+  }
+
+  function setActive(email: string, isActive: boolean, customerId?: string) {
+    return send(`/api/admin/users/${encodeURIComponent(email)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ is_active: isActive, customer_id: customerId }),
+    });
+  }
+
+  async function saveScope(email: string) {
+    const json = await send(`/api/admin/users/${encodeURIComponent(email)}`, {
+      method: "PUT",
+      body: JSON.stringify({ customer_ids: splitIds(scopeDraft) }),
+    });
+    if (json) setEditing(null);
+  }
+
+  async function setCustomerMfa(requireMfa: boolean) {
+    const customerId = mfaCustomer.trim();
+    if (!customerId) return;
+    setMfaResult("");
+    const json = await send(`/api/admin/customers/${encodeURIComponent(customerId)}/mfa`, {
+      method: "PUT",
+      body: JSON.stringify({ require_mfa: requireMfa }),
+    });
+    if (json) {
+      setMfaResult(
+        `MFA is now ${requireMfa ? "required" : "optional"} for ${json.users} user(s) of ${customerId}.`
+      );
+      setMfaCustomer("");
+    }
+  }
+
+  if (forbidden) {
+    return (
+      <div className="mx-auto max-w-md rounded-2xl border border-[var(--wpl-border)] bg-white p-6 shadow-sm">
+        <h1 className="text-xl font-semibold">Admins only</h1>
+        <p className="mt-2 text-sm text-[var(--wpl-gray)]">
+          Your account does not have access to the admin console.
+        </p>
+        <div className="mt-5">
+          <Link
+            href="/shipments"
+            className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95"
+          >
+            Back to shipments
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 rounded-2xl border bg-white p-5 shadow-sm md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Portal Users</h1>
+          <p className="text-sm text-[var(--wpl-gray)]">
+            Invite users and control which customers they can see.
+          </p>
+        </div>
+        <input
+          className="w-full rounded-lg border px-3 py-2 text-sm md:w-80"
+          placeholder="Search by email"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      <form
+        onSubmit={invite}
+        className="flex flex-col gap-2 rounded-2xl border bg-white p-5 shadow-sm md:flex-row md:items-end"
+      >
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">
+            Email
+          </span>
+          <input
+            type="email"
+            required
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+          />
+        </label>
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">
+            Customer IDs (comma separated)
+          </span>
+          <input
+            required
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            value={inviteCustomers}
+            onChange={(e) => setInviteCustomers(e.target.value)}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={inviting}
+          className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+        >
+          {inviting ? "Inviting…" : "Invite"}
+        </button>
+      </form>
+
+      <div className="flex flex-col gap-2 rounded-2xl border bg-white p-5 shadow-sm md:flex-row md:items-end">
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">
+            Two-factor authentication for customer
+          </span>
+          <input
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            placeholder="Customer ID"
+            value={mfaCustomer}
+            onChange={(e) => setMfaCustomer(e.target.value)}
+          />
+        </label>
+        <button
+          type="button"
+          disabled={!mfaCustomer.trim()}
+          onClick={() => setCustomerMfa(true)}
+          className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+        >
+          Require MFA
+        </button>
+        <button
+          type="button"
+          disabled={!mfaCustomer.trim()}
+          onClick={() => setCustomerMfa(false)}
+          className="rounded-lg bg-black/5 px-4 py-2 text-sm font-semibold hover:bg-black/10 disabled:opacity-60"
+        >
+          Make optional
+        </button>
+      </div>
+
+      {mfaResult && (
+        <p className="rounded-lg bg-green-50 px-4 py-2 text-sm text-green-800">{mfaResult}</p>
+      )}
+      {inviteResult && (
+        <p className="rounded-lg bg-green-50 px-4 py-2 text-sm text-green-800">{inviteResult}</p>
+      )}
+      {message && (
+        <p className="rounded-lg bg-red-50 px-4 py-2 text-sm text-[var(--wpl-red)]">{message}</p>
+      )}
+
+      <div className="overflow-hidden rounded-2xl border bg-white shadow-sm">
+        <table className="w-full text-sm">
+          <thead className="bg-[var(--wpl-bg)] text-left">
+            <tr>
+              <th className="px-4 py-3">Email</th>
+              <th className="px-4 py-3">Customers</th>
+              <th className="px-4 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading && users.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-4 py-8 text-center text-[var(--wpl-gray)]">
+                  Loading…
+                </td>
+              </tr>
+            ) : users.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-4 py-8 text-center text-[var(--wpl-gray)]">
+                  No users found.
+                </td>
+              </tr>
+            ) : (
+              users.map((u) => {
+                const active = activeIds(u);
+                return (
+                  <tr key={u.email} className="border-t align-top">
+                    <td className="px-4 py-3 font-medium">
+                      {u.email}
+                      {active.length === 0 && (
+                        <div className="text-xs text-[var(--wpl-red)]">Deactivated</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {editing === u.email ? (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <input
+                            className="rounded-lg border px-3 py-1.5 text-sm"
+                            value={scopeDraft}
+                            onChange={(e) => setScopeDraft(e.target.value)}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => saveScope(u.email)}
+                            className="text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
+                          >
+                            Save
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="text-xs font-semibold text-[var(--wpl-gray)] hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          {u.memberships.map((m) => (
+                            <button
+                              key={m.customer_id}
+                              type="button"
+                              title={`${m.is_active ? "Click to deactivate" : "Click to activate"}${
+                                m.require_mfa ? " (MFA required)" : ""
+                              }`}
+                              onClick={() => setActive(u.email, !m.is_active, m.customer_id)}
+                              className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                                m.is_active
+                                  ? "bg-[var(--wpl-blue)]/10 text-[var(--wpl-blue)]"
+                                  : "bg-black/5 text-[var(--wpl-gray)] line-through"
+                              }`}
+                            >
+                              {m.customer_id}
+                              {m.require_mfa && " · MFA"}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="space-x-3 whitespace-nowrap px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditing(u.email);
+                          setScopeDraft(active.join(", "));
+                        }}
+                        className="text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
+                      >
+                        Re-scope
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setActive(u.email, active.length === 0)}
+                        className="text-xs font-semibold text-[var(--wpl-red)] hover:underline"
+                      >
+                        {active.length === 0 ? "Activate" : "Deactivate"}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <CustomerDomainsAdmin />
+
+      <ApiKeysAdmin />
+    </div>
+  );
+}
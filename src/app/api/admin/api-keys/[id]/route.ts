@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+// Revoke a key. The row stays for the audit trail.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { id } = await params;
+
+  const { data, error } = await ctx.admin
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select("id, name")
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data) {
+    return apiError(404, "API key not found");
+  }
+
+  await auditAccess(ctx, "admin.api_key.revoke", {
+    target: id,
+    details: { name: data.name },
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { parseCustomerIds } from "@/lib/adminUsers";
+import {
+  API_KEY_COLUMNS,
+  CUSTOMER_SCOPES,
+  generateApiKey,
+  isApiKeyScope,
+  type ApiKeyScope,
+} from "@/lib/apiKeys";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { data, error } = await ctx.admin
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  return NextResponse.json({ data: data ?? [] });
+}
+
+// Issue a key: { name, scopes, customer_ids? } (omit customer_ids for all)
+export async function POST(req: Request) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const body = await req.json().catch(() => null);
+  const name = String(body?.name ?? "").trim();
+  const scopes: unknown[] = Array.isArray(body?.scopes) ? body.scopes : [];
+  const customerIds = body?.customer_ids == null ? null : parseCustomerIds(body.customer_ids);
+
+  if (!name || name.length > 100) {
+    return apiError(400, "Name is required (max 100 characters).");
+  }
+
+  if (scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return apiError(400, "Choose at least one valid scope.");
+  }
+
+  if (body?.customer_ids != null && !customerIds) {
+    return apiError(400, "customer_ids must be a non-empty list.");
+  }
+
+  if (!customerIds && scopes.some((s) => CUSTOMER_SCOPES.includes(s as ApiKeyScope))) {
+    return apiError(400, "Keys that read shipments must be limited to customer_ids.");
+  }
+
+  const { key, keyPrefix, keyHash } = generateApiKey();
+
+  const { data, error } = await ctx.admin
+    .from("api_keys")
+    .insert({
+      name,
+      key_prefix: keyPrefix,
+      key_hash: keyHash,
+      scopes: [...new Set(scopes)],
+      customer_ids: customerIds,
+      created_by: ctx.email,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "admin.api_key.create", {
+    target: data.id,
+    details: { name, scopes, customer_ids: customerIds },
+  });
+
+  // The raw key is only returned once; only its hash is stored
+  return NextResponse.json({ data, key }, { status: 201 });
+}
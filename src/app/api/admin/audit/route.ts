@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { createSupabaseAuditStore, parseAuditQuery } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+// Query the audit log, newest first. Filters: action (prefix), actor,
+// customer, target, from/to (YYYY-MM-DD), page, pageSize.
+export async function GET(req: Request) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const query = parseAuditQuery(new URL(req.url).searchParams);
+
+  try {
+    const { data, total } = await createSupabaseAuditStore(ctx.admin).list(query);
+    return NextResponse.json({
+      data,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    });
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Audit query failed");
+  }
+}
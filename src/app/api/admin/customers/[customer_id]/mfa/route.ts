@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ customer_id: string }> };
+
+// Require (or stop requiring) MFA for everyone allowlisted for a customer.
+// Later invites to the customer inherit the setting.
+export async function PUT(req: Request, { params }: Params) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const customerId = decodeURIComponent((await params).customer_id).trim();
+  const body = await req.json().catch(() => null);
+
+  if (typeof body?.require_mfa !== "boolean") {
+    return apiError(400, "require_mfa must be true or false.");
+  }
+  const requireMfa: boolean = body.require_mfa;
+
+  const { data, error } = await ctx.admin
+    .from("allowed_users")
+    .update({ require_mfa: requireMfa })
+    .eq("customer_id", customerId.toLowerCase())
+    .select("email");
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data?.length) {
+    return apiError(404, "No users for that customer");
+  }
+
+  const action = requireMfa ? "admin.customer.mfa.require" : "admin.customer.mfa.optional";
+  await auditAccess(ctx, action, {
+    customer_id: customerId,
+    target: customerId,
+    details: { users: data.length },
+  });
+
+  return NextResponse.json({
+    customer_id: customerId,
+    require_mfa: requireMfa,
+    users: data.length,
+  });
+}
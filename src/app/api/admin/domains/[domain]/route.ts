@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { normalizeDomain } from "@/lib/customerDomains";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ domain: string }> };
+
+// Remove a domain. Users it provisioned keep their allowlist rows.
+export async function DELETE(req: Request, { params }: Params) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const domain = normalizeDomain(decodeURIComponent((await params).domain));
+  if (!domain) {
+    return apiError(400, "Invalid domain");
+  }
+
+  const { data, error } = await ctx.admin
+    .from("customer_domains")
+    .delete()
+    .eq("domain", domain)
+    .select("customer_id")
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data) {
+    return apiError(404, "Domain not found");
+  }
+
+  await auditAccess(ctx, "admin.domain.delete", {
+    customer_id: data.customer_id,
+    target: domain,
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { CUSTOMER_DOMAIN_COLUMNS, isUuid, normalizeDomain } from "@/lib/customerDomains";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { data, error } = await ctx.admin
+    .from("customer_domains")
+    .select(CUSTOMER_DOMAIN_COLUMNS)
+    .order("domain", { ascending: true });
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  return NextResponse.json({ data: data ?? [] });
+}
+
+// Add or update a domain: { domain, customer_id, sso_provider_id?, auto_provision? }
+export async function POST(req: Request) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const body = await req.json().catch(() => null);
+  const domain = normalizeDomain(body?.domain);
+  const customerId = String(body?.customer_id ?? "").trim();
+  const ssoProviderId = String(body?.sso_provider_id ?? "").trim() || null;
+  const autoProvision = body?.auto_provision === true;
+
+  if (!domain) {
+    return apiError(400, "Please enter a valid domain, e.g. acme.com.");
+  }
+
+  if (!customerId) {
+    return apiError(400, "Choose a customer.");
+  }
+
+  if (ssoProviderId && !isUuid(ssoProviderId)) {
+    return apiError(400, "SSO provider ID must be the provider's UUID.");
+  }
+
+  const { data, error } = await ctx.admin
+    .from("customer_domains")
+    .upsert(
+      {
+        domain,
+        customer_id: customerId,
+        sso_provider_id: ssoProviderId,
+        auto_provision: autoProvision,
+        created_by: ctx.email,
+      },
+      { onConflict: "domain" }
+    )
+    .select(CUSTOMER_DOMAIN_COLUMNS)
+    .single();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "admin.domain.save", {
+    customer_id: customerId,
+    target: domain,
+    details: { sso_provider_id: ssoProviderId, auto_provision: autoProvision },
+  });
+
+  return NextResponse.json({ data }, { status: 201 });
+}
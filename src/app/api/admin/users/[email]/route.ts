@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { normalizeEmail } from "@/lib/email";
+import { ALLOWED_USER_COLUMNS, groupByEmail, parseCustomerIds } from "@/lib/adminUsers";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ email: string }> };
+
+// Activate or deactivate a user, for one customer or all of them.
+export async function PATCH(req: Request, { params }: Params) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const email = normalizeEmail((await params).email);
+  const body = await req.json().catch(() => null);
+
+  if (typeof body?.is_active !== "boolean") {
+    return apiError(400, "is_active must be true or false.");
+  }
+  const isActive: boolean = body.is_active;
+  const customerId = body?.customer_id ? String(body.customer_id).trim().toLowerCase() : null;
+
+  let query = ctx.admin
+    .from("allowed_users")
+    .update({ is_active: isActive })
+    .eq("email", email);
+
+  if (customerId) query = query.eq("customer_id", customerId);
+
+  const { data, error } = await query.select(ALLOWED_USER_COLUMNS);
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data?.length) {
+    return apiError(404, "User not found");
+  }
+
+  const action = isActive ? "admin.user.activate" : "admin.user.deactivate";
+  await auditAccess(ctx, action, {
+    customer_id: customerId,
+    target: email,
+  });
+
+  return NextResponse.json({ data: groupByEmail(data)[0] });
+}
+
+// Re-scope: the user ends up active for exactly the given customers.
+export async function PUT(req: Request, { params }: Params) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const email = normalizeEmail((await params).email);
+  const body = await req.json().catch(() => null);
+  const customerIds = parseCustomerIds(body?.customer_ids);
+
+  if (!customerIds) {
+    return apiError(400, "Choose at least one customer.");
+  }
+
+  const { data: current, error: currentError } = await ctx.admin
+    .from("allowed_users")
+    .select(ALLOWED_USER_COLUMNS)
+    .eq("email", email);
+
+  if (currentError) {
+    return apiError(500, currentError.message);
+  }
+
+  if (!current?.length) {
+    return apiError(404, "User not found");
+  }
+
+  const keep = new Set(customerIds.map((id) => id.toLowerCase()));
+  const removed = current
+    .filter((row) => row.is_active && !keep.has(String(row.customer_id).toLowerCase()))
+    .map((row) => row.customer_id);
+
+  const { error: upsertError } = await ctx.admin
+    .from("allowed_users")
+    .upsert(
+      customerIds.map((customer_id) => ({ email, customer_id, is_active: true })),
+      { onConflict: "email,customer_id" }
+    );
+
+  if (upsertError) {
+    return apiError(500, upsertError.message);
+  }
+
+  if (removed.length) {
+    const { error: removeError } = await ctx.admin
+      .from("allowed_users")
+      .update({ is_active: false })
+      .eq("email", email)
+      .in("customer_id", removed);
+
+    if (removeError) {
+      return apiError(500, removeError.message);
+    }
+  }
+
+  const { data, error } = await ctx.admin
+    .from("allowed_users")
+    .select(ALLOWED_USER_COLUMNS)
+    .eq("email", email);
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "admin.user.rescope", {
+    target: email,
+    details: {
+      before: current.filter((row) => row.is_active).map((row) => row.customer_id),
+      after: customerIds,
+    },
+  });
+
+  return NextResponse.json({ data: groupByEmail(data ?? [])[0] });
+}
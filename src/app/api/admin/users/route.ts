@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { apiError, getAdminContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { isValidEmail, normalizeEmail } from "@/lib/email";
+import { portalUrl } from "@/lib/notificationDispatch";
+import { ALLOWED_USER_COLUMNS, groupByEmail, parseCustomerIds } from "@/lib/adminUsers";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const sp = new URL(req.url).searchParams;
+  const q = (sp.get("q") ?? "").replace(/[%*,()\\]/g, "").trim();
+  const customer = (sp.get("customer") ?? "").trim();
+
+  let query = ctx.admin
+    .from("allowed_users")
+    .select(ALLOWED_USER_COLUMNS)
+    .order("email", { ascending: true })
+    .order("customer_id", { ascending: true })
+    .limit(1000);
+
+  if (q) query = query.ilike("email", `%${q}%`);
+  // Allowlist customer ids are stored lowercase
+  if (customer) query = query.eq("customer_id", customer.toLowerCase());
+
+  const { data, error } = await query;
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  return NextResponse.json({ data: groupByEmail(data ?? []) });
+}
+
+// Invite: allowlist the email for the given customers. The person then
+// creates their account through the normal /signup flow.
+export async function POST(req: Request) {
+  const ctx = await getAdminContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const body = await req.json().catch(() => null);
+  const email = normalizeEmail(body?.email);
+  const customerIds = parseCustomerIds(body?.customer_ids);
+
+  if (!isValidEmail(email)) {
+    return apiError(400, "Please enter a valid email address.");
+  }
+
+  if (!customerIds) {
+    return apiError(400, "Choose at least one customer.");
+  }
+
+  const { data, error } = await ctx.admin
+    .from("allowed_users")
+    .upsert(
+      customerIds.map((customer_id) => ({ email, customer_id, is_active: true })),
+      { onConflict: "email,customer_id" }
+    )
+    .select(ALLOWED_USER_COLUMNS);
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "admin.user.invite", {
+    target: email,
+    details: { customer_ids: customerIds },
+  });
+
+  return NextResponse.json(
+    {
+      data: groupByEmail(data ?? [])[0] ?? null,
+      signup_url: portalUrl("/signup"),
+    },
+    { status: 201 }
+  );
+}
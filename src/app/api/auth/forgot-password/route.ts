@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { apiError, createAdminClient, getServerEnv } from "@/lib/requestContext";
+import { isValidEmail, normalizeEmail } from "@/lib/email";
+import { recordAudit } from "@/lib/audit";
+import { createRateLimiter, getClientIp, tooManyRequests } from "@/lib/rateLimit";
+import { portalUrl } from "@/lib/notificationDispatch";
+
+export const runtime = "nodejs";
+
+// Reset requests per client IP, and emails sent per address, per hour
+const ipLimiter = createRateLimiter({ name: "reset-ip", limit: 10, windowMs: 60 * 60_000 });
+const emailLimiter = createRateLimiter({ name: "reset-email", limit: 3, windowMs: 60 * 60_000 });
+
+/**
+ * Sends a password reset link. Body { email }. Goes through the server so
+ * it can be throttled; answers { ok: true } whether or not the email has
+ * an account.
+ */
+export async function POST(req: Request) {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server configuration error. Please contact support.");
+  }
+
+  const body = await req.json().catch(() => null);
+  const email = normalizeEmail(body?.email);
+
+  if (!isValidEmail(email)) {
+    return apiError(400, "Please enter a valid email address.");
+  }
+
+  const ip = getClientIp(req);
+  const ipLimit = await ipLimiter(ip);
+  if (!ipLimit.allowed) {
+    return tooManyRequests(ipLimit);
+  }
+
+  const admin = createAdminClient(env);
+
+  // Over the per-address limit: quietly skip sending
+  if (!(await emailLimiter(email)).allowed) {
+    await recordAudit(admin, {
+      action: "auth.password_reset.throttled",
+      actor_email: email,
+      ip,
+    });
+    return NextResponse.json({ ok: true });
+  }
+
+  // The link lands on /auth/callback with the session in the URL hash,
+  // which then continues to the reset form
+  const anon = createClient(env.supabaseUrl, env.anonKey, {
+    auth: { persistSession: false },
+  });
+  const { error } = await anon.auth.resetPasswordForEmail(email, {
+    redirectTo: portalUrl(`/auth/callback?${new URLSearchParams({ next: "/reset-password" })}`),
+  });
+
+  if (error) {
+    console.error("Password reset error:", error);
+  }
+
+  await recordAudit(admin, {
+    action: "auth.password_reset.requested",
+    actor_email: email,
+    ip,
+    details: error ? { error: error.code ?? error.message } : undefined,
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  createAdminClient,
+  createUserClient,
+  getBearerToken,
+  getServerEnv,
+  unauthorized,
+} from "@/lib/requestContext";
+import { recordAudit } from "@/lib/audit";
+import { createRateLimiter, getClientIp, tooManyRequests } from "@/lib/rateLimit";
+import { redeemRecoveryCode, removeMfa } from "@/lib/mfa";
+
+export const runtime = "nodejs";
+
+// A handful of guesses per user per 15 minutes
+const limiter = createRateLimiter({ name: "mfa-recover", limit: 5, windowMs: 15 * 60_000 });
+
+/**
+ * Signs in with a recovery code when the authenticator is lost. Body
+ * { code }. The code is used up and the user's factors are removed, so
+ * they set up a new authenticator (required if their customer needs MFA).
+ * Takes the aal1 session from password sign-in, so it verifies the token
+ * itself rather than through getRequestContext.
+ */
+export async function POST(req: Request) {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    return unauthorized();
+  }
+
+  const {
+    data: { user },
+    error: userErr,
+  } = await createUserClient(env, token).auth.getUser();
+  if (userErr || !user?.email) {
+    return unauthorized();
+  }
+
+  const limit = await limiter(user.id);
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const body = await req.json().catch(() => null);
+  const code = String(body?.code ?? "").trim();
+  if (!code) {
+    return apiError(400, "Enter a recovery code.");
+  }
+
+  const admin = createAdminClient(env);
+  const ip = getClientIp(req);
+
+  try {
+    if (!(await redeemRecoveryCode(admin, user.id, code))) {
+      await recordAudit(admin, {
+        action: "auth.mfa.recover.failed",
+        actor_email: user.email,
+        target: user.id,
+        ip,
+      });
+      return apiError(400, "That recovery code isn't valid.");
+    }
+
+    await removeMfa(admin, user.id);
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Unable to use the recovery code.");
+  }
+
+  await recordAudit(admin, {
+    action: "auth.mfa.recovered",
+    actor_email: user.email,
+    target: user.id,
+    ip,
+  });
+
+  return NextResponse.json({ ok: true });
+}
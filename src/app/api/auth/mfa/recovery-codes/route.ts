@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { apiError, getRequestContext, hasVerifiedFactor } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { issueRecoveryCodes } from "@/lib/mfa";
+
+export const runtime = "nodejs";
+
+// Issues a new set of recovery codes, invalidating any earlier ones. Needs
+// an enrolled factor; getRequestContext then requires an aal2 session.
+export async function POST(req: Request) {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  if (!hasVerifiedFactor(ctx.user) || ctx.aal !== "aal2") {
+    return apiError(400, "Set up an authenticator app first.");
+  }
+
+  let codes: string[];
+  try {
+    codes = await issueRecoveryCodes(ctx.admin, ctx.user.id);
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Unable to create recovery codes.");
+  }
+
+  await auditAccess(ctx, "auth.mfa.recovery_codes", { target: ctx.user.id });
+
+  return NextResponse.json({ codes }, { status: 201 });
+}
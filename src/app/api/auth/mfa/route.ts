@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { apiError, getRequestContext, hasVerifiedFactor } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { removeMfa } from "@/lib/mfa";
+
+export const runtime = "nodejs";
+
+// Turns MFA off for the caller. Not allowed while one of their customers
+// requires it.
+export async function DELETE(req: Request) {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  if (ctx.mfaRequired) {
+    return apiError(403, "Your organization requires two-factor authentication.");
+  }
+  if (!hasVerifiedFactor(ctx.user)) {
+    return NextResponse.json({ ok: true });
+  }
+
+  try {
+    await removeMfa(ctx.admin, ctx.user.id);
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Unable to turn off MFA.");
+  }
+
+  await auditAccess(ctx, "auth.mfa.disable", { target: ctx.user.id });
+
+  return NextResponse.json({ ok: true });
+}
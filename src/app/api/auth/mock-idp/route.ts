@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { apiError, createAdminClient, getServerEnv } from "@/lib/requestContext";
+import { isValidEmail, normalizeEmail } from "@/lib/email";
+import { recordAudit } from "@/lib/audit";
+import { getClientIp } from "@/lib/rateLimit";
+import { portalUrl } from "@/lib/notificationDispatch";
+import { safeReturnPath } from "@/lib/authRedirect";
+import { canSignInPasswordless, findCustomerDomain, mockIdpEnabled } from "@/lib/customerDomains";
+
+export const runtime = "nodejs";
+
+/**
+ * Local stand-in for an SSO identity provider (SSO_MOCK_IDP=1, never in
+ * production). Body { email, next? }. "Authenticates" any address on an
+ * SSO domain and returns a one-time sign-in url that lands on
+ * /auth/callback like a real SSO round trip, so the callback and
+ * auto-provisioning can be exercised without a SAML setup.
+ */
+export async function POST(req: Request) {
+  const env = getServerEnv();
+  if (!mockIdpEnabled() || !env) {
+    return apiError(404, "Not found");
+  }
+
+  const body = await req.json().catch(() => null);
+  const email = normalizeEmail(body?.email);
+  const next = safeReturnPath(body?.next);
+
+  if (!isValidEmail(email)) {
+    return apiError(400, "Please enter a valid email address.");
+  }
+
+  const admin = createAdminClient(env);
+
+  try {
+    const domain = await findCustomerDomain(admin, email);
+    if (!domain?.sso_provider_id) {
+      return apiError(400, "That email's domain isn't set up for SSO.");
+    }
+    if (!(await canSignInPasswordless(admin, email, domain))) {
+      return apiError(403, "This email is not authorized. Please contact WPL for access.");
+    }
+
+    // For an email with no account this is a sign-up link: the account
+    // is created unconfirmed and confirmed only when the link is followed
+    const { data, error } = await admin.auth.admin.generateLink({
+      type: "magiclink",
+      email,
+      options: { redirectTo: portalUrl(`/auth/callback?${new URLSearchParams({ next })}`) },
+    });
+    if (error) throw new Error(error.message);
+
+    await recordAudit(admin, {
+      action: "auth.sso.mock",
+      actor_email: email,
+      ip: getClientIp(req),
+      details: { provider_id: domain.sso_provider_id },
+    });
+
+    return NextResponse.json({ url: data.properties.action_link });
+  } catch (err) {
+    console.error("Mock IdP error:", err);
+    return apiError(500, "Mock sign-in failed.");
+  }
+}
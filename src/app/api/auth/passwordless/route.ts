@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { apiError, createAdminClient, getServerEnv } from "@/lib/requestContext";
+import { isValidEmail, normalizeEmail } from "@/lib/email";
+import { recordAudit } from "@/lib/audit";
+import { createRateLimiter, getClientIp, tooManyRequests } from "@/lib/rateLimit";
+import { portalUrl } from "@/lib/notificationDispatch";
+import { safeReturnPath } from "@/lib/authRedirect";
+import {
+  canSignInPasswordless,
+  findCustomerDomain,
+  mockIdpEnabled,
+  sendSignInLink,
+} from "@/lib/customerDomains";
+
+export const runtime = "nodejs";
+
+// Requests per client IP, and magic links per email, per 15 minutes
+const ipLimiter = createRateLimiter({ name: "magic-link-ip", limit: 20, windowMs: 15 * 60_000 });
+const emailLimiter = createRateLimiter({ name: "magic-link", limit: 5, windowMs: 15 * 60_000 });
+
+/**
+ * Starts a passwordless sign-in. Body { email, next? }. Emails on an SSO
+ * domain get { method: "sso", provider_id } (or a mock IdP url in local
+ * development) for the browser to continue with; everyone else gets
+ * { method: "magic_link" } whether or not a link was sent, so the answer
+ * doesn't reveal who is allowlisted.
+ */
+export async function POST(req: Request) {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server configuration error. Please contact support.");
+  }
+
+  const body = await req.json().catch(() => null);
+  const email = normalizeEmail(body?.email);
+  const next = safeReturnPath(body?.next);
+
+  if (!isValidEmail(email)) {
+    return apiError(400, "Please enter a valid email address.");
+  }
+
+  const ip = getClientIp(req);
+  const ipLimit = await ipLimiter(ip);
+  if (!ipLimit.allowed) {
+    return tooManyRequests(ipLimit);
+  }
+
+  const admin = createAdminClient(env);
+
+  try {
+    const domain = await findCustomerDomain(admin, email);
+
+    if (domain?.sso_provider_id) {
+      return NextResponse.json({
+        method: "sso",
+        provider_id: domain.sso_provider_id,
+        url: mockIdpEnabled() ? `/auth/mock-idp?${new URLSearchParams({ email, next })}` : null,
+      });
+    }
+
+    const limit = await emailLimiter(email);
+    if (!limit.allowed) {
+      return tooManyRequests(limit);
+    }
+
+    if (!(await canSignInPasswordless(admin, email, domain))) {
+      await recordAudit(admin, {
+        action: "auth.magic_link.denied",
+        actor_email: email,
+        ip,
+        details: { reason: "not_allowlisted" },
+      });
+      return NextResponse.json({ method: "magic_link" });
+    }
+
+    // Implicit flow: the link lands on /auth/callback with the session in
+    // the URL hash, so it works in any browser the email is opened in
+    const anon = createClient(env.supabaseUrl, env.anonKey, {
+      auth: { persistSession: false },
+    });
+    await sendSignInLink(
+      admin,
+      anon,
+      email,
+      portalUrl(`/auth/callback?${new URLSearchParams({ next })}`)
+    );
+
+    await recordAudit(admin, { action: "auth.magic_link.sent", actor_email: email, ip });
+  } catch (err) {
+    console.error("Passwordless sign-in error:", err);
+    return apiError(500, "Unable to send a sign-in link. Please try again.");
+  }
+
+  return NextResponse.json({ method: "magic_link" });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  createAdminClient,
+  createUserClient,
+  getBearerToken,
+  getServerEnv,
+  unauthorized,
+} from "@/lib/requestContext";
+import { recordAudit } from "@/lib/audit";
+import { getClientIp } from "@/lib/rateLimit";
+import { provisionFromDomain } from "@/lib/customerDomains";
+
+export const runtime = "nodejs";
+
+/**
+ * Called by /auth/callback after a magic-link or SSO sign-in: allowlists
+ * the user for their domain's customer when the domain is trusted and
+ * they aren't on the allowlist yet. A no-op for everyone else.
+ */
+export async function POST(req: Request) {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    return unauthorized();
+  }
+
+  const {
+    data: { user },
+    error: userErr,
+  } = await createUserClient(env, token).auth.getUser();
+  if (userErr || !user?.email) {
+    return unauthorized();
+  }
+
+  // Only addresses the user has proven they own
+  if (!user.email_confirmed_at) {
+    return NextResponse.json({ provisioned: false });
+  }
+
+  const admin = createAdminClient(env);
+
+  let customerId: string | null;
+  try {
+    customerId = await provisionFromDomain(admin, user.email);
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Unable to provision access.");
+  }
+
+  if (customerId) {
+    await recordAudit(admin, {
+      action: "auth.provision",
+      actor_email: user.email,
+      customer_id: customerId,
+      target: user.id,
+      ip: getClientIp(req),
+      details: { provider: user.app_metadata?.provider ?? null },
+    });
+  }
+
+  return NextResponse.json({ provisioned: !!customerId, customer_id: customerId });
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { apiError, createAdminClient, getServerEnv } from "@/lib/requestContext";
+import { normalizeEmail } from "@/lib/email";
+import { recordAudit } from "@/lib/audit";
+import { createRateLimiter, getClientIp, tooManyRequests } from "@/lib/rateLimit";
+
+export const runtime = "nodejs";
+
+// Attempts per 15 minutes: per client IP, and per account so spreading a
+// password guess over many IPs doesn't help
+const ipLimiter = createRateLimiter({ name: "signin-ip", limit: 30, windowMs: 15 * 60_000 });
+const emailLimiter = createRateLimiter({ name: "signin-email", limit: 10, windowMs: 15 * 60_000 });
+
+// Password sign-in goes through the server so both successful and failed
+// attempts land in the audit log. The browser stores the returned session.
+export async function POST(req: Request) {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server configuration error. Please contact support.");
+  }
+
+  const body = await req.json().catch(() => null);
+  const email = normalizeEmail(body?.email);
+  const password = String(body?.password ?? "");
+
+  if (!email || !password) {
+    return apiError(400, "Email and password are required.");
+  }
+
+  const admin = createAdminClient(env);
+  const ip = getClientIp(req);
+
+  const limits = await Promise.all([ipLimiter(ip), emailLimiter(email)]);
+  const denied = limits.find((l) => !l.allowed);
+  if (denied) {
+    await recordAudit(admin, {
+      action: "auth.signin.throttled",
+      actor_email: email,
+      ip,
+      details: { limit: denied === limits[0] ? "ip" : "email" },
+    });
+    return tooManyRequests(denied);
+  }
+
+  const anon = createClient(env.supabaseUrl, env.anonKey, {
+    auth: { persistSession: false },
+  });
+  const { data, error } = await anon.auth.signInWithPassword({ email, password });
+
+  if (error || !data.session) {
+    await recordAudit(admin, {
+      action: "auth.signin.failed",
+      actor_email: email,
+      ip,
+      details: { reason: error?.code ?? error?.message ?? "no_session" },
+    });
+    return apiError(401, "Invalid email or password.");
+  }
+
+  await recordAudit(admin, {
+    action: "auth.signin",
+    actor_email: email,
+    target: data.user.id,
+    ip,
+  });
+
+  return NextResponse.json({
+    access_token: data.session.access_token,
+    refresh_token: data.session.refresh_token,
+  });
+}
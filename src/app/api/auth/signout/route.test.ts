@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  bearerRequest,
+  createSupabaseMock,
+  mockSupabaseJs,
+  testUser,
+  type SupabaseMock,
+} from "@/test/supabaseMock";
+import { POST as signOut } from "@/app/api/auth/signout/route";
+import { GET as listShipments } from "@/app/api/shipments/route";
+
+let supabase: SupabaseMock;
+vi.mock("@supabase/supabase-js", (importOriginal) =>
+  mockSupabaseJs(importOriginal, () => supabase)
+);
+
+const deletedCookies: string[] = [];
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    getAll: () => [{ name: "sb-portal-auth-token.0" }, { name: "theme" }],
+    delete: (name: string) => deletedCookies.push(name),
+  }),
+}));
+
+describe("POST /api/auth/signout", () => {
+  beforeEach(() => {
+    deletedCookies.length = 0;
+    supabase = createSupabaseMock({
+      users: { "alice-token": testUser({ email: "alice@acme.com" }) },
+      tables: {
+        allowed_users: { data: [{ customer_id: "ACME", is_active: true, require_mfa: false }] },
+        shipments: { data: [], count: 0 },
+      },
+    });
+  });
+
+  it("revokes the session so its token stops working", async () => {
+    const before = await listShipments(bearerRequest("/api/shipments", "alice-token"));
+    expect(before.status).toBe(200);
+
+    const res = await signOut(
+      bearerRequest("/api/auth/signout", "alice-token", { method: "POST" })
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, scope: "local" });
+    expect(supabase.revokedTokens.has("alice-token")).toBe(true);
+    expect(deletedCookies).toEqual(["sb-portal-auth-token.0"]);
+
+    const after = await listShipments(bearerRequest("/api/shipments", "alice-token"));
+    expect(after.status).toBe(401);
+  });
+});
@@ -1,41 +1,68 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { cookies } from "next/headers";
+import {
+  apiError,
+  createAdminClient,
+  createUserClient,
+  getBearerToken,
+  getServerEnv,
+} from "@/lib/requestContext";
+import { createSessionClient } from "@/lib/supabaseServer";
+import { recordAudit } from "@/lib/audit";
+import { getClientIp } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 
+/**
+ * Revokes the caller's session on the server and clears the auth cookies.
+ * Body { scope: "global" } signs out every device; the default ("local")
+ * only this one. The token comes from the Authorization header, or the
+ * session cookie when there isn't one.
+ */
 export async function POST(req: Request) {
-  try {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
 
-    if (!supabaseUrl || !anonKey) {
-      return NextResponse.json({ ok: true }); // Fail silently on config issues
-    }
+  const body = await req.json().catch(() => null);
+  const scope = body?.scope === "global" ? "global" : "local";
 
-    // Get the Bearer token from the request
-    const authHeader = req.headers.get("authorization") || "";
-    const token = authHeader.toLowerCase().startsWith("bearer ")
-      ? authHeader.slice(7).trim()
-      : "";
+  let token = getBearerToken(req);
+  if (!token) {
+    const session = await createSessionClient();
+    token = (await session?.auth.getSession())?.data.session?.access_token ?? "";
+  }
 
-    if (!token) {
-      // No token provided, just return success
-      return NextResponse.json({ ok: true });
-    }
+  if (token) {
+    const admin = createAdminClient(env);
+    const {
+      data: { user },
+    } = await createUserClient(env, token).auth.getUser();
 
-    // Create Supabase client with the user's token
-    const supabase = createClient(supabaseUrl, anonKey, {
-      auth: { persistSession: false },
-      global: { headers: { Authorization: `Bearer ${token}` } },
-    });
+    // Revokes the refresh token(s), so the session can't be renewed and
+    // its access token stops passing getUser()
+    const { error } = await admin.auth.admin.signOut(token, scope);
+    if (error && error.status !== 401 && error.status !== 404) {
+      console.error("Sign out error:", error);
+      return apiError(500, "Unable to sign out. Please try again.");
+    }
 
-    // Sign out the user (invalidates the token)
-    await supabase.auth.signOut();
+    if (user?.email) {
+      await recordAudit(admin, {
+        action: "auth.signout",
+        actor_email: user.email,
+        ip: getClientIp(req),
+        details: { scope },
+      });
+    }
+  }
 
-    return NextResponse.json({ ok: true });
-  } catch (error) {
-    // Even on error, return success to avoid blocking the client-side redirect
-    console.error("Sign out error:", error);
-    return NextResponse.json({ ok: true });
+  // Clear the session cookies (sb-<project>-auth-token, possibly chunked)
+  const cookieStore = await cookies();
+  for (const { name } of cookieStore.getAll()) {
+    if (/^sb-.+-auth-token/.test(name)) cookieStore.delete(name);
   }
+
+  return NextResponse.json({ ok: true, scope });
 }
@@ -1,16 +1,31 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { createAdminClient, getServerEnv } from "@/lib/requestContext";
+import { isValidEmail, normalizeEmail } from "@/lib/email";
+import { recordAudit } from "@/lib/audit";
+import { createRateLimiter, getClientIp, tooManyRequests } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 
-function isValidEmail(email: string) {
-  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-}
+// Sign-up attempts per client IP per hour
+const limiter = createRateLimiter({ name: "signup", limit: 10, windowMs: 60 * 60_000 });
+
+// The same answer whether the account was created, already existed or the
+// email isn't allowlisted, so the route can't be used to probe the allowlist
+const SIGNUP_RESPONSE = {
+  ok: true,
+  message:
+    "If this email is authorized for the portal, your account is ready. Sign in, or reset your password if you already had an account.",
+};
 
 export async function POST(req: Request) {
+  const limit = await limiter(getClientIp(req));
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
   try {
     const body = await req.json();
-    const email = String(body?.email ?? "").trim().toLowerCase();
+    const email = normalizeEmail(body?.email);
     const password = String(body?.password ?? "");
 
     // Validate inputs
@@ -28,10 +43,9 @@ export async function POST(req: Request) {
       );
     }
 
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+    const env = getServerEnv();
 
-    if (!supabaseUrl || !serviceKey) {
+    if (!env) {
       console.error("Missing Supabase env vars");
       return NextResponse.json(
         { error: "Server configuration error. Please contact support." },
@@ -40,16 +54,13 @@ export async function POST(req: Request) {
     }
 
     // Server-side admin client
-    const admin = createClient(supabaseUrl, serviceKey, {
-      auth: { persistSession: false },
-    });
+    const admin = createAdminClient(env);
 
-    // 🔒 Check allowlist - user MUST be authorized
+    // 🔒 Check allowlist - user MUST be authorized (one row per customer)
     const { data: allowed, error: allowErr } = await admin
       .from("allowed_users")
       .select("email, is_active, customer_id")
-      .eq("email", email)
-      .maybeSingle();
+      .eq("email", email);
 
     if (allowErr) {
       console.error("Allowlist lookup error:", allowErr);
@@ -59,11 +70,14 @@ export async function POST(req: Request) {
       );
     }
 
-    if (!allowed || !allowed.is_active) {
-      return NextResponse.json(
-        { error: "This email is not authorized. Please contact WPL for access." },
-        { status: 403 }
-      );
+    if (!allowed?.some((row) => row.is_active)) {
+      await recordAudit(admin, {
+        action: "auth.signup.denied",
+        actor_email: email,
+        ip: getClientIp(req),
+        details: { reason: allowed?.length ? "access_revoked" : "not_allowlisted" },
+      });
+      return NextResponse.json(SIGNUP_RESPONSE);
     }
 
     // ✅ User is authorized - create their account
@@ -74,25 +88,32 @@ export async function POST(req: Request) {
     });
 
     if (authErr) {
-      // Check if user already exists
+      // Already has an account: same answer as a new one
       if (authErr.message.includes("already registered")) {
-        return NextResponse.json(
-          { error: "An account with this email already exists. Please sign in instead." },
-          { status: 400 }
-        );
+        await recordAudit(admin, {
+          action: "auth.signup.denied",
+          actor_email: email,
+          ip: getClientIp(req),
+          details: { reason: "already_registered" },
+        });
+        return NextResponse.json(SIGNUP_RESPONSE);
       }
-      
+
       console.error("User creation error:", authErr);
       return NextResponse.json(
-        { error: authErr.message || "Unable to create account." },
-        { status: 400 }
+        { error: "Unable to create account. Please try again later." },
+        { status: 500 }
       );
     }
 
-    return NextResponse.json({ 
-      ok: true,
-      message: "Account created successfully."
+    await recordAudit(admin, {
+      action: "auth.signup",
+      actor_email: email,
+      target: authData.user?.id ?? null,
+      ip: getClientIp(req),
     });
+
+    return NextResponse.json(SIGNUP_RESPONSE);
   } catch (err) {
     console.error("Signup error:", err);
     return NextResponse.json(
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { apiError, createAdminClient, getServerEnv } from "@/lib/requestContext";
+import { getDocumentStorage } from "@/lib/documentStorage";
+import { verifyDocumentLink } from "@/lib/documentLinks";
+
+export const runtime = "nodejs";
+
+// Signed, expiring download link issued by .../documents/[id]/link. No
+// session needed: the signature stands in for the access check.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
+
+  const { id } = await params;
+
+  let valid = false;
+  try {
+    valid = verifyDocumentLink(id, new URL(req.url).searchParams);
+  } catch (err) {
+    console.error("Document link check failed:", err);
+  }
+  if (!valid) {
+    return apiError(403, "This download link is invalid or has expired.");
+  }
+
+  const admin = createAdminClient(env);
+  const { data: doc, error } = await admin
+    .from("shipment_documents")
+    .select("filename, content_type, storage_key")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!doc) {
+    return apiError(404, "Document not found");
+  }
+
+  let body: Uint8Array | null;
+  try {
+    body = await getDocumentStorage(admin).get(doc.storage_key);
+  } catch (err) {
+    console.error("Document read failed:", err);
+    return apiError(500, "Unable to read the document.");
+  }
+
+  if (!body) {
+    return apiError(404, "Document not found");
+  }
+
+  return new NextResponse(Buffer.from(body), {
+    headers: {
+      "Content-Type": doc.content_type,
+      "Content-Disposition": `attachment; filename="${doc.filename.replace(/"/g, "")}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { apiError, getStaffContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { IMPORT_BATCH_COLUMNS, mappingError, type ImportMapping } from "@/lib/importMapping";
+import { canSeeImportBatch, commitImport } from "@/lib/shipmentImport";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Apply a previewed draft using its saved mapping.
+export async function POST(req: Request, { params }: Params) {
+  const ctx = await getStaffContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { id } = await params;
+
+  const { data: batch, error } = await ctx.admin
+    .from("import_batches")
+    .select("id, filename, status, headers, rows, mapping, created_by, customer_ids")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!batch || !canSeeImportBatch(ctx, batch)) {
+    return apiError(404, "Import not found");
+  }
+
+  const mapping = batch.mapping as ImportMapping | null;
+  if (!mapping || mappingError(batch.headers, mapping)) {
+    return apiError(400, "Preview the import before committing it.");
+  }
+
+  // Claim the draft so a double-click can't apply it twice. It only counts
+  // as committed (and can only be rolled back) once it's fully applied.
+  const { data: claimed, error: claimError } = await ctx.admin
+    .from("import_batches")
+    .update({ status: "committing", committed_by: ctx.email })
+    .eq("id", id)
+    .eq("status", "draft")
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) {
+    return apiError(500, claimError.message);
+  }
+
+  if (!claimed) {
+    return apiError(409, "This import has already been committed.");
+  }
+
+  try {
+    const plan = await commitImport(
+      ctx.admin,
+      id,
+      { headers: batch.headers, rows: batch.rows },
+      mapping,
+      ctx.canAccessCustomer
+    );
+
+    const { data, error: saveError } = await ctx.admin
+      .from("import_batches")
+      .update({
+        status: "committed",
+        committed_at: new Date().toISOString(),
+        summary: plan.totals,
+        customer_ids: plan.customer_ids,
+      })
+      .eq("id", id)
+      .eq("status", "committing")
+      .select(IMPORT_BATCH_COLUMNS)
+      .single();
+
+    if (saveError) {
+      return apiError(500, saveError.message);
+    }
+
+    await auditAccess(ctx, "import.commit", {
+      target: id,
+      details: { filename: batch.filename, ...plan.totals },
+    });
+
+    return NextResponse.json({ data, plan });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error("Import commit failed:", err);
+
+    // Whatever was applied is recorded, so a failed batch can be rolled back
+    await ctx.admin
+      .from("import_batches")
+      .update({ status: "failed", error: message })
+      .eq("id", id)
+      .eq("status", "committing");
+
+    await auditAccess(ctx, "import.commit.failed", {
+      target: id,
+      details: { filename: batch.filename, error: message },
+    });
+
+    return apiError(500, "The import failed part-way. Roll it back and try again.");
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { apiError, getStaffContext } from "@/lib/requestContext";
+import { mappingError, parseImportMapping } from "@/lib/importMapping";
+import { canSeeImportBatch, planImport } from "@/lib/shipmentImport";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Diff a draft against current data: { mapping }. Saves the mapping.
+export async function POST(req: Request, { params }: Params) {
+  const ctx = await getStaffContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => null);
+  const mapping = parseImportMapping(body?.mapping);
+
+  const { data: batch, error } = await ctx.admin
+    .from("import_batches")
+    .select("id, status, headers, rows, created_by, customer_ids")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!batch || !canSeeImportBatch(ctx, batch)) {
+    return apiError(404, "Import not found");
+  }
+
+  if (batch.status !== "draft") {
+    return apiError(409, "This import has already been committed.");
+  }
+
+  if (!mapping) {
+    return apiError(400, "Choose a column mapping.");
+  }
+
+  const invalid = mappingError(batch.headers, mapping);
+  if (invalid) {
+    return apiError(400, invalid);
+  }
+
+  try {
+    const plan = await planImport(
+      ctx.admin,
+      { headers: batch.headers, rows: batch.rows },
+      mapping,
+      ctx.canAccessCustomer
+    );
+
+    await ctx.admin
+      .from("import_batches")
+      .update({ mapping, summary: plan.totals, customer_ids: plan.customer_ids })
+      .eq("id", id)
+      .eq("status", "draft");
+
+    return NextResponse.json({ data: plan });
+  } catch (err) {
+    console.error("Import preview failed:", err);
+    return apiError(500, "Unable to preview the import.");
+  }
+}
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  bearerRequest,
+  createSupabaseMock,
+  mockSupabaseJs,
+  testUser,
+  type QueryCall,
+  type SupabaseMock,
+} from "@/test/supabaseMock";
+import { POST as rollback } from "@/app/api/imports/[id]/rollback/route";
+
+let supabase: SupabaseMock;
+vi.mock("@supabase/supabase-js", (importOriginal) =>
+  mockSupabaseJs(importOriginal, () => supabase)
+);
+
+const STAFF = testUser({ email: "sam@wpl.test", app_metadata: { role: "staff" } });
+
+const BATCH = {
+  id: "batch-1",
+  filename: "week-42.xlsx",
+  status: "committed",
+  created_by: "other@wpl.test",
+  customer_ids: ["acme"],
+};
+
+function change(shipmentId: string, customerId: string) {
+  return {
+    id: 1,
+    shipment_id: shipmentId,
+    action: "update",
+    before: { shipment_id: shipmentId, customer_id: customerId },
+    changes: {},
+    event_count: 0,
+  };
+}
+
+function has(call: QueryCall, method: string) {
+  return call.ops.some((op) => op.method === method);
+}
+
+function setup({ batch = BATCH, changes = [change("WPL1", "ACME")], claimed = true } = {}) {
+  supabase = createSupabaseMock({
+    users: { "staff-token": STAFF },
+    tables: {
+      allowed_users: { data: [{ customer_id: "ACME", is_active: true, require_mfa: false }] },
+      import_batches: (call) => {
+        if (!has(call, "update")) return { data: batch };
+        return { data: claimed ? { ...batch, status: "rolling_back" } : null };
+      },
+      import_batch_changes: (call) => (has(call, "gt") ? { data: [] } : { data: changes }),
+    },
+  });
+}
+
+function statusWrites() {
+  return supabase.calls
+    .filter((c) => c.name === "import_batches" && has(c, "update"))
+    .map((c) => (c.ops[0].args[0] as { status: string }).status);
+}
+
+function request() {
+  return bearerRequest("/api/imports/batch-1/rollback", "staff-token", { method: "POST" });
+}
+
+const params = { params: Promise.resolve({ id: "batch-1" }) };
+
+describe("POST /api/imports/[id]/rollback", () => {
+  beforeEach(() => setup());
+
+  it("claims the batch before undoing it", async () => {
+    const res = await rollback(request(), params);
+
+    expect(res.status).toBe(200);
+    expect(statusWrites()).toEqual(["rolling_back", "rolled_back"]);
+    const claim = supabase.calls.find((c) => c.name === "import_batches" && has(c, "update"))!;
+    expect(claim.ops).toContainEqual({ method: "eq", args: ["status", "committed"] });
+  });
+
+  it("refuses when another rollback holds the batch", async () => {
+    setup({ claimed: false });
+
+    const res = await rollback(request(), params);
+
+    expect(res.status).toBe(409);
+    expect(supabase.calls.some((c) => c.name === "shipments" && has(c, "update"))).toBe(false);
+  });
+
+  it("refuses a batch that touched a customer the caller can't access", async () => {
+    setup({
+      changes: [change("WPL1", "ACME"), change("WPL2", "OTHER")],
+    });
+
+    const res = await rollback(request(), params);
+
+    expect(res.status).toBe(403);
+    expect(statusWrites()).toEqual([]);
+  });
+
+  it("hides batches for other customers", async () => {
+    setup({ batch: { ...BATCH, customer_ids: ["acme", "other"] } });
+
+    const res = await rollback(request(), params);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("won't roll back a commit that is still being applied", async () => {
+    setup({ batch: { ...BATCH, status: "committing" } });
+
+    const res = await rollback(request(), params);
+
+    expect(res.status).toBe(409);
+    expect(statusWrites()).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { apiError, forbidden, getStaffContext } from "@/lib/requestContext";
+import { auditAccess, auditDenied } from "@/lib/audit";
+import { IMPORT_BATCH_COLUMNS } from "@/lib/importMapping";
+import {
+  batchCustomerIds,
+  canSeeImportBatch,
+  loadBatchChanges,
+  rollbackImport,
+} from "@/lib/shipmentImport";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Undo a committed (or part-applied) batch. Refused with 409 and the
+// conflicting shipments when they've changed since; { force: true }
+// rolls back anyway.
+export async function POST(req: Request, { params }: Params) {
+  const ctx = await getStaffContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => null);
+  const force = body?.force === true;
+
+  const { data: batch, error } = await ctx.admin
+    .from("import_batches")
+    .select("id, filename, status, created_by, customer_ids")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!batch || !canSeeImportBatch(ctx, batch)) {
+    return apiError(404, "Import not found");
+  }
+
+  if (batch.status !== "committed" && batch.status !== "failed") {
+    return apiError(409, "Only committed imports can be rolled back.");
+  }
+
+  let changes;
+  try {
+    changes = await loadBatchChanges(ctx.admin, id);
+  } catch (err) {
+    console.error("Import rollback failed:", err);
+    return apiError(500, "Unable to roll back the import.");
+  }
+
+  // Rolling back deletes and rewrites shipments, so it needs every customer
+  const denied = batchCustomerIds(changes).find((c) => !ctx.canAccessCustomer(c));
+  if (denied) {
+    await auditDenied(ctx, "customer_not_allowed", { customer_id: denied, target: id });
+    return forbidden("You don't have access to every customer in this import.");
+  }
+
+  // Claim the batch so two rollbacks can't interleave
+  const { data: claimed, error: claimError } = await ctx.admin
+    .from("import_batches")
+    .update({ status: "rolling_back" })
+    .eq("id", id)
+    .eq("status", batch.status)
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) {
+    return apiError(500, claimError.message);
+  }
+
+  if (!claimed) {
+    return apiError(409, "This import is already being rolled back.");
+  }
+
+  // Hands the batch back in the state it was claimed from
+  const release = () =>
+    ctx.admin
+      .from("import_batches")
+      .update({ status: batch.status })
+      .eq("id", id)
+      .eq("status", "rolling_back");
+
+  try {
+    const result = await rollbackImport(ctx.admin, id, { force, changes });
+
+    if (result.conflicts.length && !force) {
+      await release();
+      return NextResponse.json(
+        {
+          error: `${result.conflicts.length} shipment(s) changed since this import.`,
+          code: "rollback_conflicts",
+          conflicts: result.conflicts,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { data, error: saveError } = await ctx.admin
+      .from("import_batches")
+      .update({
+        status: "rolled_back",
+        rolled_back_by: ctx.email,
+        rolled_back_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "rolling_back")
+      .select(IMPORT_BATCH_COLUMNS)
+      .single();
+
+    if (saveError) {
+      return apiError(500, saveError.message);
+    }
+
+    await auditAccess(ctx, "import.rollback", {
+      target: id,
+      details: {
+        filename: batch.filename,
+        shipments: result.shipments,
+        ...(result.conflicts.length ? { forced_over: result.conflicts } : {}),
+      },
+    });
+
+    return NextResponse.json({ data });
+  } catch (err) {
+    console.error("Import rollback failed:", err);
+    // Part of it may have been undone; it can be retried from where it was
+    await release();
+    return apiError(500, "Unable to roll back the import.");
+  }
+}
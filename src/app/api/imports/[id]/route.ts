@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { apiError, getStaffContext } from "@/lib/requestContext";
+import { IMPORT_BATCH_COLUMNS, suggestMapping } from "@/lib/importMapping";
+import { canSeeImportBatch } from "@/lib/shipmentImport";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  const ctx = await getStaffContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { id } = await params;
+  const { data, error } = await ctx.admin
+    .from("import_batches")
+    .select(`${IMPORT_BATCH_COLUMNS}, rows`)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  // Batches for customers the caller can't access look the same as missing ones
+  if (!data || !canSeeImportBatch(ctx, data)) {
+    return apiError(404, "Import not found");
+  }
+
+  const { rows, ...batch } = data;
+  return NextResponse.json({
+    data: batch,
+    suggested_mapping: batch.mapping ?? suggestMapping(batch.headers),
+    sample: (rows as string[][]).slice(0, 5),
+  });
+}
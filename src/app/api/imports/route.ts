@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { apiError, getStaffContext } from "@/lib/requestContext";
+import { auditAccess } from "@/lib/audit";
+import { parseSpreadsheet } from "@/lib/spreadsheet";
+import { IMPORT_BATCH_COLUMNS, suggestMapping } from "@/lib/importMapping";
+import { safeFilename } from "@/lib/documents";
+import { importBatchScope } from "@/lib/shipmentImport";
+
+export const runtime = "nodejs";
+
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+// Recent import batches the caller can see, newest first
+export async function GET(req: Request) {
+  const ctx = await getStaffContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { data, error } = await ctx.admin
+    .from("import_batches")
+    .select(IMPORT_BATCH_COLUMNS)
+    .or(importBatchScope(ctx))
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  return NextResponse.json({ data: data ?? [] });
+}
+
+// Upload a tracker (multipart `file`, .xlsx or .csv) as a draft batch.
+export async function POST(req: Request) {
+  const ctx = await getStaffContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+
+  if (!(file instanceof File) || file.size === 0) {
+    return apiError(400, "Choose a file to import.");
+  }
+
+  if (!/\.(xlsx|csv)$/i.test(file.name)) {
+    return apiError(400, "Import an .xlsx or .csv file.");
+  }
+
+  if (file.size > MAX_IMPORT_BYTES) {
+    return apiError(413, `Imports can be at most ${MAX_IMPORT_BYTES / 1024 / 1024} MB.`);
+  }
+
+  let sheet;
+  try {
+    sheet = await parseSpreadsheet(file.name, await file.arrayBuffer());
+  } catch (err) {
+    return apiError(400, err instanceof Error ? err.message : "Unable to read the file.");
+  }
+
+  const filename = safeFilename(file.name);
+  const { data, error } = await ctx.admin
+    .from("import_batches")
+    .insert({
+      filename,
+      headers: sheet.headers,
+      rows: sheet.rows,
+      row_count: sheet.rows.length,
+      created_by: ctx.email,
+    })
+    .select(IMPORT_BATCH_COLUMNS)
+    .single();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "import.upload", {
+    target: data.id,
+    details: { filename, rows: sheet.rows.length },
+  });
+
+  return NextResponse.json(
+    {
+      data,
+      suggested_mapping: suggestMapping(sheet.headers),
+      sample: sheet.rows.slice(0, 5),
+    },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { apiError } from "@/lib/requestContext";
+import { getApiKeyContext } from "@/lib/apiKeys";
+import { recordAudit } from "@/lib/audit";
+import { MAX_INGEST_BATCH, ingestEvents } from "@/lib/eventIngestion";
+
+export const runtime = "nodejs";
+
+// Carrier/agent feed ingestion. Authenticated with an API key carrying
+// the events:write scope. Body: { events: [{ shipment_id, event_code,
+// event_time, location?, notes? }] }. Responds with one result per row.
+export async function POST(req: Request) {
+  const ctx = await getApiKeyContext(req, "events:write");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const body = await req.json().catch(() => null);
+  const rows = Array.isArray(body) ? body : body?.events;
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return apiError(400, "Body must contain a non-empty events array.");
+  }
+
+  if (rows.length > MAX_INGEST_BATCH) {
+    return apiError(400, `Send at most ${MAX_INGEST_BATCH} events per request.`);
+  }
+
+  try {
+    const summary = await ingestEvents(ctx.admin, rows, {
+      source: `api:${ctx.key.name}`,
+      canAccessCustomer: ctx.canAccessCustomer,
+    });
+
+    await recordAudit(ctx.admin, {
+      action: "ingest.events",
+      actor_email: null,
+      target: ctx.key.id,
+      ip: ctx.ip,
+      details: {
+        key: ctx.key.name,
+        inserted: summary.inserted,
+        duplicates: summary.duplicates,
+        rejected: summary.rejected,
+      },
+    });
+
+    // 200 even when some rows were rejected; callers check per-row results
+    return NextResponse.json(summary);
+  } catch (err) {
+    console.error("Event ingestion failed:", err);
+    return apiError(500, err instanceof Error ? err.message : "Ingestion failed");
+  }
+}
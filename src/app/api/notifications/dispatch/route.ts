@@ -0,0 +1,69 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  createAdminClient,
+  getBearerToken,
+  getServerEnv,
+  unauthorized,
+} from "@/lib/requestContext";
+import {
+  deliverDueNotifications,
+  enqueueMilestoneNotifications,
+  type InsertedEvent,
+} from "@/lib/notificationDispatch";
+import { getNotificationTransports } from "@/lib/notificationTransports";
+
+export const runtime = "nodejs";
+
+function secretMatches(given: string, expected: string) {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Called by the Supabase database webhook on `events` INSERT (body is the
+ * webhook payload) and on a schedule with an empty body to retry pending
+ * deliveries. Authenticated with NOTIFICATIONS_DISPATCH_SECRET.
+ */
+export async function POST(req: Request) {
+  const env = getServerEnv();
+  const dispatchSecret = process.env.NOTIFICATIONS_DISPATCH_SECRET;
+
+  if (!env || !dispatchSecret) {
+    return apiError(500, "Server env missing");
+  }
+
+  if (!secretMatches(getBearerToken(req), dispatchSecret)) {
+    return unauthorized();
+  }
+
+  const body = await req.json().catch(() => null);
+  const admin = createAdminClient(env);
+
+  let queued = 0;
+  if (body?.table === "events" && body?.type === "INSERT" && body.record) {
+    const result = await enqueueMilestoneNotifications(
+      admin,
+      body.record as InsertedEvent
+    );
+
+    if (result.error) {
+      console.error("Notification enqueue error:", result.error);
+      return apiError(500, result.error);
+    }
+    queued = result.queued;
+  }
+
+  try {
+    const delivered = await deliverDueNotifications(
+      admin,
+      getNotificationTransports()
+    );
+    return NextResponse.json({ queued, ...delivered });
+  } catch (err) {
+    console.error("Notification delivery error:", err);
+    return apiError(500, "Unable to deliver notifications");
+  }
+}
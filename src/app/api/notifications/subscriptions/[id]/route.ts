@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { apiError, getRequestContext } from "@/lib/requestContext";
+
+export const runtime = "nodejs";
+
+// Deactivates rather than deletes so the delivery log stays intact.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { id } = await params;
+
+  const { data, error } = await ctx.admin
+    .from("notification_subscriptions")
+    .update({ is_active: false })
+    .eq("id", id)
+    .eq("email", ctx.email)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data) {
+    return apiError(404, "Subscription not found");
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  bearerRequest,
+  createSupabaseMock,
+  mockSupabaseJs,
+  testUser,
+  type SupabaseMock,
+} from "@/test/supabaseMock";
+import { POST as subscribe } from "@/app/api/notifications/subscriptions/route";
+
+let supabase: SupabaseMock;
+vi.mock("@supabase/supabase-js", (importOriginal) =>
+  mockSupabaseJs(importOriginal, () => supabase)
+);
+
+const ALICE = testUser({ email: "alice@acme.com" });
+
+const SHIPMENTS: Record<string, { customer_id: string }> = {
+  WPL1: { customer_id: "ACME" },
+  WPL2: { customer_id: "OTHER" },
+};
+
+beforeEach(() => {
+  supabase = createSupabaseMock({
+    users: { "alice-token": ALICE },
+    tables: {
+      allowed_users: { data: [{ customer_id: "acme", is_active: true, require_mfa: false }] },
+      shipments: (call) => {
+        const id = call.ops.find((op) => op.method === "eq")?.args[1] as string;
+        return { data: SHIPMENTS[id] ?? null };
+      },
+      notification_subscriptions: { data: { id: "sub-1" } },
+    },
+  });
+});
+
+function request(shipmentId: string) {
+  return bearerRequest("/api/notifications/subscriptions", "alice-token", {
+    method: "POST",
+    body: JSON.stringify({ shipment_id: shipmentId, milestones: ["delivered"] }),
+  });
+}
+
+describe("POST /api/notifications/subscriptions", () => {
+  it("subscribes to a shipment of the caller's customer", async () => {
+    const res = await subscribe(request("WPL1"));
+    expect(res.status).toBe(201);
+  });
+
+  it("answers the same for another customer's shipment as for a missing one", async () => {
+    const other = await subscribe(request("WPL2"));
+    const missing = await subscribe(request("WPL404"));
+
+    expect(other.status).toBe(404);
+    expect(await other.json()).toEqual(await missing.json());
+    expect(missing.status).toBe(404);
+    expect(supabase.calls.some((c) => c.name === "notification_subscriptions")).toBe(false);
+  });
+});
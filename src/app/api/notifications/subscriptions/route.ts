@@ -0,0 +1,116 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { apiError, forbidden, getRequestContext } from "@/lib/requestContext";
+import { MILESTONES } from "@/lib/eventCodes";
+import { quoteFilterValue } from "@/lib/shipmentListQuery";
+import { webhookUrlError } from "@/lib/webhookUrl";
+
+export const runtime = "nodejs";
+
+const SUBSCRIPTION_COLUMNS =
+  "id, customer_id, shipment_id, milestones, channel, target, is_active, created_at";
+
+export async function GET(req: Request) {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const shipmentId = new URL(req.url).searchParams.get("shipment_id");
+
+  let query = ctx.admin
+    .from("notification_subscriptions")
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq("email", ctx.email)
+    .eq("is_active", true)
+    .order("created_at", { ascending: false });
+
+  if (shipmentId) {
+    query = query.or(`shipment_id.is.null,shipment_id.eq.${quoteFilterValue(shipmentId)}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  // Per-customer subscriptions only apply to customers still in scope
+  return NextResponse.json({
+    data: (data ?? []).filter((s) => ctx.canAccessCustomer(s.customer_id)),
+  });
+}
+
+export async function POST(req: Request) {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const body = await req.json().catch(() => null);
+  const shipmentId = body?.shipment_id ? String(body.shipment_id) : null;
+  const channel = String(body?.channel ?? "email");
+  const milestones: string[] = Array.isArray(body?.milestones)
+    ? body.milestones.map(String)
+    : [];
+
+  if (
+    milestones.length === 0 ||
+    !milestones.every((k) => MILESTONES.some((m) => m.key === k))
+  ) {
+    return apiError(400, "Choose at least one valid milestone.");
+  }
+
+  if (channel !== "email" && channel !== "webhook") {
+    return apiError(400, "Channel must be email or webhook.");
+  }
+
+  // Email always goes to the signed-in user; webhooks need a public https URL
+  const target = channel === "email" ? ctx.email : String(body?.target ?? "").trim();
+  if (channel === "webhook") {
+    const urlError = await webhookUrlError(target);
+    if (urlError) return apiError(400, urlError);
+  }
+
+  let customerId = body?.customer_id ? String(body.customer_id) : null;
+
+  if (shipmentId) {
+    const { data: shipment, error } = await ctx.admin
+      .from("shipments")
+      .select("customer_id")
+      .eq("shipment_id", shipmentId)
+      .maybeSingle();
+
+    if (error) {
+      return apiError(500, error.message);
+    }
+    // Other customers' shipments look the same as missing ones
+    if (!shipment || !ctx.canAccessCustomer(shipment.customer_id)) {
+      return apiError(404, "Shipment not found");
+    }
+    customerId = shipment.customer_id;
+  }
+
+  if (!ctx.canAccessCustomer(customerId)) {
+    return forbidden();
+  }
+
+  const secret = channel === "webhook" ? randomBytes(32).toString("hex") : null;
+
+  const { data, error } = await ctx.admin
+    .from("notification_subscriptions")
+    .insert({
+      email: ctx.email,
+      customer_id: customerId,
+      shipment_id: shipmentId,
+      milestones,
+      channel,
+      target,
+      secret,
+    })
+    .select(SUBSCRIPTION_COLUMNS)
+    .single();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  // The signing secret is only ever shown here
+  return NextResponse.json({ data, secret }, { status: 201 });
+}
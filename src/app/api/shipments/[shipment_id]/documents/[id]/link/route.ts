@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { apiError, getShipmentsContext } from "@/lib/requestContext";
+import { loadAccessibleShipment } from "@/lib/shipmentDetail";
+import { auditAccess } from "@/lib/audit";
+import { signDocumentLink } from "@/lib/documentLinks";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ shipment_id: string; id: string }> };
+
+// Issue a short-lived signed download link after the customer access check
+export async function POST(req: Request, { params }: Params) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { shipment_id: shipmentId, id } = await params;
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  const { data, error } = await ctx.admin
+    .from("shipment_documents")
+    .select("id, doc_type, filename")
+    .eq("id", id)
+    .eq("shipment_id", shipmentId)
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data) {
+    return apiError(404, "Document not found");
+  }
+
+  let link;
+  try {
+    link = signDocumentLink(data.id);
+  } catch (err) {
+    console.error("Document link signing failed:", err);
+    return apiError(500, "Document downloads are not configured.");
+  }
+
+  await auditAccess(ctx, "document.download", {
+    customer_id: shipment.customer_id,
+    target: shipmentId,
+    details: { document_id: data.id, doc_type: data.doc_type, filename: data.filename },
+  });
+
+  return NextResponse.json(link);
+}
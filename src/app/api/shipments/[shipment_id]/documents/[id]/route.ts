@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { apiError, forbidden, getShipmentsContext, isStaffRole } from "@/lib/requestContext";
+import { loadAccessibleShipment } from "@/lib/shipmentDetail";
+import { auditAccess } from "@/lib/audit";
+import { getDocumentStorage } from "@/lib/documentStorage";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ shipment_id: string; id: string }> };
+
+// Delete a document (WPL staff only)
+export async function DELETE(req: Request, { params }: Params) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  if (!isStaffRole(ctx.role)) {
+    return forbidden("Only WPL staff can delete documents");
+  }
+
+  const { shipment_id: shipmentId, id } = await params;
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  const { data, error } = await ctx.admin
+    .from("shipment_documents")
+    .delete()
+    .eq("id", id)
+    .eq("shipment_id", shipmentId)
+    .select("storage_key, filename, doc_type")
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data) {
+    return apiError(404, "Document not found");
+  }
+
+  try {
+    await getDocumentStorage(ctx.admin).remove(data.storage_key);
+  } catch (err) {
+    // The row is gone, so the file is unreachable; just log it
+    console.error("Document file removal failed:", err);
+  }
+
+  await auditAccess(ctx, "document.delete", {
+    customer_id: shipment.customer_id,
+    target: shipmentId,
+    details: { document_id: id, doc_type: data.doc_type, filename: data.filename },
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,111 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { apiError, forbidden, getShipmentsContext, isStaffRole } from "@/lib/requestContext";
+import { loadAccessibleShipment } from "@/lib/shipmentDetail";
+import { auditAccess } from "@/lib/audit";
+import { getDocumentStorage } from "@/lib/documentStorage";
+import {
+  DOCUMENT_COLUMNS,
+  MAX_DOCUMENT_BYTES,
+  isDocumentType,
+  safeFilename,
+} from "@/lib/documents";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ shipment_id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { shipment_id: shipmentId } = await params;
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  const { data, error } = await ctx.admin
+    .from("shipment_documents")
+    .select(DOCUMENT_COLUMNS)
+    .eq("shipment_id", shipmentId)
+    .order("doc_type", { ascending: true })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  return NextResponse.json({ data: data ?? [], can_upload: isStaffRole(ctx.role) });
+}
+
+// Upload (WPL staff only): multipart form with `file` and `doc_type`.
+export async function POST(req: Request, { params }: Params) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  if (!isStaffRole(ctx.role)) {
+    return forbidden("Only WPL staff can upload documents");
+  }
+
+  const { shipment_id: shipmentId } = await params;
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  const docType = form?.get("doc_type");
+
+  if (!(file instanceof File) || file.size === 0) {
+    return apiError(400, "Choose a file to upload.");
+  }
+
+  if (!isDocumentType(docType)) {
+    return apiError(400, "Choose a document type.");
+  }
+
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return apiError(413, `Documents can be at most ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`);
+  }
+
+  const id = randomUUID();
+  const filename = safeFilename(file.name);
+  const contentType = file.type || "application/octet-stream";
+  const storageKey = `${shipmentId.replace(/[^\w.-]+/g, "_")}/${id}`;
+  const storage = getDocumentStorage(ctx.admin);
+
+  try {
+    await storage.put(storageKey, new Uint8Array(await file.arrayBuffer()), contentType);
+  } catch (err) {
+    console.error("Document upload failed:", err);
+    return apiError(500, "Unable to store the document.");
+  }
+
+  const { data, error } = await ctx.admin
+    .from("shipment_documents")
+    .insert({
+      id,
+      shipment_id: shipmentId,
+      customer_id: shipment.customer_id,
+      doc_type: docType,
+      filename,
+      content_type: contentType,
+      size_bytes: file.size,
+      storage_key: storageKey,
+      uploaded_by: ctx.email,
+    })
+    .select(DOCUMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    // Don't leave orphaned bytes behind
+    await storage.remove(storageKey).catch(() => {});
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "document.upload", {
+    customer_id: shipment.customer_id,
+    target: shipmentId,
+    details: { document_id: id, doc_type: docType, filename },
+  });
+
+  return NextResponse.json({ data }, { status: 201 });
+}
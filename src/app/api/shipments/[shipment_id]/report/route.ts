@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getShipmentsContext } from "@/lib/requestContext";
+import { loadShipmentDetail } from "@/lib/shipmentDetail";
+import { auditAccess } from "@/lib/audit";
+import { renderShipmentReport } from "@/lib/shipmentReport";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ shipment_id: string }> }
+) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { shipment_id: shipmentId } = await params;
+
+  // Same access check as the detail route
+  const detail = await loadShipmentDetail(ctx, shipmentId);
+  if (detail instanceof NextResponse) return detail;
+
+  await auditAccess(ctx, "shipment.report", {
+    customer_id: detail.shipment.customer_id,
+    target: shipmentId,
+  });
+
+  const pdf = await renderShipmentReport(detail.shipment, detail.events);
+  const filename = `shipment-${shipmentId.replace(/[^\w.-]+/g, "_")}.pdf`;
+
+  return new Response(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
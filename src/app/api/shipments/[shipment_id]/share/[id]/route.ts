@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { apiError, getShipmentsContext } from "@/lib/requestContext";
+import { loadAccessibleShipment } from "@/lib/shipmentDetail";
+
+export const runtime = "nodejs";
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ shipment_id: string; id: string }> }
+) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { shipment_id: shipmentId, id } = await params;
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  const { data, error } = await ctx.admin
+    .from("shipment_share_tokens")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("shipment_id", shipmentId)
+    .is("revoked_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!data) {
+    return apiError(404, "Share link not found");
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { apiError, getShipmentsContext } from "@/lib/requestContext";
+import { loadAccessibleShipment } from "@/lib/shipmentDetail";
+import {
+  MAX_SHARE_DAYS,
+  SHARE_TOKEN_COLUMNS,
+  generateShareToken,
+} from "@/lib/shareTokens";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ shipment_id: string }> };
+
+// Active (unexpired, unrevoked) share links for the shipment
+export async function GET(req: Request, { params }: Params) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { shipment_id: shipmentId } = await params;
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  const { data, error } = await ctx.admin
+    .from("shipment_share_tokens")
+    .select(SHARE_TOKEN_COLUMNS)
+    .eq("shipment_id", shipmentId)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  return NextResponse.json({ data: data ?? [] });
+}
+
+export async function POST(req: Request, { params }: Params) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { shipment_id: shipmentId } = await params;
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  const body = await req.json().catch(() => null);
+  const days = Number(body?.expires_in_days ?? 7);
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_DAYS) {
+    return apiError(400, `Links can last between 1 and ${MAX_SHARE_DAYS} days.`);
+  }
+
+  const { token, tokenHash } = generateShareToken();
+
+  const { data, error } = await ctx.admin
+    .from("shipment_share_tokens")
+    .insert({
+      token_hash: tokenHash,
+      shipment_id: shipmentId,
+      customer_id: shipment.customer_id,
+      created_by: ctx.email,
+      expires_at: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select(SHARE_TOKEN_COLUMNS)
+    .single();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  // The raw token is only returned once; only its hash is stored
+  return NextResponse.json({ data, token }, { status: 201 });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { apiError, forbidden, getShipmentsContext } from "@/lib/requestContext";
+import { parseShipmentListParams } from "@/lib/shipments";
+import { auditAccess, auditDenied } from "@/lib/audit";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportShipments,
+  isExportFormat,
+} from "@/lib/shipmentExport";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const sp = new URL(req.url).searchParams;
+  const format = sp.get("format") ?? "csv";
+
+  if (!isExportFormat(format)) {
+    return apiError(400, "Unsupported export format");
+  }
+
+  if (ctx.customerIds.length === 0) {
+    return forbidden();
+  }
+
+  // Same filters and sort as the list; paging is ignored
+  const params = parseShipmentListParams(sp);
+
+  if (params.customer && !ctx.canAccessCustomer(params.customer)) {
+    await auditDenied(ctx, "customer_not_allowed", {
+      customer_id: params.customer,
+      target: "/api/shipments/export",
+    });
+    return forbidden();
+  }
+  const scopeIds = params.customer ? [params.customer] : ctx.customerIds;
+
+  await auditAccess(ctx, "shipments.export", {
+    customer_id: params.customer,
+    details: {
+      format,
+      q: params.q || undefined,
+      status: params.status ?? undefined,
+      from: params.from ?? undefined,
+      to: params.to ?? undefined,
+    },
+  });
+
+  const filename = `shipments-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  return new Response(exportShipments(ctx.admin, scopeIds, params, format), {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
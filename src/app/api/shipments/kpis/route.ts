@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { apiError, forbidden, getShipmentsContext } from "@/lib/requestContext";
+import { parseShipmentListParams } from "@/lib/shipments";
+import { auditAccess, auditDenied } from "@/lib/audit";
+import { fetchShipmentKpis } from "@/lib/shipmentKpis";
+
+export const runtime = "nodejs";
+
+// Dashboard aggregates: ?customer=&from=&to= (dates on last_event_time).
+export async function GET(req: Request) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  // Only the scope and range apply; other list filters are ignored
+  const sp = new URL(req.url).searchParams;
+  const params = parseShipmentListParams(
+    new URLSearchParams(
+      [...sp].filter(([key]) => key === "customer" || key === "from" || key === "to")
+    )
+  );
+
+  if (ctx.customerIds.length === 0) {
+    return forbidden();
+  }
+
+  if (params.customer && !ctx.canAccessCustomer(params.customer)) {
+    await auditDenied(ctx, "customer_not_allowed", {
+      customer_id: params.customer,
+      target: "/api/shipments/kpis",
+    });
+    return forbidden();
+  }
+  const scopeIds = params.customer ? [params.customer] : ctx.customerIds;
+
+  try {
+    const kpis = await fetchShipmentKpis(ctx.admin, scopeIds, params);
+
+    await auditAccess(ctx, "shipments.kpis", {
+      customer_id: params.customer,
+      details: { from: params.from ?? undefined, to: params.to ?? undefined },
+    });
+
+    return NextResponse.json({ data: kpis, customers: ctx.customerIds });
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Unable to load KPIs");
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { apiError, forbidden, getShipmentsContext } from "@/lib/requestContext";
+import { auditAccess, auditDenied } from "@/lib/audit";
+import {
+  MAX_LOOKUP_REFERENCES,
+  lookupReferences,
+  parseReferenceList,
+} from "@/lib/referenceLookup";
+
+export const runtime = "nodejs";
+
+// Bulk lookup: body is { references: string[] } or { text } as pasted,
+// plus an optional customer to narrow to.
+export async function POST(req: Request) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const body = await req.json().catch(() => null);
+  const references = parseReferenceList(
+    Array.isArray(body?.references)
+      ? body.references.map((r: unknown) => String(r ?? "")).join("\n")
+      : String(body?.text ?? "")
+  );
+
+  if (references.length === 0) {
+    return apiError(400, "Paste at least one reference.");
+  }
+
+  if (references.length > MAX_LOOKUP_REFERENCES) {
+    return apiError(400, `Look up at most ${MAX_LOOKUP_REFERENCES} references at a time.`);
+  }
+
+  if (ctx.customerIds.length === 0) {
+    return forbidden();
+  }
+
+  const customer = body?.customer ? String(body.customer).trim() : null;
+  if (customer && !ctx.canAccessCustomer(customer)) {
+    await auditDenied(ctx, "customer_not_allowed", {
+      customer_id: customer,
+      target: "/api/shipments/lookup",
+    });
+    return forbidden();
+  }
+  const scopeIds = customer ? [customer] : ctx.customerIds;
+
+  try {
+    const result = await lookupReferences(ctx.admin, scopeIds, references);
+
+    await auditAccess(ctx, "shipments.lookup", {
+      customer_id: customer,
+      details: {
+        references: references.length,
+        matched: result.matched.length,
+        unmatched: result.unmatched.length,
+      },
+    });
+
+    return NextResponse.json(result);
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Lookup failed");
+  }
+}
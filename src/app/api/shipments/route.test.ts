@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  bearerRequest,
+  createSupabaseMock,
+  mockSupabaseJs,
+  testUser,
+  type SupabaseMock,
+} from "@/test/supabaseMock";
+import { GET as listShipments } from "@/app/api/shipments/route";
+import { GET as getShipment } from "@/app/api/shipments/[shipment_id]/route";
+
+let supabase: SupabaseMock;
+vi.mock("@supabase/supabase-js", (importOriginal) =>
+  mockSupabaseJs(importOriginal, () => supabase)
+);
+
+const ALICE = testUser({ email: "alice@acme.com" });
+
+function setup(memberships: { customer_id: string; is_active: boolean }[]) {
+  supabase = createSupabaseMock({
+    users: { "alice-token": ALICE },
+    tables: {
+      allowed_users: { data: memberships.map((m) => ({ ...m, require_mfa: false })) },
+      shipments: (call) => {
+        const single = call.ops.some((op) => op.method === "maybeSingle");
+        if (single) {
+          return { data: { shipment_id: "WPL1", customer_id: "OTHER", current_status: null } };
+        }
+        return { data: [], count: 0 };
+      },
+    },
+  });
+}
+
+function auditActions() {
+  return supabase.calls
+    .filter((c) => c.name === "audit_log")
+    .map((c) => (c.ops[0].args[0] as { action: string; details?: { reason?: string } }))
+    .map((r) => (r.details?.reason ? `${r.action}:${r.details.reason}` : r.action));
+}
+
+describe("GET /api/shipments", () => {
+  beforeEach(() => setup([{ customer_id: "ACME", is_active: true }]));
+
+  it("rejects requests without a token", async () => {
+    const res = await listShipments(bearerRequest("/api/shipments"));
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects tokens Supabase Auth doesn't accept", async () => {
+    const res = await listShipments(bearerRequest("/api/shipments", "forged"));
+    expect(res.status).toBe(401);
+    expect(auditActions()).toContain("access.denied:invalid_token");
+  });
+
+  it("cuts off users whose memberships are all deactivated", async () => {
+    setup([{ customer_id: "ACME", is_active: false }]);
+    const res = await listShipments(bearerRequest("/api/shipments", "alice-token"));
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ code: "access_revoked" });
+  });
+
+  it("scopes the list to the caller's customers", async () => {
+    const res = await listShipments(bearerRequest("/api/shipments", "alice-token"));
+    expect(res.status).toBe(200);
+
+    const list = supabase.calls.find(
+      (c) => c.name === "shipments" && c.ops.some((op) => op.method === "range")
+    );
+    expect(list?.ops).toContainEqual({ method: "or", args: ['customer_id.ilike."ACME"'] });
+  });
+
+  it("refuses a customer the caller isn't allowlisted for", async () => {
+    const res = await listShipments(
+      bearerRequest("/api/shipments?customer=OTHER", "alice-token")
+    );
+    expect(res.status).toBe(403);
+    expect(auditActions()).toContain("access.denied:customer_not_allowed");
+  });
+});
+
+describe("GET /api/shipments/[shipment_id]", () => {
+  beforeEach(() => setup([{ customer_id: "ACME", is_active: true }]));
+
+  it("hides another customer's shipment", async () => {
+    const res = await getShipment(bearerRequest("/api/shipments/WPL1", "alice-token"), {
+      params: Promise.resolve({ shipment_id: "WPL1" }),
+    });
+    expect([403, 404]).toContain(res.status);
+  });
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  forbidden,
+  getBearerToken,
+  getServerEnv,
+  getShipmentsContext,
+  resolveRequestContext,
+} from "@/lib/requestContext";
+import { loadAccessibleShipment } from "@/lib/shipmentDetail";
+import { streamShipmentChanges } from "@/lib/shipmentChanges";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Live shipments/events changes for the caller's customers, as
+// server-sent events. Pass shipment_id to follow a single shipment.
+export async function GET(req: Request) {
+  const ctx = await getShipmentsContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
+
+  if (ctx.customerIds.length === 0) {
+    return forbidden();
+  }
+
+  const shipmentId = new URL(req.url).searchParams.get("shipment_id")?.trim() || null;
+  if (shipmentId) {
+    const shipment = await loadAccessibleShipment(ctx, shipmentId);
+    if (shipment instanceof NextResponse) return shipment;
+  }
+
+  // The stream outlives the request's access check, so repeat it while
+  // it's open: a revoked session or allowlist change ends the stream.
+  const token = getBearerToken(req);
+  const target = new URL(req.url).pathname;
+  const reauthorize = async () => {
+    const next = await resolveRequestContext(env, token, { ip: ctx.ip, target });
+    return next instanceof NextResponse ? null : next;
+  };
+
+  return new Response(
+    streamShipmentChanges(ctx, env, { shipmentId, signal: req.signal, reauthorize }),
+    {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    }
+  );
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { apiError, createAdminClient, getServerEnv } from "@/lib/requestContext";
+import { SHIPMENT_DETAIL_COLUMNS, withEvents } from "@/lib/shipmentDetail";
+import { resolveShareToken } from "@/lib/shareTokens";
+import { createRateLimiter, getClientIp, tooManyRequests } from "@/lib/rateLimit";
+
+export const runtime = "nodejs";
+
+// Public and unauthenticated, so throttle guessing per client IP
+const limiter = createRateLimiter({ name: "track", limit: 30, windowMs: 60_000 });
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const limit = await limiter(getClientIp(req));
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
+
+  const { token } = await params;
+  const admin = createAdminClient(env);
+
+  const { shipmentId, error } = await resolveShareToken(admin, token);
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  // Unknown, revoked and expired links all look the same
+  if (!shipmentId) {
+    return apiError(404, "This tracking link is invalid or has expired.");
+  }
+
+  const { data: shipment, error: shipmentError } = await admin
+    .from("shipments")
+    .select(SHIPMENT_DETAIL_COLUMNS)
+    .eq("shipment_id", shipmentId)
+    .maybeSingle();
+
+  if (shipmentError) {
+    return apiError(500, shipmentError.message);
+  }
+
+  if (!shipment) {
+    return apiError(404, "This tracking link is invalid or has expired.");
+  }
+
+  const detail = await withEvents(admin, shipment);
+  if (detail instanceof NextResponse) return detail;
+
+  // Redacted view: no PO, customer reference, customer or free-text notes
+  const s = detail.shipment;
+  return NextResponse.json({
+    shipment: {
+      reference: s.hawb || s.mawb || "Shipment",
+      hawb: s.hawb,
+      mawb: s.mawb,
+      origin: s.origin,
+      destination: s.destination,
+      eta_updated: s.eta_updated,
+      last_event_time: s.last_event_time,
+      derived_status: s.derived_status,
+      milestone_index: s.milestone_index,
+    },
+    events: detail.events.map((e) => ({
+      event_time: e.event_time,
+      event_code: e.event_code,
+      location: e.location,
+    })),
+  });
+}
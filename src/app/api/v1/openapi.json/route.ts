@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+import { portalUrl } from "@/lib/notificationDispatch";
+
+export const runtime = "nodejs";
+
+// Public so API clients and codegen tools can fetch it without a key
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument(portalUrl("")));
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { apiError } from "@/lib/requestContext";
+import { SHIPMENT_DETAIL_COLUMNS, withEvents } from "@/lib/shipmentDetail";
+import { fetchEtaHistory } from "@/lib/etaHistory";
+import { auditApiKey, getV1Context } from "@/lib/apiV1";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ shipment_id: string }> };
+
+// Same shape as /api/shipments/[shipment_id]: { shipment, events, eta_history }
+export async function GET(req: Request, { params }: Params) {
+  const ctx = await getV1Context(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { shipment_id: shipmentId } = await params;
+
+  const { data: shipment, error } = await ctx.admin
+    .from("shipments")
+    .select(SHIPMENT_DETAIL_COLUMNS)
+    .eq("shipment_id", shipmentId)
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  // Other customers' shipments look the same as missing ones
+  if (!shipment || !ctx.canAccessCustomer(shipment.customer_id)) {
+    return apiError(404, "Shipment not found");
+  }
+
+  const detail = await withEvents(ctx.admin, shipment);
+  if (detail instanceof NextResponse) return detail;
+
+  const { history, error: historyError } = await fetchEtaHistory(ctx.admin, shipmentId);
+  if (historyError) {
+    return apiError(500, historyError.message);
+  }
+
+  await auditApiKey(ctx, "api.shipment.view", {
+    customer_id: shipment.customer_id,
+    target: shipmentId,
+  });
+
+  return NextResponse.json({ ...detail, eta_history: history });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { apiError } from "@/lib/requestContext";
+import {
+  MAX_LOOKUP_REFERENCES,
+  lookupReferences,
+  parseReferenceList,
+} from "@/lib/referenceLookup";
+import { auditApiKey, getV1Context } from "@/lib/apiV1";
+
+export const runtime = "nodejs";
+
+// Search by reference: ?reference=A&reference=B (or comma separated).
+// Same shape as /api/shipments/lookup: { matched, unmatched }.
+export async function GET(req: Request) {
+  const ctx = await getV1Context(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const references = parseReferenceList(
+    new URL(req.url).searchParams.getAll("reference").join("\n")
+  );
+
+  if (references.length === 0) {
+    return apiError(400, "Pass at least one reference.");
+  }
+
+  if (references.length > MAX_LOOKUP_REFERENCES) {
+    return apiError(400, `Look up at most ${MAX_LOOKUP_REFERENCES} references at a time.`);
+  }
+
+  try {
+    const result = await lookupReferences(ctx.admin, ctx.customerIds, references);
+
+    await auditApiKey(ctx, "api.shipments.lookup", {
+      details: {
+        references: references.length,
+        matched: result.matched.length,
+        unmatched: result.unmatched.length,
+      },
+    });
+
+    return NextResponse.json(result);
+  } catch (err) {
+    return apiError(500, err instanceof Error ? err.message : "Lookup failed");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { apiError, forbidden } from "@/lib/requestContext";
+import { parseShipmentListParams } from "@/lib/shipments";
+import { fetchShipmentPage } from "@/lib/shipmentListQuery";
+import { auditApiKey, getV1Context } from "@/lib/apiV1";
+
+export const runtime = "nodejs";
+
+// Same filters and response shape as /api/shipments, minus the user email.
+export async function GET(req: Request) {
+  const ctx = await getV1Context(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const params = parseShipmentListParams(new URL(req.url).searchParams);
+
+  if (params.customer && !ctx.canAccessCustomer(params.customer)) {
+    return forbidden();
+  }
+  const scopeIds = params.customer ? [params.customer] : ctx.customerIds;
+
+  const { data, customers, total, error } = await fetchShipmentPage(
+    ctx.admin,
+    scopeIds,
+    ctx.customerIds,
+    params
+  );
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditApiKey(ctx, "api.shipments.list", {
+    customer_id: params.customer,
+    details: { page: params.page, q: params.q || undefined, returned: data.length, total },
+  });
+
+  return NextResponse.json({
+    data,
+    customers,
+    total,
+    page: params.page,
+    pageSize: params.pageSize,
+  });
+}
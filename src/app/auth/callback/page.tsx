@@ -3,6 +3,7 @@
 import { useEffect } from "react";
 import { useSearchParams } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { signInDestination } from "@/lib/signIn";
 import { Suspense } from "react";
 
 function parseHashParams() {
@@ -21,7 +22,12 @@ function CallbackHandler() {
         // Handle PKCE / code flow
         const code = sp.get("code");
         if (code) {
-          const { error } = await supabase.auth.exchangeCodeForSession(code);
+          // The browser client may already have exchanged ?code= while
+          // initialising; only exchange it here if it hasn't
+          const { data } = await supabase.auth.getSession();
+          const { error } = data.session
+            ? { error: null }
+            : await supabase.auth.exchangeCodeForSession(code);
           if (error) {
             console.error("exchangeCodeForSession error:", error);
             window.location.replace("/login");
@@ -68,7 +74,14 @@ function CallbackHandler() {
           return;
         }
 
-        window.location.replace("/shipments");
+        // Magic-link and SSO users on a trusted domain get their access
+        // here on first sign-in
+        await fetch("/api/auth/provision", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${data.session.access_token}` },
+        }).catch((err) => console.error("provision error:", err));
+
+        window.location.replace(await signInDestination(sp.get("next")));
       } catch (e) {
         console.error("callback error:", e);
         window.location.replace("/login");
@@ -0,0 +1,73 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+// Development stand-in for a customer's identity provider (SSO_MOCK_IDP=1).
+// The real flow goes to the provider's own sign-in page instead.
+function MockIdp() {
+  const sp = useSearchParams();
+  const email = sp.get("email") ?? "";
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  async function approve() {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/auth/mock-idp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, next: sp.get("next") }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Mock sign-in failed.");
+        return;
+      }
+      window.location.href = json.url;
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-md rounded-2xl border border-dashed border-[var(--wpl-border)] bg-white p-6 shadow-sm">
+      <div className="text-xs font-semibold uppercase text-[var(--wpl-gray)]">
+        Mock identity provider · development only
+      </div>
+      <h1 className="mt-1 text-xl font-semibold">Sign in as {email || "…"}</h1>
+      <p className="mt-1 text-sm text-[var(--wpl-gray)]">
+        A real provider would ask for the user&apos;s corporate credentials here.
+      </p>
+      <div className="mt-4 flex gap-2">
+        <button
+          type="button"
+          onClick={approve}
+          disabled={busy || !email}
+          className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+        >
+          {busy ? "Signing in…" : "Approve"}
+        </button>
+        <button
+          type="button"
+          onClick={() => window.location.replace("/login")}
+          className="rounded-lg bg-black/5 px-4 py-2 text-sm font-semibold hover:bg-black/10"
+        >
+          Deny
+        </button>
+      </div>
+      {message && <p className="mt-3 text-sm text-[var(--wpl-red)]">{message}</p>}
+    </div>
+  );
+}
+
+export default function MockIdpPage() {
+  return (
+    <Suspense fallback={<div className="rounded-2xl border bg-white p-6 shadow-sm">Loading…</div>}>
+      <MockIdp />
+    </Suspense>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { authedFetch } from "@/lib/authedFetch";
+import AccessRevoked from "@/components/AccessRevoked";
+import StatusBadge from "@/components/StatusBadge";
+import { toShipmentListQuery, type ShipmentListParams } from "@/lib/shipments";
+import type { ShipmentKpis } from "@/lib/shipmentKpis";
+
+function fmtTransit(hours: number | null) {
+  if (hours === null) return "—";
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} h`;
+}
+
+function DashboardView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Scope and range live in the URL so the view can be bookmarked
+  const customer = searchParams.get("customer") ?? "";
+  const from = searchParams.get("from") ?? "";
+  const to = searchParams.get("to") ?? "";
+
+  const [kpis, setKpis] = useState<ShipmentKpis | null>(null);
+  const [customers, setCustomers] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoked, setRevoked] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      setMessage("");
+      try {
+        const qs = toShipmentListQuery({
+          customer: customer || null,
+          from: from || null,
+          to: to || null,
+        });
+        const res = await authedFetch(`/api/shipments/kpis?${qs}`);
+
+        if (res.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+
+        const json = await res.json();
+        if (cancelled) return;
+
+        if (res.status === 403 && json.code === "access_revoked") {
+          setRevoked(true);
+          return;
+        }
+        if (!res.ok) {
+          setMessage(json.error || "Unable to load the dashboard.");
+          return;
+        }
+        setKpis(json.data);
+        setCustomers(json.customers ?? []);
+      } catch {
+        if (!cancelled) setMessage("Network error. Please try again.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [customer, from, to]);
+
+  function update(next: { customer?: string; from?: string; to?: string }) {
+    const qs = toShipmentListQuery({
+      customer: (next.customer ?? customer) || null,
+      from: (next.from ?? from) || null,
+      to: (next.to ?? to) || null,
+    });
+    router.replace(qs.size ? `/dashboard?${qs}` : "/dashboard");
+  }
+
+  // Link into the list with the dashboard's scope and range plus `filters`
+  function listHref(filters: Partial<ShipmentListParams>) {
+    const qs = toShipmentListQuery({
+      customer: customer || null,
+      from: from || null,
+      to: to || null,
+      ...filters,
+    });
+    return qs.size ? `/shipments?${qs}` : "/shipments";
+  }
+
+  if (revoked) return <AccessRevoked />;
+
+  const week = kpis?.arriving_this_week;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 rounded-2xl border bg-white p-5 shadow-sm md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Dashboard</h1>
+          <p className="text-sm text-[var(--wpl-gray)]">
+            Shipments updated in the selected range. Click a figure to see the shipments.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {customers.length > 1 && (
+            <select
+              className="rounded-lg border px-3 py-2 text-sm"
+              value={customer}
+              onChange={(e) => update({ customer: e.target.value })}
+            >
+              <option value="">All customers</option>
+              {customers.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="date"
+            className="rounded-lg border px-3 py-1.5 text-sm"
+            value={from}
+            onChange={(e) => update({ from: e.target.value })}
+          />
+          <span className="text-[var(--wpl-gray)]">to</span>
+          <input
+            type="date"
+            className="rounded-lg border px-3 py-1.5 text-sm"
+            value={to}
+            onChange={(e) => update({ to: e.target.value })}
+          />
+          <Link
+            href={listHref({})}
+            className="rounded-lg bg-black/5 px-3 py-2 font-semibold hover:bg-black/10"
+          >
+            Shipment list
+          </Link>
+        </div>
+      </div>
+
+      {message && (
+        <p className="rounded-lg bg-red-50 px-4 py-2 text-sm text-[var(--wpl-red)]">{message}</p>
+      )}
+
+      {loading && !kpis ? (
+        <div className="rounded-2xl border bg-white p-6 shadow-sm">Loading…</div>
+      ) : (
+        kpis && (
+          <>
+            <div className="grid gap-4 md:grid-cols-4">
+              <Link
+                href={listHref({})}
+                className="rounded-2xl border bg-white p-5 shadow-sm hover:border-[var(--wpl-blue)]"
+              >
+                <div className="text-xs font-semibold text-[var(--wpl-gray)]">Shipments</div>
+                <div className="mt-1 text-2xl font-semibold">{kpis.total}</div>
+              </Link>
+              <Link
+                href={listHref({ delayed: true })}
+                className="rounded-2xl border bg-white p-5 shadow-sm hover:border-[var(--wpl-blue)]"
+              >
+                <div className="text-xs font-semibold text-[var(--wpl-gray)]">Delayed</div>
+                <div className="mt-1 text-2xl font-semibold text-[var(--wpl-red)]">
+                  {kpis.delayed}
+                </div>
+              </Link>
+              {week && (
+                <Link
+                  href={listHref({ dateField: "eta_updated", from: week.from, to: week.to })}
+                  className="rounded-2xl border bg-white p-5 shadow-sm hover:border-[var(--wpl-blue)]"
+                >
+                  <div className="text-xs font-semibold text-[var(--wpl-gray)]">
+                    Arriving this week
+                  </div>
+                  <div className="mt-1 text-2xl font-semibold">{week.count}</div>
+                  <div className="text-xs text-[var(--wpl-gray)]">
+                    ETA {week.from} – {week.to}
+                  </div>
+                </Link>
+              )}
+              <div className="rounded-2xl border bg-white p-5 shadow-sm">
+                <div className="text-xs font-semibold text-[var(--wpl-gray)]">
+                  Avg transit (departed → delivered)
+                </div>
+                <div className="mt-1 text-2xl font-semibold">
+                  {fmtTransit(kpis.transit.avg_hours)}
+                </div>
+                <div className="text-xs text-[var(--wpl-gray)]">
+                  over {kpis.transit.shipments} delivered shipments
+                </div>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="rounded-2xl border bg-white p-5 shadow-sm">
+                <h2 className="text-sm font-semibold">By status</h2>
+                <div className="mt-3 divide-y">
+                  {kpis.by_status.map((s) => (
+                    <Link
+                      key={s.status}
+                      href={listHref({ status: s.status })}
+                      className="flex items-center justify-between py-2 text-sm hover:bg-[var(--wpl-bg)]"
+                    >
+                      <StatusBadge status={s.status} />
+                      <span className="font-semibold">{s.count}</span>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+
+              <div className="rounded-2xl border bg-white p-5 shadow-sm">
+                <h2 className="text-sm font-semibold">Top lanes</h2>
+                {kpis.lanes.length === 0 ? (
+                  <p className="mt-1 text-xs text-[var(--wpl-gray)]">No lanes in this range.</p>
+                ) : (
+                  <div className="mt-3 divide-y">
+                    {kpis.lanes.map((l) => (
+                      <Link
+                        key={`${l.origin}→${l.destination}`}
+                        href={listHref({ origin: l.origin, destination: l.destination })}
+                        className="flex items-center justify-between py-2 text-sm hover:bg-[var(--wpl-bg)]"
+                      >
+                        <span>
+                          {l.origin} → {l.destination}
+                        </span>
+                        <span className="font-semibold">{l.shipments}</span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
+
+export default function DashboardPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="rounded-2xl border bg-white p-6 shadow-sm">Loading…</div>
+      }
+    >
+      <DashboardView />
+    </Suspense>
+  );
+}
@@ -2,7 +2,6 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import { supabase } from "@/lib/supabaseClient";
 
 export default function ForgotPasswordPage() {
   const [email, setEmail] = useState("");
@@ -15,23 +14,21 @@ export default function ForgotPasswordPage() {
     setMessage("");
 
     try {
-      const redirectUrl = `${window.location.origin}/reset-password`;
-      
-      const { error } = await supabase.auth.resetPasswordForEmail(
-        email.trim().toLowerCase(),
-        {
-          redirectTo: redirectUrl,
-        }
-      );
+      const res = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim().toLowerCase() }),
+      });
 
-      if (error) {
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
         setStatus("error");
-        setMessage(error.message || "Unable to send reset email.");
+        setMessage(json?.error || "Unable to send reset email.");
         return;
       }
 
       setStatus("sent");
-      setMessage("Check your email for a password reset link.");
+      setMessage("If an account exists for this email, a password reset link is on its way.");
     } catch {
       setStatus("error");
       setMessage("Network error. Please try again.");
@@ -0,0 +1,460 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { authedFetch } from "@/lib/authedFetch";
+import { MILESTONES } from "@/lib/eventCodes";
+import {
+  IMPORT_FIELDS,
+  type ImportBatch,
+  type ImportBatchStatus,
+  type ImportMapping,
+  type ImportPlan,
+  type RollbackConflict,
+} from "@/lib/importMapping";
+
+const STATUS_LABELS: Record<ImportBatchStatus, string> = {
+  draft: "Draft",
+  committing: "Committing…",
+  committed: "Committed",
+  failed: "Failed",
+  rolling_back: "Rolling back…",
+  rolled_back: "Rolled back",
+};
+
+function fmtDate(v: string | null) {
+  return v ? new Date(v).toLocaleString() : "—";
+}
+
+// Upload a tracker spreadsheet, map its columns, preview the diff, commit.
+export default function ImportsPage() {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [forbidden, setForbidden] = useState(false);
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [batch, setBatch] = useState<ImportBatch | null>(null);
+  const [sample, setSample] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({ fields: {}, events: [] });
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await authedFetch("/api/imports");
+      const json = await res.json();
+
+      if (res.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (res.ok) setBatches(json.data ?? []);
+    } catch (err) {
+      console.error("Failed to load imports", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function send(url: string, init: RequestInit) {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await authedFetch(url, init);
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Request failed.");
+        return null;
+      }
+      return json;
+    } catch {
+      setMessage("Network error. Please try again.");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function upload(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file) return;
+
+    const body = new FormData();
+    body.set("file", file);
+    const json = await send("/api/imports", { method: "POST", body });
+    if (json) {
+      setBatch(json.data);
+      setSample(json.sample ?? []);
+      setMapping(json.suggested_mapping);
+      setPlan(null);
+      await load();
+    }
+  }
+
+  async function open(id: string) {
+    const json = await send(`/api/imports/${id}`, {});
+    if (json) {
+      setBatch(json.data);
+      setSample(json.sample ?? []);
+      setMapping(json.suggested_mapping);
+      setPlan(null);
+    }
+  }
+
+  async function preview() {
+    if (!batch) return;
+    const json = await send(`/api/imports/${batch.id}/preview`, {
+      method: "POST",
+      body: JSON.stringify({ mapping }),
+    });
+    setPlan(json?.data ?? null);
+  }
+
+  async function commit() {
+    if (!batch || !plan) return;
+    if (!confirm(`Apply this import to ${plan.totals.insert + plan.totals.update} shipments?`)) return;
+    const json = await send(`/api/imports/${batch.id}/commit`, { method: "POST" });
+    if (json) {
+      setBatch(null);
+      setPlan(null);
+    }
+    await load();
+  }
+
+  async function rollback(id: string) {
+    if (!confirm("Roll back this import? Its shipments and events will be reverted.")) return;
+
+    setBusy(true);
+    setMessage("");
+    try {
+      let res = await authedFetch(`/api/imports/${id}/rollback`, { method: "POST" });
+      let json = await res.json();
+
+      // Shipments changed since the import: show which, and ask again
+      if (res.status === 409 && json.code === "rollback_conflicts") {
+        const list = (json.conflicts as RollbackConflict[])
+          .slice(0, 10)
+          .map((c) => `• ${c.shipment_id}: ${c.reason}`)
+          .join("\n");
+        const more =
+          json.conflicts.length > 10 ? `\n…and ${json.conflicts.length - 10} more` : "";
+        const question = `${json.error}\n\n${list}${more}\n\nRoll back anyway and overwrite them?`;
+        if (!confirm(question)) return;
+        res = await authedFetch(`/api/imports/${id}/rollback`, {
+          method: "POST",
+          body: JSON.stringify({ force: true }),
+        });
+        json = await res.json();
+      }
+
+      if (!res.ok) setMessage(json.error || "Request failed.");
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+    await load();
+  }
+
+  // Which role a header plays in the mapping, as a select value
+  function columnRole(header: string) {
+    const field = IMPORT_FIELDS.find((f) => mapping.fields[f.key] === header);
+    if (field) return `field:${field.key}`;
+    const event = mapping.events.find((e) => e.column === header);
+    return event ? `event:${event.event_code}` : "";
+  }
+
+  function setColumnRole(header: string, role: string) {
+    const fields = Object.fromEntries(
+      Object.entries(mapping.fields).filter(([, column]) => column !== header)
+    ) as ImportMapping["fields"];
+    const events = mapping.events.filter((e) => e.column !== header);
+
+    const [kind, value] = role.split(":");
+    if (kind === "field") fields[value as keyof ImportMapping["fields"]] = header;
+    if (kind === "event") events.push({ column: header, event_code: value });
+
+    setMapping({ fields, events });
+    setPlan(null);
+  }
+
+  if (forbidden) {
+    return (
+      <div className="mx-auto max-w-md rounded-2xl border border-[var(--wpl-border)] bg-white p-6 shadow-sm">
+        <h1 className="text-xl font-semibold">WPL staff only</h1>
+        <p className="mt-2 text-sm text-[var(--wpl-gray)]">
+          Your account does not have access to spreadsheet imports.
+        </p>
+        <div className="mt-5">
+          <Link
+            href="/shipments"
+            className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95"
+          >
+            Back to shipments
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border bg-white p-5 shadow-sm">
+        <h1 className="text-xl font-semibold">Spreadsheet Import</h1>
+        <p className="text-sm text-[var(--wpl-gray)]">
+          Upload a tracker (.xlsx or .csv), map its columns, and review the changes before
+          applying them. Committed imports can be rolled back.
+        </p>
+        <form onSubmit={upload} className="mt-4 flex flex-wrap items-center gap-2">
+          <input
+            type="file"
+            accept=".xlsx,.csv"
+            className="text-sm"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          <button
+            type="submit"
+            disabled={busy || !file}
+            className="rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+          >
+            Upload
+          </button>
+        </form>
+      </div>
+
+      {message && (
+        <p className="rounded-lg bg-red-50 px-4 py-2 text-sm text-[var(--wpl-red)]">{message}</p>
+      )}
+
+      {batch && (
+        <div className="rounded-2xl border bg-white p-5 shadow-sm">
+          <h2 className="text-sm font-semibold">
+            {batch.filename} • {batch.row_count} rows
+          </h2>
+          <p className="text-xs text-[var(--wpl-gray)]">
+            Map each column to a shipment field, or to an event code for date columns. Blank
+            cells leave existing values unchanged.
+          </p>
+
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-[var(--wpl-bg)] text-left">
+                <tr>
+                  <th className="px-3 py-2">Column</th>
+                  <th className="px-3 py-2">Maps to</th>
+                  <th className="px-3 py-2">Sample</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batch.headers.map((header, i) => (
+                  <tr key={header} className="border-t">
+                    <td className="px-3 py-2 font-medium">{header}</td>
+                    <td className="px-3 py-2">
+                      <select
+                        className="rounded-lg border px-2 py-1 text-sm"
+                        value={columnRole(header)}
+                        onChange={(e) => setColumnRole(header, e.target.value)}
+                      >
+                        <option value="">Ignore</option>
+                        <optgroup label="Shipment field">
+                          {IMPORT_FIELDS.map((f) => (
+                            <option key={f.key} value={`field:${f.key}`}>
+                              {f.label}
+                            </option>
+                          ))}
+                        </optgroup>
+                        <optgroup label="Event date">
+                          {MILESTONES.map((m) => (
+                            <option key={m.key} value={`event:${m.codes[0]}`}>
+                              {m.label} ({m.codes[0]})
+                            </option>
+                          ))}
+                        </optgroup>
+                      </select>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-[var(--wpl-gray)]">
+                      {sample
+                        .map((r) => r[i])
+                        .filter(Boolean)
+                        .slice(0, 3)
+                        .join(" • ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex gap-2">
+            <button
+              type="button"
+              onClick={preview}
+              disabled={busy}
+              className="rounded-lg border px-3 py-2 text-sm font-semibold hover:bg-[var(--wpl-bg)] disabled:opacity-60"
+            >
+              Preview changes
+            </button>
+            <button
+              type="button"
+              onClick={commit}
+              disabled={busy || !plan}
+              className="rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+            >
+              Commit import
+            </button>
+          </div>
+
+          {plan && <ImportPreview plan={plan} />}
+        </div>
+      )}
+
+      <div className="overflow-hidden rounded-2xl border bg-white shadow-sm">
+        <table className="w-full text-sm">
+          <thead className="bg-[var(--wpl-bg)] text-left">
+            <tr>
+              <th className="px-4 py-3">File</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">Uploaded</th>
+              <th className="px-4 py-3">Committed</th>
+              <th className="px-4 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {batches.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-[var(--wpl-gray)]">
+                  No imports yet.
+                </td>
+              </tr>
+            ) : (
+              batches.map((b) => (
+                <tr key={b.id} className="border-t align-top">
+                  <td className="px-4 py-3">
+                    <div className="font-medium">{b.filename}</div>
+                    <div className="text-xs text-[var(--wpl-gray)]">
+                      {b.row_count} rows
+                      {b.summary &&
+                        ` • ${b.summary.insert} new, ${b.summary.update} updated, ${b.summary.events} events`}
+                    </div>
+                    {b.error && <div className="text-xs text-[var(--wpl-red)]">{b.error}</div>}
+                  </td>
+                  <td className="px-4 py-3">{STATUS_LABELS[b.status]}</td>
+                  <td className="px-4 py-3 text-xs">
+                    {fmtDate(b.created_at)}
+                    <div className="text-[var(--wpl-gray)]">{b.created_by}</div>
+                  </td>
+                  <td className="px-4 py-3 text-xs">
+                    {fmtDate(b.committed_at)}
+                    {b.committed_by && <div className="text-[var(--wpl-gray)]">{b.committed_by}</div>}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3 text-right">
+                    {b.status === "draft" && (
+                      <button
+                        type="button"
+                        onClick={() => open(b.id)}
+                        className="text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
+                      >
+                        Continue
+                      </button>
+                    )}
+                    {(b.status === "committed" || b.status === "failed") && (
+                      <button
+                        type="button"
+                        onClick={() => rollback(b.id)}
+                        disabled={busy}
+                        className="text-xs font-semibold text-[var(--wpl-red)] hover:underline"
+                      >
+                        Roll back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function ImportPreview({ plan }: { plan: ImportPlan }) {
+  const changed = plan.shipments.filter((s) => s.action !== "unchanged");
+  const labels = Object.fromEntries(IMPORT_FIELDS.map((f) => [f.key, f.label]));
+
+  return (
+    <div className="mt-4 space-y-3">
+      <p className="text-sm">
+        <span className="font-semibold">{plan.totals.insert}</span> new shipments,{" "}
+        <span className="font-semibold">{plan.totals.update}</span> updated,{" "}
+        {plan.totals.unchanged} unchanged,{" "}
+        <span className="font-semibold">{plan.totals.events}</span> new events.
+      </p>
+
+      {plan.errors.length > 0 && (
+        <div className="rounded-lg bg-red-50 px-4 py-2 text-xs text-[var(--wpl-red)]">
+          <div className="font-semibold">
+            {plan.errors.length} rows will be skipped:
+          </div>
+          {plan.errors.slice(0, 50).map((e) => (
+            <div key={`${e.row}-${e.error}`}>
+              Row {e.row}: {e.error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {changed.length > 0 && (
+        <div className="max-h-96 overflow-y-auto rounded-xl border border-[var(--wpl-border)]">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-[var(--wpl-bg)] text-left">
+              <tr>
+                <th className="px-3 py-2">Row</th>
+                <th className="px-3 py-2">WPL ID</th>
+                <th className="px-3 py-2">Changes</th>
+                <th className="px-3 py-2">New events</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changed.map((s) => (
+                <tr key={s.shipment_id} className="border-t align-top">
+                  <td className="px-3 py-2">{s.row}</td>
+                  <td className="px-3 py-2 font-medium">
+                    {s.shipment_id}
+                    {s.action === "insert" && (
+                      <span className="ml-2 rounded-full bg-green-50 px-2 py-0.5 text-green-800">
+                        New
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    {Object.entries(s.changes).map(([key, c]) => (
+                      <div key={key}>
+                        {labels[key]}:{" "}
+                        {c.from && <span className="text-[var(--wpl-gray)] line-through">{c.from}</span>}{" "}
+                        {c.to}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-3 py-2">
+                    {s.events.map((e) => (
+                      <div key={`${e.event_code}-${e.event_time}`}>
+                        {e.event_code} • {new Date(e.event_time).toLocaleDateString()}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
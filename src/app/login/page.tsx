@@ -3,32 +3,100 @@
 import { useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { safeReturnPath } from "@/lib/authRedirect";
+import { authCallbackUrl, signInDestination } from "@/lib/signIn";
+
+function returnParam() {
+  return new URLSearchParams(window.location.search).get("next");
+}
 
 export default function LoginPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [status, setStatus] = useState<"idle" | "loading" | "error">("idle");
+  // "link": magic link, or SSO for domains that have it
+  const [method, setMethod] = useState<"password" | "link">("password");
+  const [status, setStatus] = useState<"idle" | "loading" | "sent" | "error">("idle");
   const [message, setMessage] = useState("");
 
+  async function onPasswordless(e: React.FormEvent) {
+    e.preventDefault();
+    setStatus("loading");
+    setMessage("");
+
+    try {
+      const next = safeReturnPath(returnParam());
+      const res = await fetch("/api/auth/passwordless", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim().toLowerCase(), next }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(json.error || "Unable to sign in. Please try again.");
+        return;
+      }
+
+      if (json.method === "sso") {
+        if (json.url) {
+          window.location.href = json.url;
+          return;
+        }
+        const { data, error } = await supabase.auth.signInWithSSO({
+          providerId: json.provider_id,
+          options: { redirectTo: authCallbackUrl(next) },
+        });
+        if (error || !data?.url) {
+          setStatus("error");
+          setMessage(error?.message || "Unable to reach your company's sign-in page.");
+          return;
+        }
+        window.location.href = data.url;
+        return;
+      }
+
+      setStatus("sent");
+      setMessage("If this email can use the portal, a sign-in link is on its way.");
+    } catch {
+      setStatus("error");
+      setMessage("Network error. Please try again.");
+    }
+  }
+
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
     setStatus("loading");
     setMessage("");
 
     try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email: email.trim().toLowerCase(),
-        password,
+      const res = await fetch("/api/auth/signin", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim().toLowerCase(), password }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setStatus("error");
+        setMessage(json.error || "Invalid email or password.");
+        return;
+      }
+
+      const { error } = await supabase.auth.setSession({
+        access_token: json.access_token,
+        refresh_token: json.refresh_token,
       });
 
       if (error) {
         setStatus("error");
-        setMessage(error.message || "Invalid email or password.");
+        setMessage(error.message || "Unable to start your session.");
         return;
       }
 
-      // Success - redirect to shipments
-      window.location.href = "/shipments";
+      // Success - back to the page that sent us here, or shipments. Accounts
+      // with an authenticator confirm their second factor first.
+      window.location.href = await signInDestination(returnParam());
     } catch {
       setStatus("error");
       setMessage("Network error. Please try again.");
@@ -39,10 +107,12 @@ export default function LoginPage() {
     <div className="mx-auto max-w-md rounded-2xl border border-[var(--wpl-border)] bg-white p-6 shadow-sm">
       <h1 className="text-xl font-semibold">Sign in</h1>
       <p className="mt-1 text-sm text-[var(--wpl-gray)]">
-        Enter your email and password to access the tracking portal.
+        {method === "password"
+          ? "Enter your email and password to access the tracking portal."
+          : "Enter your work email. We'll send you a sign-in link, or take you to your company's sign-in page."}
       </p>
 
-      <form onSubmit={onSubmit} className="mt-4 space-y-4">
+      <form onSubmit={method === "password" ? onSubmit : onPasswordless} className="mt-4 space-y-4">
         <div>
           <label className="text-sm font-semibold">Email</label>
           <input
@@ -56,26 +126,28 @@ export default function LoginPage() {
           />
         </div>
 
-        <div>
-          <div className="flex items-center justify-between">
-            <label className="text-sm font-semibold">Password</label>
-            <Link 
-              href="/forgot-password" 
-              className="text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
-            >
-              Forgot password?
-            </Link>
+        {method === "password" && (
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-semibold">Password</label>
+              <Link
+                href="/forgot-password"
+                className="text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
+              >
+                Forgot password?
+              </Link>
+            </div>
+            <input
+              className="mt-1 w-full rounded-lg border border-[var(--wpl-border)] px-3 py-2 text-sm"
+              type="password"
+              placeholder="••••••••"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={status === "loading"}
+            />
           </div>
-          <input
-            className="mt-1 w-full rounded-lg border border-[var(--wpl-border)] px-3 py-2 text-sm"
-            type="password"
-            placeholder="••••••••"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            disabled={status === "loading"}
-          />
-        </div>
+        )}
 
         <button
           type="submit"
@@ -83,16 +155,34 @@ export default function LoginPage() {
           className="w-full rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white
                      disabled:opacity-60 disabled:cursor-not-allowed hover:opacity-95"
         >
-          {status === "loading" ? "Signing in…" : "Sign in"}
+          {status === "loading" ? "Signing in…" : method === "password" ? "Sign in" : "Continue"}
         </button>
 
         {message && (
-          <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          <div
+            className={
+              status === "sent"
+                ? "rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-800"
+                : "rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700"
+            }
+          >
             {message}
           </div>
         )}
       </form>
 
+      <button
+        type="button"
+        onClick={() => {
+          setMethod(method === "password" ? "link" : "password");
+          setStatus("idle");
+          setMessage("");
+        }}
+        className="mt-3 w-full text-center text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
+      >
+        {method === "password" ? "Sign in with SSO or an email link" : "Sign in with a password"}
+      </button>
+
       <div className="mt-4 text-center text-sm">
         <span className="text-[var(--wpl-gray)]">Don't have an account? </span>
         <Link href="/signup" className="font-semibold text-[var(--wpl-blue)] hover:underline">
@@ -0,0 +1,358 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { authedFetch } from "@/lib/authedFetch";
+import { loginUrl, safeReturnPath } from "@/lib/authRedirect";
+
+type Mode = "loading" | "challenge" | "recover" | "enroll" | "codes" | "manage";
+
+type Enrollment = { factorId: string; qrCode: string; secret: string };
+
+// Supabase returns the QR code as SVG markup or, in newer versions, a data URI
+function qrSrc(qrCode: string) {
+  return qrCode.startsWith("data:")
+    ? qrCode
+    : `data:image/svg+xml;utf-8,${encodeURIComponent(qrCode)}`;
+}
+
+// Where to go once the second factor is done
+function returnPath() {
+  return safeReturnPath(new URLSearchParams(window.location.search).get("next"));
+}
+
+// Two-factor authentication: the sign-in challenge for accounts with an
+// authenticator, enrollment for those without, and recovery codes.
+export default function MfaPage() {
+  const [mode, setMode] = useState<Mode>("loading");
+  const [factorId, setFactorId] = useState("");
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const init = useCallback(async () => {
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) {
+      window.location.href = loginUrl(`/mfa${window.location.search}`);
+      return;
+    }
+
+    const [{ data: factors, error }, { data: aal }] = await Promise.all([
+      supabase.auth.mfa.listFactors(),
+      supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+    ]);
+    if (error) {
+      setMessage(error.message);
+      return;
+    }
+
+    const verified = factors?.totp ?? [];
+    setCode("");
+    if (verified.length === 0) {
+      setMode("enroll");
+    } else if (aal?.currentLevel !== "aal2") {
+      setFactorId(verified[0].id);
+      setMode("challenge");
+    } else {
+      setMode("manage");
+    }
+  }, []);
+
+  useEffect(() => {
+    init();
+  }, [init]);
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setMessage("");
+    try {
+      await task();
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function verify(e: React.FormEvent) {
+    e.preventDefault();
+    run(async () => {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId,
+        code: code.trim(),
+      });
+      if (error) {
+        setMessage("That code didn't work. Check your authenticator app and try again.");
+        return;
+      }
+      window.location.href = returnPath();
+    });
+  }
+
+  function recover(e: React.FormEvent) {
+    e.preventDefault();
+    run(async () => {
+      const res = await authedFetch("/api/auth/mfa/recover", {
+        method: "POST",
+        body: JSON.stringify({ code }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Unable to use the recovery code.");
+        return;
+      }
+      // The authenticator has been removed; set up a new one
+      await supabase.auth.refreshSession();
+      setNotice("Recovery code accepted. Set up your authenticator app again.");
+      await init();
+    });
+  }
+
+  function startEnrollment() {
+    run(async () => {
+      // Drop abandoned enrollments so the new one doesn't clash with them
+      const { data: factors } = await supabase.auth.mfa.listFactors();
+      for (const f of factors?.all ?? []) {
+        if (f.factor_type === "totp" && f.status === "unverified") {
+          await supabase.auth.mfa.unenroll({ factorId: f.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: "Authenticator app",
+      });
+      if (error || !data) {
+        setMessage(error?.message || "Unable to start setup.");
+        return;
+      }
+      setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+    });
+  }
+
+  async function issueRecoveryCodes() {
+    const res = await authedFetch("/api/auth/mfa/recovery-codes", { method: "POST" });
+    const json = await res.json();
+    if (!res.ok) {
+      setMessage(json.error || "Unable to create recovery codes.");
+      return;
+    }
+    setRecoveryCodes(json.codes ?? []);
+    setMode("codes");
+  }
+
+  function confirmEnrollment(e: React.FormEvent) {
+    e.preventDefault();
+    if (!enrollment) return;
+    run(async () => {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code: code.trim(),
+      });
+      if (error) {
+        setMessage("That code didn't work. Check your authenticator app and try again.");
+        return;
+      }
+      setEnrollment(null);
+      setNotice("");
+      await issueRecoveryCodes();
+    });
+  }
+
+  function turnOff() {
+    if (!confirm("Turn off two-factor authentication for your account?")) return;
+    run(async () => {
+      const res = await authedFetch("/api/auth/mfa", { method: "DELETE" });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Unable to turn off two-factor authentication.");
+        return;
+      }
+      await supabase.auth.refreshSession();
+      setNotice("Two-factor authentication is off.");
+      await init();
+    });
+  }
+
+  const codeInput = (
+    <input
+      className="mt-1 w-full rounded-lg border border-[var(--wpl-border)] px-3 py-2 font-mono text-sm tracking-widest"
+      inputMode={mode === "recover" ? "text" : "numeric"}
+      autoComplete="one-time-code"
+      placeholder={mode === "recover" ? "xxxxx-xxxxx" : "123456"}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      required
+      disabled={busy}
+    />
+  );
+
+  const submitButton = (label: string) => (
+    <button
+      type="submit"
+      disabled={busy}
+      className="w-full rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-60 hover:opacity-95"
+    >
+      {busy ? "Checking…" : label}
+    </button>
+  );
+
+  return (
+    <div className="mx-auto max-w-md rounded-2xl border border-[var(--wpl-border)] bg-white p-6 shadow-sm">
+      <h1 className="text-xl font-semibold">Two-factor authentication</h1>
+
+      {notice && (
+        <p className="mt-3 rounded-lg bg-green-50 px-3 py-2 text-sm text-green-800">{notice}</p>
+      )}
+
+      {mode === "loading" && <p className="mt-2 text-sm text-[var(--wpl-gray)]">Loading…</p>}
+
+      {mode === "challenge" && (
+        <form onSubmit={verify} className="mt-4 space-y-4">
+          <p className="text-sm text-[var(--wpl-gray)]">
+            Enter the 6-digit code from your authenticator app.
+          </p>
+          {codeInput}
+          {submitButton("Verify")}
+          <button
+            type="button"
+            onClick={() => {
+              setCode("");
+              setMessage("");
+              setMode("recover");
+            }}
+            className="w-full text-center text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
+          >
+            Lost your authenticator? Use a recovery code
+          </button>
+        </form>
+      )}
+
+      {mode === "recover" && (
+        <form onSubmit={recover} className="mt-4 space-y-4">
+          <p className="text-sm text-[var(--wpl-gray)]">
+            Enter one of the recovery codes you saved when you set up two-factor authentication.
+            Each code works once, and you’ll need to set up your authenticator app again.
+          </p>
+          {codeInput}
+          {submitButton("Use recovery code")}
+          <button
+            type="button"
+            onClick={() => {
+              setCode("");
+              setMessage("");
+              setMode("challenge");
+            }}
+            className="w-full text-center text-xs font-semibold text-[var(--wpl-blue)] hover:underline"
+          >
+            Back to authenticator code
+          </button>
+        </form>
+      )}
+
+      {mode === "enroll" &&
+        (enrollment ? (
+          <form onSubmit={confirmEnrollment} className="mt-4 space-y-4">
+            <p className="text-sm text-[var(--wpl-gray)]">
+              Scan this QR code with an authenticator app (such as Google Authenticator or
+              1Password), then enter the 6-digit code it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element -- inline SVG data URI */}
+            <img
+              src={qrSrc(enrollment.qrCode)}
+              alt="Authenticator QR code"
+              className="mx-auto h-44 w-44"
+            />
+            <p className="text-center text-xs text-[var(--wpl-gray)]">
+              Can’t scan it? Enter this key instead:{" "}
+              <code className="break-all font-mono">{enrollment.secret}</code>
+            </p>
+            {codeInput}
+            {submitButton("Turn on")}
+          </form>
+        ) : (
+          <div className="mt-4 space-y-4">
+            <p className="text-sm text-[var(--wpl-gray)]">
+              Protect your account with a code from an authenticator app each time you sign in.
+            </p>
+            <button
+              type="button"
+              onClick={startEnrollment}
+              disabled={busy}
+              className="w-full rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white disabled:opacity-60 hover:opacity-95"
+            >
+              {busy ? "Starting…" : "Set up authenticator app"}
+            </button>
+          </div>
+        ))}
+
+      {mode === "codes" && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-[var(--wpl-gray)]">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator. They won’t be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 rounded-lg bg-[var(--wpl-bg)] p-3 font-mono text-sm">
+            {recoveryCodes.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => {
+              window.location.href = returnPath();
+            }}
+            className="w-full rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white hover:opacity-95"
+          >
+            I’ve saved them
+          </button>
+        </div>
+      )}
+
+      {mode === "manage" && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-[var(--wpl-gray)]">
+            Two-factor authentication is on. You’ll enter a code from your authenticator app each
+            time you sign in.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => run(issueRecoveryCodes)}
+              className="rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10 disabled:opacity-50"
+            >
+              New recovery codes
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={turnOff}
+              className="rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold text-[var(--wpl-red)] hover:bg-black/10 disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {message}
+        </div>
+      )}
+
+      {(mode === "enroll" || mode === "manage") && (
+        <div className="mt-4 text-center text-sm">
+          <Link href="/shipments" className="font-semibold text-[var(--wpl-blue)] hover:underline">
+            Back to shipments
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,548 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { redirectToMfa } from "@/lib/authedFetch";
+import AccessRevoked from "@/components/AccessRevoked";
+import BulkLookup from "@/components/BulkLookup";
+import { saveResponseAsFile } from "@/lib/download";
+import { signOut } from "@/lib/signOut";
+import { watchShipmentChanges } from "@/lib/shipmentUpdates";
+import StatusBadge from "@/components/StatusBadge";
+import DelayedBadge from "@/components/DelayedBadge";
+import { DERIVED_STATUSES, type DerivedStatus } from "@/lib/eventCodes";
+import {
+  DEFAULT_PAGE_SIZE,
+  defaultSortDir,
+  getReference,
+  parseShipmentListParams,
+  toShipmentListQuery,
+  type CustomerCount,
+  type DateField,
+  type ShipmentListResponse,
+  type Shipment,
+  type SortDir,
+  type SortKey,
+} from "@/lib/shipments";
+
+// The list page. `initial` is the first page as loaded on the server, so
+// the table renders without waiting for a client-side fetch.
+export default function ShipmentsView({ initial }: { initial?: ShipmentListResponse }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Selected customer lives in the URL so the view can be bookmarked
+  const customer = searchParams.get("customer") ?? "";
+
+  // Other filters start from the URL too, so the dashboard can link in
+  const fromUrl = useMemo(() => parseShipmentListParams(searchParams), [searchParams]);
+  const [query, setQuery] = useState(fromUrl.q);
+  const [search, setSearch] = useState(fromUrl.q);
+  const [statusFilter, setStatusFilter] = useState<DerivedStatus | "">(fromUrl.status ?? "");
+  const [delayedOnly, setDelayedOnly] = useState(fromUrl.delayed);
+  const [dateField, setDateField] = useState<DateField>(fromUrl.dateField);
+  const [from, setFrom] = useState(fromUrl.from ?? "");
+  const [to, setTo] = useState(fromUrl.to ?? "");
+  const [lane, setLane] = useState({ origin: fromUrl.origin, destination: fromUrl.destination });
+  const [page, setPage] = useState(initial?.page ?? 1);
+
+  const [rows, setRows] = useState<Shipment[]>(initial?.data ?? []);
+  const [total, setTotal] = useState(initial?.total ?? 0);
+  const [loading, setLoading] = useState(!initial);
+  const [email, setEmail] = useState(initial?.email ?? "");
+  const [customers, setCustomers] = useState<CustomerCount[]>(initial?.customers ?? []);
+  // The server already loaded the first page for these filters
+  const skipFetch = useRef(!!initial);
+  const [revoked, setRevoked] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [bulk, setBulk] = useState(false);
+
+  // Bumped by live updates to refetch the current page without a spinner
+  const [refreshTick, setRefreshTick] = useState(0);
+  const silentRefresh = useRef(false);
+  const [changedIds, setChangedIds] = useState<Set<string>>(new Set());
+
+  const [sortKey, setSortKey] = useState<SortKey>(fromUrl.sort);
+  const [sortDir, setSortDir] = useState<SortDir>(fromUrl.dir);
+
+  // Search, filters and sort shared by the list and the export
+  const filters = useMemo(
+    () => ({
+      customer: customer || null,
+      q: search,
+      status: statusFilter || null,
+      delayed: delayedOnly,
+      origin: lane.origin,
+      destination: lane.destination,
+      dateField,
+      from: from || null,
+      to: to || null,
+      sort: sortKey,
+      dir: sortDir,
+    }),
+    [customer, search, statusFilter, delayedOnly, lane, dateField, from, to, sortKey, sortDir]
+  );
+
+  // Debounce the search box so we don't hit the API on every keystroke
+  useEffect(() => {
+    const next = query.trim();
+    if (next === search) return;
+    const t = setTimeout(() => {
+      setSearch(next);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(t);
+  }, [query, search]);
+
+  // Live updates: refetch so changed rows re-sort, and flash them briefly
+  useEffect(() => {
+    const controller = new AbortController();
+    const pending = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    watchShipmentChanges({
+      signal: controller.signal,
+      onChange: (change) => {
+        pending.add(change.shipment_id);
+        // Coalesce bursts (e.g. a feed import) into one refetch
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          setChangedIds(new Set(pending));
+          pending.clear();
+          silentRefresh.current = true;
+          setRefreshTick((n) => n + 1);
+        }, 1000);
+      },
+    });
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (changedIds.size === 0) return;
+    const t = setTimeout(() => setChangedIds(new Set()), 5000);
+    return () => clearTimeout(t);
+  }, [changedIds]);
+
+  useEffect(() => {
+    if (skipFetch.current) {
+      skipFetch.current = false;
+      return;
+    }
+
+    let cancelled = false;
+    const silent = silentRefresh.current;
+    silentRefresh.current = false;
+
+    (async () => {
+      if (!silent) setLoading(true);
+      try {
+        // Get client session (cookie-backed)
+        const { data } = await supabase.auth.getSession();
+        const session = data.session;
+
+        if (!session) {
+          window.location.href = "/login";
+          return;
+        }
+
+        const qs = toShipmentListQuery({
+          ...filters,
+          page,
+          pageSize: DEFAULT_PAGE_SIZE,
+        });
+
+        // Call server API with Bearer token
+        const res = await fetch(`/api/shipments?${qs}`, {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        });
+
+        if (res.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+
+        const json = await res.json();
+        if (cancelled) return;
+
+        if (res.status === 403 && json.code === "mfa_required") {
+          redirectToMfa();
+          return;
+        }
+        if (res.status === 403 && json.code === "access_revoked") {
+          setRevoked(true);
+          return;
+        }
+
+        setRows(json.data ?? []);
+        setTotal(json.total ?? 0);
+        setEmail(json.email ?? "");
+        setCustomers(json.customers ?? []);
+      } catch (err) {
+        console.error("Failed to load shipments", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page, refreshTick]);
+
+  async function exportList(format: "csv" | "xlsx") {
+    setExporting(true);
+    try {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const qs = toShipmentListQuery(filters);
+      qs.set("format", format);
+
+      const res = await fetch(`/api/shipments/export?${qs}`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!res.ok) {
+        throw new Error(`Export failed with status ${res.status}`);
+      }
+
+      await saveResponseAsFile(res, `shipments.${format}`);
+    } catch (err) {
+      console.error("Failed to export shipments", err);
+      alert("Export failed. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function selectCustomer(next: string) {
+    setPage(1);
+    router.replace(
+      next ? `/shipments?customer=${encodeURIComponent(next)}` : "/shipments"
+    );
+  }
+
+  function toggleSort(nextKey: SortKey) {
+    if (nextKey === sortKey) {
+      setSortDir((d) => (d === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(nextKey);
+      setSortDir(defaultSortDir(nextKey));
+    }
+    setPage(1);
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / DEFAULT_PAGE_SIZE));
+  const firstRow = total === 0 ? 0 : (page - 1) * DEFAULT_PAGE_SIZE + 1;
+  const lastRow = (page - 1) * DEFAULT_PAGE_SIZE + rows.length;
+
+  function Th({ label, k }: { label: string; k: SortKey }) {
+    const active = sortKey === k;
+    const arrow = active ? (sortDir === "asc" ? "▲" : "▼") : "";
+    return (
+      <th className="px-4 py-3">
+        <button
+          type="button"
+          onClick={() => toggleSort(k)}
+          className={`inline-flex items-center gap-2 font-semibold hover:underline ${
+            active ? "text-[var(--wpl-blue)]" : ""
+          }`}
+        >
+          {label} <span className="text-xs opacity-70">{arrow}</span>
+        </button>
+      </th>
+    );
+  }
+
+  if (revoked) return <AccessRevoked />;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 rounded-2xl border bg-white p-5 shadow-sm md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Track Shipments</h1>
+          <p className="text-sm text-[var(--wpl-gray)]">
+            Search by HAWB, MAWB, PO, reference, or WPL ID
+          </p>
+          {email && (
+            <p className="mt-1 text-xs text-[var(--wpl-gray)]">
+              Signed in as {email}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          {!bulk && (
+            <input
+              className="w-full rounded-lg border px-3 py-2 text-sm md:w-80"
+              placeholder="Search…"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          )}
+          <Link
+            href={customer ? `/dashboard?customer=${encodeURIComponent(customer)}` : "/dashboard"}
+            className="rounded-lg bg-black/5 px-3 py-2 text-center text-sm font-semibold hover:bg-black/10"
+          >
+            Dashboard
+          </Link>
+          <Link
+            href="/mfa"
+            title="Two-factor authentication"
+            className="rounded-lg bg-black/5 px-3 py-2 text-center text-sm font-semibold hover:bg-black/10"
+          >
+            Security
+          </Link>
+          <button
+            type="button"
+            onClick={() => setBulk((b) => !b)}
+            className="rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10"
+          >
+            {bulk ? "Back to list" : "Bulk lookup"}
+          </button>
+          {customers.length > 1 && (
+            <select
+              className="rounded-lg border px-3 py-2 text-sm"
+              value={customer}
+              onChange={(e) => selectCustomer(e.target.value)}
+            >
+              <option value="">
+                All customers ({customers.reduce((n, c) => n + c.count, 0)})
+              </option>
+              {customers.map((c) => (
+                <option key={c.customer_id} value={c.customer_id}>
+                  {c.customer_id} ({c.count})
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            className="rounded-lg border px-3 py-2 text-sm"
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value as DerivedStatus | "");
+              setPage(1);
+            }}
+          >
+            <option value="">All statuses</option>
+            {DERIVED_STATUSES.map((st) => (
+              <option key={st} value={st}>
+                {st}
+              </option>
+            ))}
+          </select>
+          <label className="inline-flex items-center gap-1 whitespace-nowrap text-sm">
+            <input
+              type="checkbox"
+              checked={delayedOnly}
+              onChange={(e) => {
+                setDelayedOnly(e.target.checked);
+                setPage(1);
+              }}
+            />
+            Delayed
+          </label>
+          <button
+            type="button"
+            onClick={() => exportList("csv")}
+            disabled={exporting}
+            className="rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => exportList("xlsx")}
+            disabled={exporting}
+            className="rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10 disabled:opacity-50"
+          >
+            Export Excel
+          </button>
+          <button
+            onClick={() => signOut()}
+            className="rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10"
+          >
+            Sign out
+          </button>
+          <button
+            type="button"
+            title="Ends your session on every browser and device"
+            onClick={() => {
+              if (confirm("Sign out of all devices?")) signOut({ allDevices: true });
+            }}
+            className="whitespace-nowrap rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10"
+          >
+            Sign out everywhere
+          </button>
+        </div>
+      </div>
+
+      {bulk ? (
+        <BulkLookup customer={customer} />
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              className="rounded-lg border bg-white px-2 py-1.5 text-sm"
+              value={dateField}
+              onChange={(e) => {
+                setDateField(e.target.value as DateField);
+                setPage(1);
+              }}
+            >
+              <option value="last_event_time">Last update</option>
+              <option value="eta_updated">ETA</option>
+            </select>
+            <span className="text-[var(--wpl-gray)]">between</span>
+            <input
+              type="date"
+              className="rounded-lg border bg-white px-3 py-1.5 text-sm"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setPage(1);
+              }}
+            />
+            <span className="text-[var(--wpl-gray)]">and</span>
+            <input
+              type="date"
+              className="rounded-lg border bg-white px-3 py-1.5 text-sm"
+              value={to}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setPage(1);
+              }}
+            />
+            {(lane.origin || lane.destination) && (
+              <button
+                type="button"
+                title="Clear lane filter"
+                onClick={() => {
+                  setLane({ origin: null, destination: null });
+                  setPage(1);
+                }}
+                className="rounded-full bg-[var(--wpl-blue)]/10 px-3 py-1 text-xs font-semibold text-[var(--wpl-blue)]"
+              >
+                {lane.origin ?? "Any"} → {lane.destination ?? "Any"} ✕
+              </button>
+            )}
+          </div>
+
+          <div className="overflow-hidden rounded-2xl border bg-white shadow-sm">
+            <table className="w-full text-sm">
+              <thead className="bg-[var(--wpl-bg)] text-left">
+                <tr>
+                  <Th label="Reference" k="reference" />
+                  <Th label="Route" k="route" />
+                  <Th label="Status" k="status" />
+                  <Th label="ETA" k="eta_updated" />
+                  <Th label="Last Update" k="last_event_time" />
+                </tr>
+              </thead>
+
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-[var(--wpl-gray)]">
+                      Loading shipments…
+                    </td>
+                  </tr>
+                ) : rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-[var(--wpl-gray)]">
+                      No shipments found.
+                    </td>
+                  </tr>
+                ) : (
+                  rows.map((s) => {
+                    return (
+                      <tr
+                        key={s.shipment_id}
+                        className={`border-t transition-colors hover:bg-black/[0.02] ${
+                          changedIds.has(s.shipment_id) ? "bg-yellow-50" : ""
+                        }`}
+                      >
+                        <td className="px-4 py-3 font-medium">
+                          <Link
+                            href={`/shipments/${encodeURIComponent(s.shipment_id)}`}
+                            className="text-[var(--wpl-blue)] hover:underline"
+                          >
+                            {getReference(s)}
+                          </Link>
+                          <div className="text-xs text-[var(--wpl-gray)]">
+                            ID: {s.shipment_id}
+                            {customers.length > 1 && s.customer_id
+                              ? ` • ${s.customer_id}`
+                              : ""}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          {s.origin ?? "—"} → {s.destination ?? "—"}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex flex-wrap gap-1">
+                            <StatusBadge status={s.derived_status} />
+                            {s.delayed && <DelayedBadge slipHours={s.eta_slip_hours} />}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          {s.eta_updated ? new Date(s.eta_updated).toLocaleDateString() : "—"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {s.last_event_time
+                            ? new Date(s.last_event_time).toLocaleString()
+                            : "—"}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-[var(--wpl-gray)]">
+            <div>
+              Showing {firstRow}–{lastRow} of {total} shipments
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={loading || page <= 1}
+                className="rounded-lg bg-black/5 px-3 py-1.5 font-semibold hover:bg-black/10 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span>
+                Page {page} of {pageCount}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+                disabled={loading || page >= pageCount}
+                className="rounded-lg bg-black/5 px-3 py-1.5 font-semibold hover:bg-black/10 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
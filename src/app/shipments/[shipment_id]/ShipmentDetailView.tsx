@@ -0,0 +1,383 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { redirectToMfa } from "@/lib/authedFetch";
+import AccessRevoked from "@/components/AccessRevoked";
+import MilestoneAlerts from "@/components/MilestoneAlerts";
+import ShareLinks from "@/components/ShareLinks";
+import ShipmentDocuments from "@/components/ShipmentDocuments";
+import { saveResponseAsFile } from "@/lib/download";
+import { watchShipmentChanges } from "@/lib/shipmentUpdates";
+import ProgressBar from "@/components/ProgressBar";
+import StatusBadge from "@/components/StatusBadge";
+import DelayedBadge from "@/components/DelayedBadge";
+import type { EventRow, ShipmentDetail, ShipmentView } from "@/lib/shipmentDetail";
+import type { EtaRevision } from "@/lib/etaHistory";
+
+function fmtDateTime(v: string | null) {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toLocaleString();
+}
+
+function fmtDate(v: string | null) {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toLocaleDateString();
+}
+
+function fmtShift(hours: number) {
+  return hours >= 24 ? `${Math.round(hours / 24)}d` : `${Math.round(hours)}h`;
+}
+
+function eventKey(e: EventRow) {
+  return `${e.event_time}|${e.event_code}|${e.location}|${e.notes}`;
+}
+
+// `initial` is the shipment as loaded on the server; live updates and
+// retries refetch it through the API.
+export default function ShipmentDetailView({
+  shipmentId,
+  initial,
+}: {
+  shipmentId: string;
+  initial?: ShipmentView;
+}) {
+  const [shipment, setShipment] = useState<ShipmentDetail | null>(initial?.shipment ?? null);
+  const [events, setEvents] = useState<EventRow[]>(initial?.events ?? []);
+  const [etaHistory, setEtaHistory] = useState<EtaRevision[]>(initial?.eta_history ?? []);
+  const [loading, setLoading] = useState(!initial);
+  const [error, setError] = useState("");
+  const [revoked, setRevoked] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [newEvents, setNewEvents] = useState<Set<string>>(new Set());
+  const knownEvents = useRef<Set<string> | null>(
+    initial ? new Set(initial.events.map(eventKey)) : null
+  );
+  const skipLoad = useRef(!!initial);
+
+  const load = useCallback(async () => {
+    try {
+      // Get session token
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      // Call API with Bearer token
+      const res = await fetch(`/api/shipments/${encodeURIComponent(shipmentId)}`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (res.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const json = await res.json();
+
+      if (res.status === 403 && json.code === "mfa_required") {
+        redirectToMfa();
+        return;
+      }
+      if (res.status === 403 && json.code === "access_revoked") {
+        setRevoked(true);
+        return;
+      }
+
+      if (!res.ok) {
+        setError(json.error || "Unable to load shipment");
+        setLoading(false);
+        return;
+      }
+
+      const rows: EventRow[] = json.events ?? [];
+      // Highlight events that arrived since the last load
+      const known = knownEvents.current;
+      if (known) {
+        const added = rows.map(eventKey).filter((k) => !known.has(k));
+        if (added.length) setNewEvents(new Set(added));
+      }
+      knownEvents.current = new Set(rows.map(eventKey));
+
+      setShipment(json.shipment);
+      setEvents(rows);
+      setEtaHistory(json.eta_history ?? []);
+    } catch (err) {
+      console.error("Failed to load shipment", err);
+      setError("Failed to load shipment");
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    if (skipLoad.current) {
+      skipLoad.current = false;
+      return;
+    }
+    knownEvents.current = null;
+    load();
+  }, [load]);
+
+  // Refetch when this shipment or its events change
+  useEffect(() => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    watchShipmentChanges({
+      shipmentId,
+      signal: controller.signal,
+      onChange: () => {
+        clearTimeout(timer);
+        timer = setTimeout(load, 500);
+      },
+    });
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [shipmentId, load]);
+
+  useEffect(() => {
+    if (newEvents.size === 0) return;
+    const t = setTimeout(() => setNewEvents(new Set()), 10_000);
+    return () => clearTimeout(t);
+  }, [newEvents]);
+
+  async function downloadReport() {
+    setDownloading(true);
+    try {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const res = await fetch(
+        `/api/shipments/${encodeURIComponent(shipmentId)}/report`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        }
+      );
+
+      if (!res.ok) {
+        throw new Error(`Report failed with status ${res.status}`);
+      }
+
+      await saveResponseAsFile(res, `shipment-${shipmentId}.pdf`);
+    } catch (err) {
+      console.error("Failed to download report", err);
+      alert("Unable to generate the report. Please try again.");
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  const reference = useMemo(() => {
+    if (!shipment) return shipmentId;
+    return shipment.hawb || shipment.mawb || shipment.po_number || shipment.shipment_id;
+  }, [shipment, shipmentId]);
+
+  // Computed on the server from the shared event-code catalog
+  const milestoneIndex = shipment?.milestone_index ?? 0;
+
+  const originLabel = shipment?.origin ?? "Origin";
+  const destinationLabel = shipment?.destination ?? "Destination";
+
+  if (revoked) return <AccessRevoked />;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Link
+          href="/shipments"
+          className="text-sm font-semibold text-[var(--wpl-blue)] hover:underline"
+        >
+          ← Back to shipments
+        </Link>
+
+        {shipment && (
+          <button
+            type="button"
+            onClick={downloadReport}
+            disabled={downloading}
+            className="rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10 disabled:opacity-50"
+          >
+            {downloading ? "Preparing PDF…" : "Download PDF"}
+          </button>
+        )}
+      </div>
+
+      <ProgressBar
+        origin={originLabel}
+        destination={destinationLabel}
+        currentIndex={milestoneIndex}
+      />
+
+      <div className="rounded-2xl border border-[var(--wpl-border)] bg-white p-5 shadow-sm">
+        {loading ? (
+          <div className="text-[var(--wpl-gray)]">Loading shipment…</div>
+        ) : error ? (
+          <div className="text-[var(--wpl-red)]">{error}</div>
+        ) : !shipment ? (
+          <div className="text-[var(--wpl-red)]">Shipment not found.</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
+              <div>
+                <h1 className="text-xl font-semibold">{reference}</h1>
+                <div className="mt-1 text-sm text-[var(--wpl-gray)]">
+                  {shipment.origin ?? "—"} → {shipment.destination ?? "—"}
+                </div>
+                <div className="mt-1 text-xs text-[var(--wpl-gray)]">
+                  Shipment ID: {shipment.shipment_id}
+                </div>
+              </div>
+
+              <div className="flex flex-col items-start gap-2 md:items-end">
+                <div className="flex flex-wrap gap-1">
+                  <StatusBadge status={shipment.derived_status} />
+                  {shipment.delayed && <DelayedBadge slipHours={shipment.eta_slip_hours} />}
+                </div>
+                <div className="text-xs text-[var(--wpl-gray)]">
+                  Updated: {fmtDateTime(shipment.last_event_time)}
+                </div>
+                <div className="text-xs text-[var(--wpl-gray)]">
+                  ETA: {fmtDate(shipment.eta_updated)}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="rounded-xl border border-[var(--wpl-border)] p-4">
+                <div className="text-xs font-semibold text-[var(--wpl-gray)]">HAWB</div>
+                <div className="mt-1 text-sm">{shipment.hawb ?? "—"}</div>
+              </div>
+              <div className="rounded-xl border border-[var(--wpl-border)] p-4">
+                <div className="text-xs font-semibold text-[var(--wpl-gray)]">MAWB</div>
+                <div className="mt-1 text-sm">{shipment.mawb ?? "—"}</div>
+              </div>
+              <div className="rounded-xl border border-[var(--wpl-border)] p-4">
+                <div className="text-xs font-semibold text-[var(--wpl-gray)]">PO Number</div>
+                <div className="mt-1 text-sm">{shipment.po_number ?? "—"}</div>
+              </div>
+              <div className="rounded-xl border border-[var(--wpl-border)] p-4">
+                <div className="text-xs font-semibold text-[var(--wpl-gray)]">
+                  Customer Reference
+                </div>
+                <div className="mt-1 text-sm">{shipment.customer_reference ?? "—"}</div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {shipment && <ShipmentDocuments shipmentId={shipment.shipment_id} />}
+
+      {etaHistory.length > 1 && (
+        <div className="rounded-2xl border border-[var(--wpl-border)] bg-white shadow-sm">
+          <div className="border-b border-[var(--wpl-border)] px-5 py-4">
+            <h2 className="text-sm font-semibold">ETA Revisions</h2>
+            <p className="text-xs text-[var(--wpl-gray)]">
+              Originally due {fmtDate(etaHistory[0].eta)}
+            </p>
+          </div>
+          <div className="divide-y">
+            {etaHistory.slice(1).map((r, idx) => (
+              <div key={idx} className="flex items-center gap-4 px-5 py-3 text-sm">
+                <div className="w-44 shrink-0 text-xs text-[var(--wpl-gray)]">
+                  {fmtDateTime(r.changed_at)}
+                </div>
+                <div className="flex-1">
+                  {fmtDate(r.previous_eta)} → <span className="font-medium">{fmtDate(r.eta)}</span>
+                </div>
+                {r.shift_hours !== null && r.shift_hours !== 0 && (
+                  <span
+                    className={`text-xs font-semibold ${
+                      r.shift_hours > 0 ? "text-red-700" : "text-green-700"
+                    }`}
+                  >
+                    {r.shift_hours > 0 ? "+" : "−"}
+                    {fmtShift(Math.abs(r.shift_hours))}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {shipment && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <MilestoneAlerts
+            shipmentId={shipment.shipment_id}
+            customerId={shipment.customer_id}
+          />
+          <ShareLinks shipmentId={shipment.shipment_id} />
+        </div>
+      )}
+
+      <div className="rounded-2xl border border-[var(--wpl-border)] bg-white shadow-sm">
+        <div className="border-b border-[var(--wpl-border)] px-5 py-4">
+          <h2 className="text-sm font-semibold">Tracking Timeline</h2>
+          <p className="text-xs text-[var(--wpl-gray)]">Latest events first</p>
+        </div>
+
+        {loading ? (
+          <div className="px-5 py-6 text-sm text-[var(--wpl-gray)]">Loading events…</div>
+        ) : events.length === 0 ? (
+          <div className="px-5 py-6 text-sm text-[var(--wpl-gray)]">No events found.</div>
+        ) : (
+          <div className="divide-y">
+            {events.map((e, idx) => (
+              <div
+                key={idx}
+                className={`flex gap-4 px-5 py-4 transition-colors ${
+                  newEvents.has(eventKey(e)) ? "bg-yellow-50" : ""
+                }`}
+              >
+                <div className="w-44 shrink-0 text-xs text-[var(--wpl-gray)]">
+                  {fmtDateTime(e.event_time)}
+                </div>
+
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {e.event_code && (
+                      <span className="rounded bg-black/5 px-2 py-0.5 text-xs font-semibold">
+                        {e.event_code}
+                      </span>
+                    )}
+                    <span className="text-sm font-medium">{e.notes ?? "Event"}</span>
+                    {newEvents.has(eventKey(e)) && (
+                      <span className="rounded bg-[var(--wpl-blue)] px-2 py-0.5 text-xs font-semibold text-white">
+                        New
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="mt-1 text-xs text-[var(--wpl-gray)]">
+                    {e.location ?? "—"}
+                    {e.source_column ? ` • ${e.source_column}` : ""}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -46,13 +46,10 @@ export default function SignupPage() {
         return;
       }
 
+      // The server answers the same way for every email, so there's no
+      // automatic redirect; the message says what to do next
       setStatus("success");
-      setMessage("Account created! Redirecting to login...");
-      
-      // Redirect to login after 2 seconds
-      setTimeout(() => {
-        window.location.href = "/login";
-      }, 2000);
+      setMessage(json.message || "Your account is ready. Please sign in.");
     } catch {
       setStatus("error");
       setMessage("Network error. Please try again.");
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import ProgressBar from "@/components/ProgressBar";
+import StatusBadge from "@/components/StatusBadge";
+import type { DerivedStatus } from "@/lib/eventCodes";
+
+type PublicShipment = {
+  reference: string;
+  hawb: string | null;
+  mawb: string | null;
+  origin: string | null;
+  destination: string | null;
+  eta_updated: string | null;
+  last_event_time: string | null;
+  derived_status: DerivedStatus;
+  milestone_index: number;
+};
+
+type PublicEvent = {
+  event_time: string | null;
+  event_code: string | null;
+  location: string | null;
+};
+
+function fmtDateTime(v: string | null) {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toLocaleString();
+}
+
+function fmtDate(v: string | null) {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toLocaleDateString();
+}
+
+// Read-only view opened from a share link; no sign-in required.
+export default function PublicTrackingPage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+
+  const [shipment, setShipment] = useState<PublicShipment | null>(null);
+  const [events, setEvents] = useState<PublicEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch(`/api/track/${encodeURIComponent(token)}`);
+        const json = await res.json();
+
+        if (!res.ok) {
+          setError(json.error || "Unable to load shipment");
+          return;
+        }
+
+        setShipment(json.shipment);
+        setEvents(json.events ?? []);
+      } catch (err) {
+        console.error("Failed to load shared shipment", err);
+        setError("Failed to load shipment");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="rounded-2xl border border-[var(--wpl-border)] bg-white p-6 shadow-sm text-[var(--wpl-gray)]">
+        Loading shipment…
+      </div>
+    );
+  }
+
+  if (error || !shipment) {
+    return (
+      <div className="mx-auto max-w-md rounded-2xl border border-[var(--wpl-border)] bg-white p-6 shadow-sm">
+        <h1 className="text-xl font-semibold">Tracking link unavailable</h1>
+        <p className="mt-2 text-sm text-[var(--wpl-gray)]">
+          {error || "Shipment not found."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ProgressBar
+        origin={shipment.origin ?? "Origin"}
+        destination={shipment.destination ?? "Destination"}
+        currentIndex={shipment.milestone_index}
+      />
+
+      <div className="rounded-2xl border border-[var(--wpl-border)] bg-white p-5 shadow-sm">
+        <div className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h1 className="text-xl font-semibold">{shipment.reference}</h1>
+            <div className="mt-1 text-sm text-[var(--wpl-gray)]">
+              {shipment.origin ?? "—"} → {shipment.destination ?? "—"}
+            </div>
+            <div className="mt-1 text-xs text-[var(--wpl-gray)]">
+              {shipment.hawb && <>HAWB: {shipment.hawb} </>}
+              {shipment.mawb && <>• MAWB: {shipment.mawb}</>}
+            </div>
+          </div>
+
+          <div className="flex flex-col items-start gap-2 md:items-end">
+            <StatusBadge status={shipment.derived_status} />
+            <div className="text-xs text-[var(--wpl-gray)]">
+              Updated: {fmtDateTime(shipment.last_event_time)}
+            </div>
+            <div className="text-xs text-[var(--wpl-gray)]">
+              ETA: {fmtDate(shipment.eta_updated)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-[var(--wpl-border)] bg-white shadow-sm">
+        <div className="border-b border-[var(--wpl-border)] px-5 py-4">
+          <h2 className="text-sm font-semibold">Tracking Timeline</h2>
+          <p className="text-xs text-[var(--wpl-gray)]">Latest events first</p>
+        </div>
+
+        {events.length === 0 ? (
+          <div className="px-5 py-6 text-sm text-[var(--wpl-gray)]">No events found.</div>
+        ) : (
+          <div className="divide-y">
+            {events.map((e, idx) => (
+              <div key={idx} className="flex gap-4 px-5 py-4">
+                <div className="w-44 shrink-0 text-xs text-[var(--wpl-gray)]">
+                  {fmtDateTime(e.event_time)}
+                </div>
+                <div className="flex-1">
+                  {e.event_code && (
+                    <span className="rounded bg-black/5 px-2 py-0.5 text-xs font-semibold">
+                      {e.event_code}
+                    </span>
+                  )}
+                  <div className="mt-1 text-xs text-[var(--wpl-gray)]">
+                    {e.location ?? "—"}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import Link from "next/link";
+
+// Shown when the API answers 403 with code "access_revoked", i.e. the
+// user's allowed_users rows have all been deactivated.
+export default function AccessRevoked() {
+  return (
+    <div className="mx-auto max-w-md rounded-2xl border border-[var(--wpl-border)] bg-white p-6 shadow-sm">
+      <h1 className="text-xl font-semibold">Access revoked</h1>
+      <p className="mt-2 text-sm text-[var(--wpl-gray)]">
+        Your access to the WPL Tracking Portal has been deactivated. If you
+        think this is a mistake, please contact your WPL representative.
+      </p>
+      <div className="mt-5">
+        <Link
+          href="/"
+          className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95"
+        >
+          Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch } from "@/lib/authedFetch";
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  customer_ids: string[] | null;
+  created_by: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+const SCOPE_LABELS: Record<string, string> = {
+  "shipments:read": "Read shipments (customer API)",
+  "events:write": "Write events (carrier feed)",
+};
+
+function splitIds(v: string) {
+  return v
+    .split(/[\s,]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+// Issue and revoke API keys. The raw key is shown once, right after creation.
+export default function ApiKeysAdmin() {
+  const [keys, setKeys] = useState<ApiKeyRow[]>([]);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState("shipments:read");
+  const [customers, setCustomers] = useState("");
+  const [newKey, setNewKey] = useState("");
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await authedFetch("/api/admin/api-keys");
+      const json = await res.json();
+      if (res.ok) setKeys(json.data ?? []);
+    } catch (err) {
+      console.error("Failed to load API keys", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+    setNewKey("");
+    try {
+      const ids = splitIds(customers);
+      const res = await authedFetch("/api/admin/api-keys", {
+        method: "POST",
+        body: JSON.stringify({
+          name,
+          scopes: [scope],
+          customer_ids: ids.length ? ids : null,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Unable to create the key.");
+        return;
+      }
+      setNewKey(json.key);
+      setName("");
+      setCustomers("");
+      await load();
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function revoke(key: ApiKeyRow) {
+    if (!confirm(`Revoke ${key.name}? Clients using it will stop working.`)) return;
+    try {
+      await authedFetch(`/api/admin/api-keys/${key.id}`, { method: "DELETE" });
+      await load();
+    } catch (err) {
+      console.error("Failed to revoke API key", err);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border bg-white p-5 shadow-sm">
+      <h2 className="text-lg font-semibold">API Keys</h2>
+      <p className="text-sm text-[var(--wpl-gray)]">
+        Customer keys read shipments through /api/v1 (spec at /api/v1/openapi.json).
+      </p>
+
+      <form onSubmit={create} className="mt-4 flex flex-col gap-2 md:flex-row md:items-end">
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">Name</span>
+          <input
+            required
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </label>
+        <label className="text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">Scope</span>
+          <select
+            className="rounded-lg border px-3 py-2 text-sm"
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+          >
+            {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">
+            Customer IDs (blank = all, feeds only)
+          </span>
+          <input
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            value={customers}
+            onChange={(e) => setCustomers(e.target.value)}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+        >
+          {saving ? "Creating…" : "Create key"}
+        </button>
+      </form>
+
+      {newKey && (
+        <p className="mt-3 rounded-lg bg-green-50 px-4 py-2 text-sm text-green-800">
+          Copy this key now; it won’t be shown again:{" "}
+          <code className="break-all font-mono">{newKey}</code>
+        </p>
+      )}
+      {message && <p className="mt-3 text-sm text-[var(--wpl-red)]">{message}</p>}
+
+      <div className="mt-4 divide-y rounded-xl border border-[var(--wpl-border)]">
+        {keys.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-[var(--wpl-gray)]">No API keys yet.</p>
+        ) : (
+          keys.map((k) => (
+            <div key={k.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+              <div className="min-w-0">
+                <div className={`font-medium ${k.revoked_at ? "line-through" : ""}`}>
+                  {k.name} <span className="font-mono text-xs">{k.key_prefix}…</span>
+                </div>
+                <div className="text-xs text-[var(--wpl-gray)]">
+                  {k.scopes.join(", ")} • {k.customer_ids?.join(", ") ?? "all customers"} •{" "}
+                  {k.last_used_at
+                    ? `last used ${new Date(k.last_used_at).toLocaleString()}`
+                    : "never used"}
+                </div>
+              </div>
+              {k.revoked_at ? (
+                <span className="text-xs text-[var(--wpl-gray)]">Revoked</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => revoke(k)}
+                  className="text-xs font-semibold text-[var(--wpl-red)] hover:underline"
+                >
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { authedFetch } from "@/lib/authedFetch";
+import StatusBadge from "@/components/StatusBadge";
+import DelayedBadge from "@/components/DelayedBadge";
+import { getReference } from "@/lib/shipments";
+import type { ReferenceLookupResponse } from "@/lib/referenceLookup";
+
+// Paste or upload a list of HAWB/MAWB/PO numbers and resolve them all at once.
+export default function BulkLookup({ customer }: { customer: string }) {
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<ReferenceLookupResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  async function loadFile(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+  }
+
+  async function lookup() {
+    setLoading(true);
+    setMessage("");
+    try {
+      const res = await authedFetch("/api/shipments/lookup", {
+        method: "POST",
+        body: JSON.stringify({ text, customer: customer || undefined }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setMessage(json.error || "Lookup failed.");
+        return;
+      }
+      setResult(json);
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border bg-white p-5 shadow-sm">
+        <textarea
+          className="h-40 w-full rounded-lg border px-3 py-2 font-mono text-sm"
+          placeholder={"One reference per line, or comma separated\nPO12345\n176-12345678"}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={lookup}
+            disabled={loading || !text.trim()}
+            className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+          >
+            {loading ? "Looking up…" : "Look up"}
+          </button>
+          <label className="cursor-pointer rounded-lg bg-black/5 px-3 py-2 text-sm font-semibold hover:bg-black/10">
+            Upload .txt / .csv
+            <input
+              type="file"
+              accept=".txt,.csv,text/plain,text/csv"
+              className="hidden"
+              onChange={(e) => loadFile(e.target.files?.[0])}
+            />
+          </label>
+          {message && <span className="text-xs text-[var(--wpl-red)]">{message}</span>}
+        </div>
+      </div>
+
+      {result && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="overflow-hidden rounded-2xl border bg-white shadow-sm md:col-span-2">
+            <div className="border-b px-4 py-3 text-sm font-semibold">
+              Matched ({result.matched.length})
+            </div>
+            <table className="w-full text-sm">
+              <tbody>
+                {result.matched.length === 0 ? (
+                  <tr>
+                    <td className="px-4 py-8 text-center text-[var(--wpl-gray)]">
+                      No references matched.
+                    </td>
+                  </tr>
+                ) : (
+                  result.matched.flatMap((m) =>
+                    m.shipments.map((s) => (
+                      <tr key={`${m.reference}|${s.shipment_id}`} className="border-t">
+                        <td className="px-4 py-2 font-mono text-xs">{m.reference}</td>
+                        <td className="px-4 py-2">
+                          <Link
+                            href={`/shipments/${encodeURIComponent(s.shipment_id)}`}
+                            className="font-medium text-[var(--wpl-blue)] hover:underline"
+                          >
+                            {getReference(s)}
+                          </Link>
+                          <div className="text-xs text-[var(--wpl-gray)]">
+                            {s.origin ?? "—"} → {s.destination ?? "—"}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex flex-wrap gap-1">
+                            <StatusBadge status={s.derived_status} />
+                            {s.delayed && <DelayedBadge slipHours={s.eta_slip_hours} />}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-xs">
+                          {s.eta_updated
+                            ? `ETA ${new Date(s.eta_updated).toLocaleDateString()}`
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="rounded-2xl border bg-white shadow-sm">
+            <div className="border-b px-4 py-3 text-sm font-semibold">
+              Not found ({result.unmatched.length})
+            </div>
+            {result.unmatched.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-[var(--wpl-gray)]">
+                Every reference matched.
+              </p>
+            ) : (
+              <ul className="max-h-96 divide-y overflow-y-auto font-mono text-xs">
+                {result.unmatched.map((ref) => (
+                  <li key={ref} className="px-4 py-2 text-[var(--wpl-red)]">
+                    {ref}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch } from "@/lib/authedFetch";
+import type { CustomerDomain } from "@/lib/customerDomains";
+
+// Map email domains to customers for SSO and magic-link sign-in.
+export default function CustomerDomainsAdmin() {
+  const [domains, setDomains] = useState<CustomerDomain[]>([]);
+  const [domain, setDomain] = useState("");
+  const [customer, setCustomer] = useState("");
+  const [provider, setProvider] = useState("");
+  const [autoProvision, setAutoProvision] = useState(false);
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await authedFetch("/api/admin/domains");
+      const json = await res.json();
+      if (res.ok) setDomains(json.data ?? []);
+    } catch (err) {
+      console.error("Failed to load domains", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await authedFetch("/api/admin/domains", {
+        method: "POST",
+        body: JSON.stringify({
+          domain,
+          customer_id: customer,
+          sso_provider_id: provider || null,
+          auto_provision: autoProvision,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Unable to save the domain.");
+        return;
+      }
+      setDomain("");
+      setCustomer("");
+      setProvider("");
+      setAutoProvision(false);
+      await load();
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(d: CustomerDomain) {
+    if (!confirm(`Remove ${d.domain}? Its users keep their current access.`)) return;
+    try {
+      await authedFetch(`/api/admin/domains/${encodeURIComponent(d.domain)}`, {
+        method: "DELETE",
+      });
+      await load();
+    } catch (err) {
+      console.error("Failed to remove domain", err);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border bg-white p-5 shadow-sm">
+      <h2 className="text-lg font-semibold">Sign-in Domains</h2>
+      <p className="text-sm text-[var(--wpl-gray)]">
+        Users on a domain with an SSO provider sign in through it; others can use email links.
+        Trusted domains give new users access to the customer on first sign-in.
+      </p>
+
+      <form onSubmit={save} className="mt-4 flex flex-col gap-2 md:flex-row md:items-end">
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">Domain</span>
+          <input
+            required
+            placeholder="acme.com"
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+          />
+        </label>
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">
+            Customer ID
+          </span>
+          <input
+            required
+            className="w-full rounded-lg border px-3 py-2 text-sm"
+            value={customer}
+            onChange={(e) => setCustomer(e.target.value)}
+          />
+        </label>
+        <label className="flex-1 text-sm">
+          <span className="mb-1 block text-xs font-semibold text-[var(--wpl-gray)]">
+            SSO provider ID (blank = email links)
+          </span>
+          <input
+            className="w-full rounded-lg border px-3 py-2 font-mono text-sm"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2 py-2 text-sm">
+          <input
+            type="checkbox"
+            checked={autoProvision}
+            onChange={(e) => setAutoProvision(e.target.checked)}
+          />
+          Trusted
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-[var(--wpl-blue)] px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </form>
+
+      {message && <p className="mt-3 text-sm text-[var(--wpl-red)]">{message}</p>}
+
+      <div className="mt-4 divide-y rounded-xl border border-[var(--wpl-border)]">
+        {domains.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-[var(--wpl-gray)]">No domains yet.</p>
+        ) : (
+          domains.map((d) => (
+            <div
+              key={d.domain}
+              className="flex items-center justify-between gap-3 px-4 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="font-medium">
+                  {d.domain} → {d.customer_id}
+                </div>
+                <div className="text-xs text-[var(--wpl-gray)]">
+                  {d.sso_provider_id ? `SSO ${d.sso_provider_id}` : "Email links"} •{" "}
+                  {d.auto_provision ? "trusted (auto-provisions users)" : "allowlisted users only"}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => remove(d)}
+                className="text-xs font-semibold text-[var(--wpl-red)] hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// Shown next to the status badge when a shipment's ETA has slipped past
+// the delay threshold. `slipHours` is how far past the original ETA.
+export default function DelayedBadge({ slipHours }: { slipHours: number | null }) {
+  const days = slipHours ? Math.round(Number(slipHours) / 24) : 0;
+  const title =
+    days > 0
+      ? `ETA ${days} day${days === 1 ? "" : "s"} later than originally planned`
+      : undefined;
+
+  return (
+    <span
+      title={title}
+      className="rounded-full bg-red-100 px-2 py-1 text-xs font-semibold text-red-700"
+    >
+      Delayed{days > 0 ? ` +${days}d` : ""}
+    </span>
+  );
+}
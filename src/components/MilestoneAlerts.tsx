@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch } from "@/lib/authedFetch";
+import { MILESTONES } from "@/lib/eventCodes";
+
+type Subscription = {
+  id: string;
+  customer_id: string;
+  shipment_id: string | null;
+  milestones: string[];
+  channel: "email" | "webhook";
+  target: string;
+};
+
+function labelFor(key: string) {
+  return MILESTONES.find((m) => m.key === key)?.label ?? key;
+}
+
+// Email alerts for this shipment, or every shipment of its customer.
+export default function MilestoneAlerts({
+  shipmentId,
+  customerId,
+}: {
+  shipmentId: string;
+  customerId: string | null;
+}) {
+  const [subs, setSubs] = useState<Subscription[]>([]);
+  const [selected, setSelected] = useState<string[]>(["customs", "delivered"]);
+  const [scope, setScope] = useState<"shipment" | "customer">("shipment");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await authedFetch(
+        `/api/notifications/subscriptions?shipment_id=${encodeURIComponent(shipmentId)}`
+      );
+      const json = await res.json();
+      if (res.ok) setSubs(json.data ?? []);
+    } catch (err) {
+      console.error("Failed to load alerts", err);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function toggle(key: string) {
+    setSelected((cur) =>
+      cur.includes(key) ? cur.filter((k) => k !== key) : [...cur, key]
+    );
+  }
+
+  async function subscribe() {
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await authedFetch("/api/notifications/subscriptions", {
+        method: "POST",
+        body: JSON.stringify({
+          channel: "email",
+          milestones: selected,
+          ...(scope === "shipment"
+            ? { shipment_id: shipmentId }
+            : { customer_id: customerId }),
+        }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setMessage(json.error || "Unable to save alert.");
+        return;
+      }
+      await load();
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function unsubscribe(id: string) {
+    try {
+      await authedFetch(`/api/notifications/subscriptions/${id}`, {
+        method: "DELETE",
+      });
+      await load();
+    } catch (err) {
+      console.error("Failed to remove alert", err);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-[var(--wpl-border)] bg-white p-5 shadow-sm">
+      <h2 className="text-sm font-semibold">Milestone Alerts</h2>
+      <p className="text-xs text-[var(--wpl-gray)]">
+        Get an email when a milestone is reached.
+      </p>
+
+      {subs.length > 0 && (
+        <div className="mt-3 divide-y rounded-xl border border-[var(--wpl-border)]">
+          {subs.map((s) => (
+            <div key={s.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+              <div>
+                <div className="font-medium">
+                  {s.shipment_id ? "This shipment" : `All ${s.customer_id} shipments`}
+                  <span className="text-[var(--wpl-gray)]"> • {s.target}</span>
+                </div>
+                <div className="text-xs text-[var(--wpl-gray)]">
+                  {s.milestones.map(labelFor).join(", ")}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => unsubscribe(s.id)}
+                className="text-xs font-semibold text-[var(--wpl-red)] hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-3 text-xs">
+        {MILESTONES.map((m) => (
+          <label key={m.key} className="inline-flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={selected.includes(m.key)}
+              onChange={() => toggle(m.key)}
+            />
+            {m.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <select
+          className="rounded-lg border px-3 py-2 text-sm"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as "shipment" | "customer")}
+        >
+          <option value="shipment">This shipment</option>
+          {customerId && (
+            <option value="customer">All {customerId} shipments</option>
+          )}
+        </select>
+        <button
+          type="button"
+          onClick={subscribe}
+          disabled={saving || selected.length === 0}
+          className="rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Email me"}
+        </button>
+        {message && <span className="text-xs text-[var(--wpl-red)]">{message}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { MILESTONES } from "@/lib/eventCodes";
+
+export default function ProgressBar({
+  origin,
+  destination,
+  currentIndex,
+}: {
+  origin: string;
+  destination: string;
+  currentIndex: number;
+}) {
+  return (
+    <div className="rounded-2xl border border-[var(--wpl-border)] bg-white p-5 shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold">{origin}</div>
+        <div className="text-sm font-semibold text-right">{destination}</div>
+      </div>
+
+      <div className="mt-4">
+        <div className="flex items-center">
+          {MILESTONES.map((m, idx) => {
+            const done = idx < currentIndex;
+            const current = idx === currentIndex;
+
+            return (
+              <div key={m.key} className="flex flex-1 items-center">
+                <div className="flex flex-col items-center">
+                  <div
+                    className={[
+                      "h-4 w-4 rounded-full border",
+                      done
+                        ? "bg-[var(--wpl-blue)] border-[var(--wpl-blue)]"
+                        : current
+                        ? "bg-white border-[var(--wpl-blue)]"
+                        : "bg-white border-[var(--wpl-border)]",
+                    ].join(" ")}
+                    title={m.label}
+                  />
+                </div>
+
+                {idx !== MILESTONES.length - 1 && (
+                  <div
+                    className={[
+                      "mx-2 h-[3px] flex-1 rounded",
+                      idx < currentIndex
+                        ? "bg-[var(--wpl-blue)]"
+                        : "bg-[var(--wpl-border)]",
+                    ].join(" ")}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-3 grid grid-cols-8 gap-2 text-center text-[11px] text-[var(--wpl-gray)]">
+          {MILESTONES.map((m, idx) => (
+            <div
+              key={m.key}
+              className={[
+                "leading-tight",
+                idx === currentIndex ? "font-semibold text-[var(--wpl-blue)]" : "",
+              ].join(" ")}
+            >
+              {m.label}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
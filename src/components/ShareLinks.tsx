@@ -0,0 +1,139 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch } from "@/lib/authedFetch";
+
+type ShareLink = {
+  id: string;
+  created_by: string;
+  expires_at: string;
+  created_at: string;
+};
+
+// Create and revoke public read-only tracking links for one shipment.
+export default function ShareLinks({ shipmentId }: { shipmentId: string }) {
+  const base = `/api/shipments/${encodeURIComponent(shipmentId)}/share`;
+
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [days, setDays] = useState(7);
+  const [created, setCreated] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await authedFetch(base);
+      const json = await res.json();
+      if (res.ok) setLinks(json.data ?? []);
+    } catch (err) {
+      console.error("Failed to load share links", err);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function createLink() {
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await authedFetch(base, {
+        method: "POST",
+        body: JSON.stringify({ expires_in_days: days }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setMessage(json.error || "Unable to create link.");
+        return;
+      }
+
+      setCreated(`${window.location.origin}/track/${json.token}`);
+      await load();
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function revoke(id: string) {
+    try {
+      await authedFetch(`${base}/${id}`, { method: "DELETE" });
+      setCreated("");
+      await load();
+    } catch (err) {
+      console.error("Failed to revoke share link", err);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-[var(--wpl-border)] bg-white p-5 shadow-sm">
+      <h2 className="text-sm font-semibold">Share Tracking Link</h2>
+      <p className="text-xs text-[var(--wpl-gray)]">
+        Anyone with the link can see milestones and event locations. PO and
+        customer references are hidden.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <select
+          className="rounded-lg border px-3 py-2 text-sm"
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+        >
+          <option value={1}>Expires in 1 day</option>
+          <option value={7}>Expires in 7 days</option>
+          <option value={30}>Expires in 30 days</option>
+        </select>
+        <button
+          type="button"
+          onClick={createLink}
+          disabled={saving}
+          className="rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+        >
+          {saving ? "Creating…" : "Create link"}
+        </button>
+        {message && <span className="text-xs text-[var(--wpl-red)]">{message}</span>}
+      </div>
+
+      {created && (
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            readOnly
+            className="w-full rounded-lg border bg-[var(--wpl-bg)] px-3 py-2 text-xs"
+            value={created}
+            onFocus={(e) => e.target.select()}
+          />
+          <button
+            type="button"
+            onClick={() => navigator.clipboard.writeText(created)}
+            className="rounded-lg bg-black/5 px-3 py-2 text-xs font-semibold hover:bg-black/10"
+          >
+            Copy
+          </button>
+        </div>
+      )}
+
+      {links.length > 0 && (
+        <div className="mt-3 divide-y rounded-xl border border-[var(--wpl-border)]">
+          {links.map((l) => (
+            <div key={l.id} className="flex items-center justify-between gap-3 px-4 py-2 text-xs">
+              <div className="text-[var(--wpl-gray)]">
+                Created by {l.created_by} • expires{" "}
+                {new Date(l.expires_at).toLocaleString()}
+              </div>
+              <button
+                type="button"
+                onClick={() => revoke(l.id)}
+                className="font-semibold text-[var(--wpl-red)] hover:underline"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
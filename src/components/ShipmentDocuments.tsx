@@ -0,0 +1,180 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch } from "@/lib/authedFetch";
+import {
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  type DocumentType,
+  type ShipmentDocument,
+} from "@/lib/documents";
+
+function fmtSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Documents for one shipment, grouped by type. WPL staff can upload/delete.
+export default function ShipmentDocuments({ shipmentId }: { shipmentId: string }) {
+  const base = `/api/shipments/${encodeURIComponent(shipmentId)}/documents`;
+
+  const [docs, setDocs] = useState<ShipmentDocument[]>([]);
+  const [canUpload, setCanUpload] = useState(false);
+  const [docType, setDocType] = useState<DocumentType>("commercial_invoice");
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await authedFetch(base);
+      const json = await res.json();
+      if (res.ok) {
+        setDocs(json.data ?? []);
+        setCanUpload(!!json.can_upload);
+      }
+    } catch (err) {
+      console.error("Failed to load documents", err);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function upload(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!file) return;
+    const form = e.currentTarget;
+
+    setSaving(true);
+    setMessage("");
+    try {
+      const body = new FormData();
+      body.set("file", file);
+      body.set("doc_type", docType);
+
+      const res = await authedFetch(base, { method: "POST", body });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setMessage(json.error || "Upload failed.");
+        return;
+      }
+      setFile(null);
+      form.reset();
+      await load();
+    } catch {
+      setMessage("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function download(id: string) {
+    try {
+      const res = await authedFetch(`${base}/${id}/link`, { method: "POST" });
+      const json = await res.json();
+      if (!res.ok) {
+        setMessage(json.error || "Unable to download.");
+        return;
+      }
+      window.location.href = json.url;
+    } catch {
+      setMessage("Network error. Please try again.");
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Delete this document?")) return;
+    try {
+      await authedFetch(`${base}/${id}`, { method: "DELETE" });
+      await load();
+    } catch (err) {
+      console.error("Failed to delete document", err);
+    }
+  }
+
+  const groups = DOCUMENT_TYPES.map((type) => ({
+    type,
+    docs: docs.filter((d) => d.doc_type === type),
+  })).filter((g) => g.docs.length > 0);
+
+  return (
+    <div className="rounded-2xl border border-[var(--wpl-border)] bg-white p-5 shadow-sm">
+      <h2 className="text-sm font-semibold">Documents</h2>
+
+      {groups.length === 0 ? (
+        <p className="mt-1 text-xs text-[var(--wpl-gray)]">No documents yet.</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {groups.map((g) => (
+            <div key={g.type}>
+              <div className="text-xs font-semibold text-[var(--wpl-gray)]">
+                {DOCUMENT_TYPE_LABELS[g.type]}
+              </div>
+              <div className="mt-1 divide-y rounded-xl border border-[var(--wpl-border)]">
+                {g.docs.map((d) => (
+                  <div key={d.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                    <div className="min-w-0">
+                      <button
+                        type="button"
+                        onClick={() => download(d.id)}
+                        className="truncate font-medium text-[var(--wpl-blue)] hover:underline"
+                      >
+                        {d.filename}
+                      </button>
+                      <div className="text-xs text-[var(--wpl-gray)]">
+                        {fmtSize(d.size_bytes)} • {new Date(d.created_at).toLocaleDateString()}
+                      </div>
+                    </div>
+                    {canUpload && (
+                      <button
+                        type="button"
+                        onClick={() => remove(d.id)}
+                        className="text-xs font-semibold text-[var(--wpl-red)] hover:underline"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canUpload && (
+        <form onSubmit={upload} className="mt-4 flex flex-wrap items-center gap-2">
+          <select
+            className="rounded-lg border px-3 py-2 text-sm"
+            value={docType}
+            onChange={(e) => setDocType(e.target.value as DocumentType)}
+          >
+            {DOCUMENT_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {DOCUMENT_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="file"
+            className="text-sm"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          <button
+            type="submit"
+            disabled={saving || !file}
+            className="rounded-lg bg-[var(--wpl-blue)] px-3 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-60"
+          >
+            {saving ? "Uploading…" : "Upload"}
+          </button>
+        </form>
+      )}
+
+      {message && <p className="mt-2 text-xs text-[var(--wpl-red)]">{message}</p>}
+    </div>
+  );
+}
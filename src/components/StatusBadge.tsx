@@ -0,0 +1,28 @@
+import type { DerivedStatus } from "@/lib/eventCodes";
+
+function statusBadgeClasses(status: DerivedStatus) {
+  switch (status) {
+    case "Delivered":
+      return "bg-green-100 text-green-700";
+    case "Customs Released":
+      return "bg-amber-100 text-amber-800";
+    case "Discharged":
+      return "bg-purple-100 text-purple-700";
+    case "Pre-Departure":
+      return "bg-slate-100 text-slate-700";
+    default:
+      return "bg-[var(--wpl-blue)]/10 text-[var(--wpl-blue)]";
+  }
+}
+
+export default function StatusBadge({ status }: { status: DerivedStatus }) {
+  return (
+    <span
+      className={`rounded-full px-2 py-1 text-xs font-semibold ${statusBadgeClasses(
+        status
+      )}`}
+    >
+      {status}
+    </span>
+  );
+}
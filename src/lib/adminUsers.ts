@@ -0,0 +1,40 @@
+export type Membership = {
+  customer_id: string;
+  is_active: boolean;
+  // Set per customer; see /api/admin/customers/[customer_id]/mfa
+  require_mfa: boolean;
+};
+
+export type AllowedUser = {
+  email: string;
+  memberships: Membership[];
+};
+
+export const ALLOWED_USER_COLUMNS = "email, customer_id, is_active, require_mfa";
+
+// Trimmed, lowercased, de-duplicated customer ids from a request body
+// (stored lowercase, like emails); null if invalid.
+export function parseCustomerIds(v: unknown): string[] | null {
+  if (!Array.isArray(v)) return null;
+  const ids = [
+    ...new Set(v.map((id) => String(id ?? "").trim().toLowerCase()).filter(Boolean)),
+  ];
+  return ids.length > 0 ? ids : null;
+}
+
+// Groups allowed_users rows (one per email + customer) by email.
+export function groupByEmail(
+  rows: { email: string; customer_id: string; is_active: boolean; require_mfa?: boolean }[]
+): AllowedUser[] {
+  const users = new Map<string, AllowedUser>();
+  for (const row of rows) {
+    const user = users.get(row.email) ?? { email: row.email, memberships: [] };
+    user.memberships.push({
+      customer_id: row.customer_id,
+      is_active: !!row.is_active,
+      require_mfa: !!row.require_mfa,
+    });
+    users.set(row.email, user);
+  }
+  return [...users.values()];
+}
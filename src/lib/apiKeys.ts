@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  apiError,
+  createAdminClient,
+  getServerEnv,
+  unauthorized,
+} from "@/lib/requestContext";
+import { getClientIp } from "@/lib/rateLimit";
+import { recordAudit } from "@/lib/audit";
+
+// What a key may do. Keys are issued with an explicit list.
+export const API_KEY_SCOPES = ["events:write", "shipments:read"] as const;
+
+// Scopes that expose customer data, so the key must name its customers
+export const CUSTOMER_SCOPES: ApiKeyScope[] = ["shipments:read"];
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export function isApiKeyScope(v: unknown): v is ApiKeyScope {
+  return API_KEY_SCOPES.includes(v as ApiKeyScope);
+}
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  // null = every customer (carrier/agent feeds span customers)
+  customer_ids: string[] | null;
+};
+
+export type ApiKeyContext = {
+  key: ApiKey;
+  ip: string;
+  admin: SupabaseClient;
+  canAccessCustomer: (customerId: string | null | undefined) => boolean;
+};
+
+export const API_KEY_COLUMNS =
+  "id, name, key_prefix, scopes, customer_ids, created_by, created_at, last_used_at, revoked_at";
+
+const KEY_PREFIX = "wpl_";
+
+// Only the hash is stored; the raw key is shown once when it's created.
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  // Enough of the key to recognise it in the admin list
+  return { key, keyPrefix: key.slice(0, KEY_PREFIX.length + 6), keyHash: hashApiKey(key) };
+}
+
+// Keys come in `Authorization: Bearer wpl_...` or `X-API-Key: wpl_...`.
+export function getApiKeyFromRequest(req: Request) {
+  const header = req.headers.get("x-api-key")?.trim();
+  if (header) return header;
+
+  const auth = req.headers.get("authorization") || "";
+  const bearer = auth.toLowerCase().startsWith("bearer ") ? auth.slice(7).trim() : "";
+  return bearer.startsWith(KEY_PREFIX) ? bearer : "";
+}
+
+/**
+ * Authenticates an API-key request and checks it carries `scope`. Returns
+ * a NextResponse (401/403/500) when the request can't proceed.
+ */
+export async function getApiKeyContext(
+  req: Request,
+  scope: ApiKeyScope
+): Promise<ApiKeyContext | NextResponse> {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
+
+  const raw = getApiKeyFromRequest(req);
+  if (!raw) {
+    return unauthorized();
+  }
+
+  const admin = createAdminClient(env);
+  const ip = getClientIp(req);
+
+  const { data: key, error } = await admin
+    .from("api_keys")
+    .select("id, name, key_prefix, scopes, customer_ids, revoked_at")
+    .eq("key_hash", hashApiKey(raw))
+    .maybeSingle();
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  if (!key || key.revoked_at) {
+    await recordAudit(admin, {
+      action: "access.denied",
+      actor_email: null,
+      target: new URL(req.url).pathname,
+      ip,
+      details: { reason: key ? "api_key_revoked" : "invalid_api_key" },
+    });
+    return unauthorized();
+  }
+
+  if (!key.scopes?.includes(scope)) {
+    return apiError(403, `API key is missing the ${scope} scope`);
+  }
+
+  await admin
+    .from("api_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", key.id);
+
+  const allowed = key.customer_ids
+    ? new Set((key.customer_ids as string[]).map((id) => id.toLowerCase()))
+    : null;
+
+  return {
+    key: {
+      id: key.id,
+      name: key.name,
+      key_prefix: key.key_prefix,
+      scopes: key.scopes,
+      customer_ids: key.customer_ids,
+    },
+    ip,
+    admin,
+    canAccessCustomer: (customerId) =>
+      !!customerId && (!allowed || allowed.has(customerId.toLowerCase())),
+  };
+}
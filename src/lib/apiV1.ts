@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { forbidden } from "@/lib/requestContext";
+import { getApiKeyContext, type ApiKeyContext } from "@/lib/apiKeys";
+import { recordAudit, type AuditEntry } from "@/lib/audit";
+import { createRateLimiter, tooManyRequests } from "@/lib/rateLimit";
+
+export type V1Context = ApiKeyContext & {
+  // The key's customers; v1 keys are always customer-scoped
+  customerIds: string[];
+};
+
+// Requests per key per minute; API_RATE_LIMIT_PER_MINUTE overrides it
+function rateLimitPerMinute() {
+  const n = Number(process.env.API_RATE_LIMIT_PER_MINUTE);
+  return Number.isFinite(n) && n > 0 ? n : 120;
+}
+
+const limiter = createRateLimiter({
+  name: "api-v1",
+  limit: rateLimitPerMinute(),
+  windowMs: 60_000,
+});
+
+/**
+ * Context for the customer-facing /api/v1 routes: a shipments:read API key
+ * limited to specific customers, within its rate limit. Returns a
+ * NextResponse (401/403/429/500) when the request can't proceed.
+ */
+export async function getV1Context(req: Request): Promise<V1Context | NextResponse> {
+  const ctx = await getApiKeyContext(req, "shipments:read");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const limit = await limiter(ctx.key.id);
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  if (!ctx.key.customer_ids?.length) {
+    return forbidden("API key is not limited to any customers");
+  }
+
+  return { ...ctx, customerIds: ctx.key.customer_ids };
+}
+
+// Audit record for a v1 call, attributed to the key rather than a user
+export function auditApiKey(
+  ctx: ApiKeyContext,
+  action: string,
+  entry: Omit<AuditEntry, "action" | "actor_email" | "ip"> = {}
+) {
+  return recordAudit(ctx.admin, {
+    ...entry,
+    action,
+    actor_email: null,
+    ip: ctx.ip,
+    details: { key_id: ctx.key.id, key: ctx.key.name, ...entry.details },
+  });
+}
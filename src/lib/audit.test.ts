@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAuditWriter,
+  createMemoryAuditStore,
+  createSupabaseAuditStore,
+  parseAuditQuery,
+  type AuditEntry,
+} from "@/lib/audit";
+import { createSupabaseMock } from "@/test/supabaseMock";
+
+const ENTRIES: (AuditEntry & { occurred_at: string })[] = [
+  { occurred_at: "2026-10-01T09:00:00Z", action: "auth.signin", actor_email: "alice@acme.com" },
+  {
+    occurred_at: "2026-10-02T09:00:00Z",
+    action: "admin.user.invite",
+    actor_email: "ops@wenparker.com",
+    customer_id: "ACME",
+    target: "bob@acme.com",
+  },
+  {
+    occurred_at: "2026-10-03T09:00:00Z",
+    action: "access.denied",
+    actor_email: "bob@acme.com",
+    customer_id: "GLOBEX",
+    target: "WPL1",
+  },
+  { occurred_at: "2026-10-04T09:00:00Z", action: "auth.signout", actor_email: "alice@acme.com" },
+];
+
+async function seededStore() {
+  const store = createMemoryAuditStore();
+  for (const { occurred_at, ...entry } of ENTRIES) {
+    await store.insert({
+      occurred_at,
+      customer_id: null,
+      target: null,
+      ip: null,
+      details: {},
+      ...entry,
+    });
+  }
+  return store;
+}
+
+function query(params: Record<string, string>) {
+  return parseAuditQuery(new URLSearchParams(params));
+}
+
+describe("memory audit store", () => {
+  it("lists newest first", async () => {
+    const store = await seededStore();
+    const page = await store.list(query({}));
+    expect(page.total).toBe(4);
+    expect(page.data.map((r) => r.action)).toEqual([
+      "auth.signout",
+      "access.denied",
+      "admin.user.invite",
+      "auth.signin",
+    ]);
+  });
+
+  it.each([
+    [{ action: "auth." }, ["auth.signout", "auth.signin"]],
+    [{ actor: "Alice@Acme.com" }, ["auth.signout", "auth.signin"]],
+    [{ customer: "acme" }, ["admin.user.invite"]],
+    [{ target: "WPL1" }, ["access.denied"]],
+    [{ from: "2026-10-02", to: "2026-10-03" }, ["access.denied", "admin.user.invite"]],
+    [{ action: "auth.", to: "2026-10-01" }, ["auth.signin"]],
+  ])("filters by %o", async (params, actions) => {
+    const store = await seededStore();
+    const page = await store.list(query(params));
+    expect(page.data.map((r) => r.action)).toEqual(actions);
+  });
+
+  it("pages results", async () => {
+    const store = await seededStore();
+    const page = await store.list(query({ page: "2", pageSize: "3" }));
+    expect(page.total).toBe(4);
+    expect(page.data.map((r) => r.action)).toEqual(["auth.signin"]);
+  });
+
+  it("is written to by the audit writer", async () => {
+    const store = createMemoryAuditStore();
+    await createAuditWriter(store)({ action: "auth.signin", actor_email: "alice@acme.com" });
+    expect(store.records).toEqual([
+      expect.objectContaining({
+        id: 1,
+        action: "auth.signin",
+        actor_email: "alice@acme.com",
+        customer_id: null,
+        details: {},
+      }),
+    ]);
+  });
+});
+
+describe("supabase audit store", () => {
+  async function listOps(params: Record<string, string>) {
+    const mock = createSupabaseMock({ tables: { audit_log: { data: [], count: 0 } } });
+    await createSupabaseAuditStore(mock.client()).list(query(params));
+    return mock.calls[0].ops;
+  }
+
+  it("matches the action as a literal prefix", async () => {
+    expect(await listOps({ action: "auth." })).toContainEqual({
+      method: "like",
+      args: ["action", "auth.%"],
+    });
+    expect(await listOps({ action: "a_b%c\\" })).toContainEqual({
+      method: "like",
+      args: ["action", "a\\_b\\%c\\\\%"],
+    });
+  });
+
+  it("applies every filter and the page range", async () => {
+    const ops = await listOps({
+      actor: "alice@acme.com",
+      customer: "ACME",
+      target: "WPL1",
+      from: "2026-10-01",
+      to: "2026-10-31",
+      page: "3",
+      pageSize: "20",
+    });
+    expect(ops).toEqual(
+      expect.arrayContaining([
+        { method: "eq", args: ["actor_email", "alice@acme.com"] },
+        { method: "ilike", args: ["customer_id", "ACME"] },
+        { method: "eq", args: ["target", "WPL1"] },
+        { method: "gte", args: ["occurred_at", "2026-10-01T00:00:00Z"] },
+        { method: "lt", args: ["occurred_at", "2026-11-01T00:00:00.000Z"] },
+        { method: "range", args: [40, 59] },
+      ])
+    );
+  });
+});
+
+describe("parseAuditQuery", () => {
+  it("ignores malformed dates and clamps paging", () => {
+    const parsed = query({ from: "yesterday", to: "2026-13-45", page: "0", pageSize: "9999" });
+    expect(parsed).toMatchObject({ from: null, to: null, page: 1, pageSize: 500 });
+  });
+});
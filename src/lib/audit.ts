@@ -0,0 +1,194 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RequestContext } from "@/lib/requestContext";
+import { escapeLikePattern, isDateOnly, toInt } from "@/lib/shipments";
+
+export type AuditEntry = {
+  action: string;
+  actor_email: string | null;
+  customer_id?: string | null;
+  target?: string | null;
+  ip?: string | null;
+  details?: Record<string, unknown>;
+};
+
+export type AuditRecord = {
+  id?: number;
+  occurred_at: string;
+  action: string;
+  actor_email: string | null;
+  customer_id: string | null;
+  target: string | null;
+  ip: string | null;
+  details: Record<string, unknown>;
+};
+
+export type AuditQuery = {
+  // Prefix match, so "auth." returns every auth event
+  action: string | null;
+  actor: string | null;
+  customer: string | null;
+  target: string | null;
+  from: string | null;
+  to: string | null;
+  page: number;
+  pageSize: number;
+};
+
+export type AuditPage = {
+  data: AuditRecord[];
+  total: number;
+};
+
+// Where audit records live. Supabase in production; the in-memory store
+// lets the writer be exercised without a database.
+export interface AuditStore {
+  insert(record: AuditRecord): Promise<void>;
+  list(query: AuditQuery): Promise<AuditPage>;
+}
+
+export const AUDIT_COLUMNS =
+  "id, occurred_at, action, actor_email, customer_id, target, ip, details";
+
+const DEFAULT_AUDIT_PAGE_SIZE = 100;
+const MAX_AUDIT_PAGE_SIZE = 500;
+
+export function createSupabaseAuditStore(admin: SupabaseClient): AuditStore {
+  return {
+    async insert(record) {
+      const { error } = await admin.from("audit_log").insert(record);
+      if (error) throw new Error(error.message);
+    },
+
+    async list(query) {
+      let q = admin
+        .from("audit_log")
+        .select(AUDIT_COLUMNS, { count: "exact" })
+        .order("occurred_at", { ascending: false })
+        .order("id", { ascending: false });
+
+      if (query.action) q = q.like("action", `${escapeLikePattern(query.action)}%`);
+      if (query.actor) q = q.eq("actor_email", query.actor);
+      if (query.customer) q = q.ilike("customer_id", escapeLikePattern(query.customer));
+      if (query.target) q = q.eq("target", query.target);
+      if (query.from) q = q.gte("occurred_at", query.from);
+      if (query.to) q = q.lt("occurred_at", query.to);
+
+      const offset = (query.page - 1) * query.pageSize;
+      const { data, count, error } = await q.range(offset, offset + query.pageSize - 1);
+
+      if (error) throw new Error(error.message);
+      return { data: (data ?? []) as AuditRecord[], total: count ?? 0 };
+    },
+  };
+}
+
+export function createMemoryAuditStore(): AuditStore & { records: AuditRecord[] } {
+  const records: AuditRecord[] = [];
+
+  return {
+    records,
+
+    async insert(record) {
+      records.push({ ...record, id: records.length + 1 });
+    },
+
+    async list(query) {
+      const matches = records
+        .filter(
+          (r) =>
+            (!query.action || r.action.startsWith(query.action)) &&
+            (!query.actor || r.actor_email === query.actor) &&
+            (!query.customer ||
+              r.customer_id?.toLowerCase() === query.customer.toLowerCase()) &&
+            (!query.target || r.target === query.target) &&
+            (!query.from || r.occurred_at >= query.from) &&
+            (!query.to || r.occurred_at < query.to)
+        )
+        .reverse();
+
+      const offset = (query.page - 1) * query.pageSize;
+      return {
+        data: matches.slice(offset, offset + query.pageSize),
+        total: matches.length,
+      };
+    },
+  };
+}
+
+/**
+ * Returns a function that appends entries to the store. It never throws:
+ * a failed audit write is logged but doesn't fail the request that
+ * triggered it.
+ */
+export function createAuditWriter(store: AuditStore) {
+  return async (entry: AuditEntry) => {
+    try {
+      await store.insert({
+        occurred_at: new Date().toISOString(),
+        action: entry.action,
+        actor_email: entry.actor_email,
+        customer_id: entry.customer_id ?? null,
+        target: entry.target ?? null,
+        ip: entry.ip ?? null,
+        details: entry.details ?? {},
+      });
+    } catch (err) {
+      console.error("Audit write error:", err, entry);
+    }
+  };
+}
+
+export function recordAudit(admin: SupabaseClient, entry: AuditEntry) {
+  return createAuditWriter(createSupabaseAuditStore(admin))(entry);
+}
+
+// recordAudit with the actor and IP taken from the request context.
+export function auditAccess(
+  ctx: RequestContext,
+  action: string,
+  entry: Omit<AuditEntry, "action" | "actor_email" | "ip"> = {}
+) {
+  return recordAudit(ctx.admin, {
+    ...entry,
+    action,
+    actor_email: ctx.email,
+    ip: ctx.ip,
+  });
+}
+
+// Records a denied request for the audit log. Callers still return the
+// 403/404 themselves.
+export function auditDenied(
+  ctx: RequestContext,
+  reason: string,
+  entry: { customer_id?: string | null; target: string }
+) {
+  return auditAccess(ctx, "access.denied", { ...entry, details: { reason } });
+}
+
+// Reads audit filters from a query string. `to` is inclusive of that day.
+export function parseAuditQuery(sp: URLSearchParams): AuditQuery {
+  const from = sp.get("from");
+  const to = sp.get("to");
+
+  let toExclusive: string | null = null;
+  if (isDateOnly(to)) {
+    const d = new Date(`${to}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    toExclusive = d.toISOString();
+  }
+
+  return {
+    action: sp.get("action")?.trim() || null,
+    actor: sp.get("actor")?.trim().toLowerCase() || null,
+    customer: sp.get("customer")?.trim() || null,
+    target: sp.get("target")?.trim() || null,
+    from: isDateOnly(from) ? `${from}T00:00:00Z` : null,
+    to: toExclusive,
+    page: Math.max(1, toInt(sp.get("page"), 1)),
+    pageSize: Math.min(
+      MAX_AUDIT_PAGE_SIZE,
+      Math.max(1, toInt(sp.get("pageSize"), DEFAULT_AUDIT_PAGE_SIZE))
+    ),
+  };
+}
@@ -0,0 +1,17 @@
+// Where to send the browser after sign-in. Only same-site paths are
+// accepted so a crafted ?next= can't bounce users to another site.
+export function safeReturnPath(next: string | null | undefined, fallback = "/shipments") {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) {
+    return fallback;
+  }
+  return next;
+}
+
+export function loginUrl(returnPath: string) {
+  return `/login?${new URLSearchParams({ next: returnPath })}`;
+}
+
+// Second-factor challenge (or enrollment), then back to `returnPath`
+export function mfaUrl(returnPath: string) {
+  return `/mfa?${new URLSearchParams({ next: returnPath })}`;
+}
@@ -0,0 +1,38 @@
+import { supabase } from "@/lib/supabaseClient";
+import { mfaUrl } from "@/lib/authRedirect";
+
+// fetch() with the current session's Bearer token and a JSON content type
+// (left to the browser for FormData uploads). Sends the browser to /login
+// when there is no session, and to /mfa when the session still needs its
+// second factor.
+export async function authedFetch(input: string, init: RequestInit = {}) {
+  const { data } = await supabase.auth.getSession();
+  const session = data.session;
+  if (!session) {
+    window.location.href = "/login";
+    throw new Error("No session");
+  }
+
+  const res = await fetch(input, {
+    ...init,
+    headers: {
+      ...init.headers,
+      ...(init.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
+      Authorization: `Bearer ${session.access_token}`,
+    },
+  });
+
+  if (res.status === 403) {
+    const json = await res
+      .clone()
+      .json()
+      .catch(() => null);
+    if (json?.code === "mfa_required") redirectToMfa();
+  }
+  return res;
+}
+
+// To the second-factor challenge, coming back to the current page
+export function redirectToMfa() {
+  window.location.href = mfaUrl(window.location.pathname + window.location.search);
+}
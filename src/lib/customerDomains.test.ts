@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  canSignInPasswordless,
+  emailDomain,
+  findCustomerDomain,
+  normalizeDomain,
+  provisionFromDomain,
+  sendSignInLink,
+  type CustomerDomain,
+} from "@/lib/customerDomains";
+import { createSupabaseMock, type QueryCall } from "@/test/supabaseMock";
+
+const TRUSTED: CustomerDomain = {
+  domain: "acme.com",
+  customer_id: "ACME",
+  sso_provider_id: null,
+  auto_provision: true,
+  created_by: "admin@wpl.test",
+  created_at: "2026-01-01T00:00:00Z",
+};
+
+function eqValue(call: QueryCall, column: string) {
+  return call.ops.find((op) => op.method === "eq" && op.args[0] === column)?.args[1];
+}
+
+function setup({
+  domain = TRUSTED as CustomerDomain | null,
+  allowed = [] as { is_active: boolean; customer_id?: string }[],
+} = {}) {
+  return createSupabaseMock({
+    tables: {
+      customer_domains: (call) => ({
+        data: domain && eqValue(call, "domain") === domain.domain ? domain : null,
+      }),
+      allowed_users: (call) =>
+        call.ops.some((op) => op.method === "upsert") ? {} : { data: allowed },
+    },
+  });
+}
+
+describe("domains", () => {
+  it("takes the domain from the last @, lowercased", () => {
+    expect(emailDomain("Jane.Doe@Ops.Acme.COM")).toBe("ops.acme.com");
+    expect(emailDomain('"a@b"@acme.com')).toBe("acme.com");
+  });
+
+  it("normalizes admin input and rejects anything that isn't a domain", () => {
+    expect(normalizeDomain(" @Acme.com ")).toBe("acme.com");
+    expect(normalizeDomain("eu.acme-group.co.uk")).toBe("eu.acme-group.co.uk");
+    expect(normalizeDomain("acme")).toBeNull();
+    expect(normalizeDomain("acme.com/evil")).toBeNull();
+    expect(normalizeDomain("%.com")).toBeNull();
+    expect(normalizeDomain(null)).toBeNull();
+  });
+
+  it("matches an email to its exact domain only", async () => {
+    const mock = setup();
+
+    expect(await findCustomerDomain(mock.client(), "jane@ACME.com")).toEqual(TRUSTED);
+    expect(await findCustomerDomain(mock.client(), "jane@sub.acme.com")).toBeNull();
+    expect(await findCustomerDomain(mock.client(), "jane@notacme.com")).toBeNull();
+  });
+});
+
+describe("canSignInPasswordless", () => {
+  it("follows the allowlist when the email is on it", async () => {
+    const active = setup({ allowed: [{ is_active: false }, { is_active: true }] });
+    expect(await canSignInPasswordless(active.client(), "jane@acme.com", null)).toBe(true);
+
+    // A trusted domain doesn't bring deactivated users back
+    const deactivated = setup({ allowed: [{ is_active: false }] });
+    expect(await canSignInPasswordless(deactivated.client(), "jane@acme.com", TRUSTED)).toBe(false);
+  });
+
+  it("lets new addresses in only on an auto-provisioning domain", async () => {
+    const mock = setup();
+
+    expect(await canSignInPasswordless(mock.client(), "jane@acme.com", TRUSTED)).toBe(true);
+    expect(
+      await canSignInPasswordless(mock.client(), "jane@acme.com", {
+        ...TRUSTED,
+        auto_provision: false,
+      })
+    ).toBe(false);
+    expect(await canSignInPasswordless(mock.client(), "jane@other.com", null)).toBe(false);
+  });
+});
+
+describe("provisionFromDomain", () => {
+  it("allowlists a new address for its domain's customer, lowercased", async () => {
+    const mock = setup();
+
+    expect(await provisionFromDomain(mock.client(), "jane@acme.com")).toBe("ACME");
+
+    const write = mock.calls.find((c) => c.ops.some((op) => op.method === "upsert"))!;
+    expect(write.ops[0].args[0]).toEqual({
+      email: "jane@acme.com",
+      customer_id: "acme",
+      is_active: true,
+    });
+  });
+
+  it("leaves admin-managed rows alone", async () => {
+    const mock = setup({ allowed: [{ is_active: false, customer_id: "acme" }] });
+
+    expect(await provisionFromDomain(mock.client(), "jane@acme.com")).toBeNull();
+    expect(mock.calls.some((c) => c.ops.some((op) => op.method === "upsert"))).toBe(false);
+  });
+
+  it("does nothing for untrusted domains", async () => {
+    const manual = setup({ domain: { ...TRUSTED, auto_provision: false } });
+    expect(await provisionFromDomain(manual.client(), "jane@acme.com")).toBeNull();
+
+    const unknown = setup();
+    expect(await provisionFromDomain(unknown.client(), "jane@other.com")).toBeNull();
+    expect(unknown.calls.some((c) => c.name === "allowed_users")).toBe(false);
+  });
+});
+
+describe("sendSignInLink", () => {
+  const redirectTo = "https://portal.test/auth/callback";
+
+  it("sends existing accounts a magic link without creating anyone", async () => {
+    const mock = createSupabaseMock();
+
+    await sendSignInLink(mock.client(), mock.client(), "jane@acme.com", redirectTo);
+
+    expect(mock.calls.map((c) => c.name)).toEqual(["signInWithOtp"]);
+    expect(mock.calls[0].ops[0].args[0]).toMatchObject({
+      options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+    });
+  });
+
+  it("invites new addresses instead of creating confirmed accounts", async () => {
+    const mock = createSupabaseMock({
+      auth: {
+        signInWithOtp: { error: { message: "Signups not allowed for otp", code: "otp_disabled" } },
+      },
+    });
+
+    await sendSignInLink(mock.client(), mock.client(), "jane@acme.com", redirectTo);
+
+    expect(mock.calls.map((c) => c.name)).toEqual(["signInWithOtp", "admin.inviteUserByEmail"]);
+    expect(mock.calls[1].ops[0].args).toEqual(["jane@acme.com", { redirectTo }]);
+    expect(mock.calls.some((c) => c.name === "admin.createUser")).toBe(false);
+  });
+
+  it("surfaces other errors", async () => {
+    const mock = createSupabaseMock({
+      auth: {
+        signInWithOtp: { error: { message: "rate limited", code: "over_email_send_rate_limit" } },
+      },
+    });
+
+    await expect(
+      sendSignInLink(mock.client(), mock.client(), "jane@acme.com", redirectTo)
+    ).rejects.toThrow("rate limited");
+    expect(mock.calls.some((c) => c.name === "admin.inviteUserByEmail")).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type CustomerDomain = {
+  domain: string;
+  customer_id: string;
+  // Supabase Auth SSO provider; null = magic links only
+  sso_provider_id: string | null;
+  // Verified addresses on the domain are allowlisted on first sign-in
+  auto_provision: boolean;
+  created_by: string;
+  created_at: string;
+};
+
+export const CUSTOMER_DOMAIN_COLUMNS =
+  "domain, customer_id, sso_provider_id, auto_provision, created_by, created_at";
+
+export function emailDomain(email: string) {
+  return email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+}
+
+// "@Acme.com" -> "acme.com"; null if it isn't a plausible domain.
+export function normalizeDomain(v: unknown): string | null {
+  const domain = String(v ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/^@/, "");
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+}
+
+export function isUuid(v: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v);
+}
+
+export async function findCustomerDomain(
+  admin: SupabaseClient,
+  email: string
+): Promise<CustomerDomain | null> {
+  const { data, error } = await admin
+    .from("customer_domains")
+    .select(CUSTOMER_DOMAIN_COLUMNS)
+    .eq("domain", emailDomain(email))
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Stand-in for a real identity provider during local development. Never
+// on in production builds.
+export function mockIdpEnabled() {
+  return process.env.SSO_MOCK_IDP === "1" && process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Whether `email` may sign in without a password: it has an active
+ * allowlist row, or it has none at all and its domain is trusted (it will
+ * be provisioned on sign-in). Deactivated users stay out either way.
+ */
+export async function canSignInPasswordless(
+  admin: SupabaseClient,
+  email: string,
+  domain: CustomerDomain | null
+) {
+  const { data, error } = await admin.from("allowed_users").select("is_active").eq("email", email);
+
+  if (error) throw new Error(error.message);
+  if (data?.length) return data.some((row) => row.is_active);
+  return !!domain?.auto_provision;
+}
+
+/**
+ * Allowlists `email` for its domain's customer when the domain is trusted
+ * and the email has no allowlist rows yet. Returns the customer it was
+ * added to, or null. Callers must have verified the email (a magic link or
+ * SSO sign-in).
+ */
+export async function provisionFromDomain(admin: SupabaseClient, email: string) {
+  const domain = await findCustomerDomain(admin, email);
+  if (!domain?.auto_provision) return null;
+
+  const { data: existing, error: existingError } = await admin
+    .from("allowed_users")
+    .select("customer_id")
+    .eq("email", email)
+    .limit(1);
+
+  if (existingError) throw new Error(existingError.message);
+  // Existing rows are managed by admins, including deactivations
+  if (existing?.length) return null;
+
+  const { error } = await admin
+    .from("allowed_users")
+    .upsert(
+      { email, customer_id: domain.customer_id.toLowerCase(), is_active: true },
+      { onConflict: "email,customer_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw new Error(error.message);
+  return domain.customer_id;
+}
+
+/**
+ * Emails `email` a sign-in link without opening public sign-ups. Existing
+ * accounts get a magic link; anyone else gets an invite, whose account
+ * stays unconfirmed until the link is followed, so nobody is created as
+ * confirmed before they've shown they own the address.
+ */
+export async function sendSignInLink(
+  admin: SupabaseClient,
+  anon: SupabaseClient,
+  email: string,
+  redirectTo: string
+) {
+  const { error } = await anon.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+  });
+  if (!error) return;
+  // What Supabase Auth answers when the account doesn't exist
+  if (error.code !== "otp_disabled") throw new Error(error.message);
+
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, { redirectTo });
+  if (inviteError) throw new Error(inviteError.message);
+}
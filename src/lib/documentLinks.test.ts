@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DOCUMENT_LINK_TTL_SECONDS,
+  signDocumentLink,
+  verifyDocumentLink,
+} from "@/lib/documentLinks";
+
+function linkParams(url: string) {
+  return new URL(url).searchParams;
+}
+
+describe("document links", () => {
+  beforeEach(() => {
+    vi.stubEnv("DOCUMENTS_SIGNING_SECRET", "test-signing-secret");
+    vi.stubEnv("PORTAL_URL", "https://portal.example.com/");
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("signs a portal download link that expires after the TTL", () => {
+    const link = signDocumentLink("doc 1");
+    const url = new URL(link.url);
+
+    expect(url.origin + url.pathname).toBe("https://portal.example.com/api/documents/doc%201");
+    expect(link.expires_at).toBe(
+      new Date(Date.now() + DOCUMENT_LINK_TTL_SECONDS * 1000).toISOString()
+    );
+    expect(verifyDocumentLink("doc 1", url.searchParams)).toBe(true);
+  });
+
+  it("stops working once it expires", () => {
+    const sp = linkParams(signDocumentLink("doc-1").url);
+
+    vi.advanceTimersByTime(DOCUMENT_LINK_TTL_SECONDS * 1000 - 1000);
+    expect(verifyDocumentLink("doc-1", sp)).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+    expect(verifyDocumentLink("doc-1", sp)).toBe(false);
+  });
+
+  it("is bound to its document", () => {
+    const sp = linkParams(signDocumentLink("doc-1").url);
+    expect(verifyDocumentLink("doc-2", sp)).toBe(false);
+  });
+
+  it("rejects a tampered expiry or signature", () => {
+    const sp = linkParams(signDocumentLink("doc-1").url);
+
+    const extended = new URLSearchParams(sp);
+    extended.set("expires", String(Number(sp.get("expires")) + 3600));
+    expect(verifyDocumentLink("doc-1", extended)).toBe(false);
+
+    const forged = new URLSearchParams(sp);
+    forged.set("sig", "x".repeat(sp.get("sig")!.length));
+    expect(verifyDocumentLink("doc-1", forged)).toBe(false);
+
+    expect(verifyDocumentLink("doc-1", new URLSearchParams())).toBe(false);
+    const malformed = new URLSearchParams({ expires: "soon", sig: "" });
+    expect(verifyDocumentLink("doc-1", malformed)).toBe(false);
+  });
+
+  it("rejects links signed with another secret", () => {
+    const sp = linkParams(signDocumentLink("doc-1").url);
+    vi.stubEnv("DOCUMENTS_SIGNING_SECRET", "rotated-secret");
+    expect(verifyDocumentLink("doc-1", sp)).toBe(false);
+  });
+
+  it("refuses to sign without a secret", () => {
+    vi.stubEnv("DOCUMENTS_SIGNING_SECRET", "");
+    expect(() => signDocumentLink("doc-1")).toThrow("DOCUMENTS_SIGNING_SECRET");
+  });
+});
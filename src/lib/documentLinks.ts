@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { portalUrl } from "@/lib/notificationDispatch";
+
+// How long a download link stays valid once issued
+export const DOCUMENT_LINK_TTL_SECONDS = 15 * 60;
+
+function signingSecret() {
+  const secret = process.env.DOCUMENTS_SIGNING_SECRET;
+  if (!secret) throw new Error("DOCUMENTS_SIGNING_SECRET is not set");
+  return secret;
+}
+
+function signature(documentId: string, expires: number) {
+  return createHmac("sha256", signingSecret())
+    .update(`${documentId}.${expires}`)
+    .digest("base64url");
+}
+
+/**
+ * Builds an expiring download link for a document. Access is checked when
+ * the link is issued; the link itself only proves that check happened.
+ */
+export function signDocumentLink(documentId: string) {
+  const expires = Math.floor(Date.now() / 1000) + DOCUMENT_LINK_TTL_SECONDS;
+  const qs = new URLSearchParams({
+    expires: String(expires),
+    sig: signature(documentId, expires),
+  });
+  return {
+    url: portalUrl(`/api/documents/${encodeURIComponent(documentId)}?${qs}`),
+    expires_at: new Date(expires * 1000).toISOString(),
+  };
+}
+
+export function verifyDocumentLink(documentId: string, sp: URLSearchParams) {
+  const expires = Number(sp.get("expires"));
+  const sig = sp.get("sig") ?? "";
+  if (!Number.isInteger(expires) || expires * 1000 <= Date.now()) return false;
+
+  const expected = Buffer.from(signature(documentId, expires));
+  const given = Buffer.from(sig);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,49 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createLocalDocumentStorage } from "@/lib/documentStorage";
+
+describe("local document storage", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "documents-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("stores a document on disk, reads it back and deletes it", async () => {
+    const storage = createLocalDocumentStorage(root);
+    const body = new TextEncoder().encode("%PDF-1.7 commercial invoice");
+
+    await storage.put("WPL1/doc-1", body, "application/pdf");
+    expect(await readdir(path.join(root, "WPL1"))).toEqual(["doc-1"]);
+    expect(await storage.get("WPL1/doc-1")).toEqual(body);
+
+    await storage.remove("WPL1/doc-1");
+    expect(await storage.get("WPL1/doc-1")).toBeNull();
+    expect(await readdir(path.join(root, "WPL1"))).toEqual([]);
+  });
+
+  it("won't overwrite a stored document", async () => {
+    const storage = createLocalDocumentStorage(root);
+    await storage.put("WPL1/doc-1", new Uint8Array([1]), "application/pdf");
+
+    await expect(
+      storage.put("WPL1/doc-1", new Uint8Array([2]), "application/pdf")
+    ).rejects.toThrow();
+    expect(await storage.get("WPL1/doc-1")).toEqual(new Uint8Array([1]));
+  });
+
+  it("keeps keys inside its root", async () => {
+    const storage = createLocalDocumentStorage(root);
+
+    await expect(storage.get("../outside")).rejects.toThrow("Invalid document key");
+    await expect(
+      storage.put("WPL1/../../outside", new Uint8Array([1]), "text/plain")
+    ).rejects.toThrow("Invalid document key");
+  });
+});
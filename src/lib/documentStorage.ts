@@ -0,0 +1,93 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Where document bytes live. Keys are opaque paths chosen by the caller
+ * ("<shipment_id>/<document id>"). Implementations throw on failure.
+ */
+export interface DocumentStorage {
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<Uint8Array | null>;
+  remove(key: string): Promise<void>;
+}
+
+export function createSupabaseDocumentStorage(
+  admin: SupabaseClient,
+  bucket: string
+): DocumentStorage {
+  return {
+    async put(key, body, contentType) {
+      const { error } = await admin.storage
+        .from(bucket)
+        .upload(key, body, { contentType, upsert: false });
+      if (error) throw new Error(error.message);
+    },
+
+    async get(key) {
+      const { data, error } = await admin.storage.from(bucket).download(key);
+      if (error) {
+        if (/not found/i.test(error.message)) return null;
+        throw new Error(error.message);
+      }
+      return new Uint8Array(await data.arrayBuffer());
+    },
+
+    async remove(key) {
+      const { error } = await admin.storage.from(bucket).remove([key]);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+// Files under `root`, one per key. For local development and tests.
+export function createLocalDocumentStorage(root: string): DocumentStorage {
+  const base = path.resolve(root);
+
+  function fileFor(key: string) {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) {
+      throw new Error(`Invalid document key: ${key}`);
+    }
+    return file;
+  }
+
+  return {
+    async put(key, body) {
+      const file = fileFor(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body, { flag: "wx" });
+    },
+
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(fileFor(key)));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+
+    async remove(key) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Storage configured from env: DOCUMENTS_STORAGE=local writes under
+ * DOCUMENTS_DIR (default .data/documents); otherwise the Supabase Storage
+ * bucket DOCUMENTS_BUCKET (default shipment-documents).
+ */
+export function getDocumentStorage(admin: SupabaseClient): DocumentStorage {
+  if (process.env.DOCUMENTS_STORAGE === "local") {
+    return createLocalDocumentStorage(
+      process.env.DOCUMENTS_DIR ?? path.join(process.cwd(), ".data", "documents")
+    );
+  }
+  return createSupabaseDocumentStorage(
+    admin,
+    process.env.DOCUMENTS_BUCKET ?? "shipment-documents"
+  );
+}
@@ -0,0 +1,48 @@
+export const DOCUMENT_TYPES = [
+  "commercial_invoice",
+  "packing_list",
+  "bill_of_lading",
+  "air_waybill",
+  "customs_entry",
+  "other",
+] as const;
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  commercial_invoice: "Commercial Invoice",
+  packing_list: "Packing List",
+  bill_of_lading: "Bill of Lading",
+  air_waybill: "Air Waybill (HAWB/MAWB)",
+  customs_entry: "Customs Entry",
+  other: "Other",
+};
+
+export function isDocumentType(v: unknown): v is DocumentType {
+  return DOCUMENT_TYPES.includes(v as DocumentType);
+}
+
+export type ShipmentDocument = {
+  id: string;
+  shipment_id: string;
+  doc_type: DocumentType;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by: string;
+  created_at: string;
+};
+
+export const DOCUMENT_COLUMNS =
+  "id, shipment_id, doc_type, filename, content_type, size_bytes, uploaded_by, created_at";
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+// Filename safe for storage keys and Content-Disposition
+export function safeFilename(name: string) {
+  const cleaned = name
+    .replace(/[/\\]/g, "_")
+    .replace(/[^\w.\- ()]+/g, "_")
+    .trim();
+  return cleaned.slice(-120) || "document";
+}
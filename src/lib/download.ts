@@ -0,0 +1,13 @@
+// Saves a fetch() response body as a file, using the server's
+// Content-Disposition filename when there is one.
+export async function saveResponseAsFile(res: Response, fallbackName: string) {
+  const disposition = res.headers.get("content-disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,7 @@
+export function normalizeEmail(v: unknown) {
+  return String(v ?? "").trim().toLowerCase();
+}
+
+export function isValidEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type EtaRevision = {
+  previous_eta: string | null;
+  eta: string | null;
+  changed_at: string;
+  // Hours this revision moved the ETA; positive means later
+  shift_hours: number | null;
+};
+
+const DEFAULT_DELAY_THRESHOLD_HOURS = 24;
+
+// How far past its original ETA a shipment must slip to count as delayed.
+export function delayThresholdHours() {
+  const n = Number(process.env.ETA_DELAY_THRESHOLD_HOURS);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_DELAY_THRESHOLD_HOURS;
+}
+
+export function isDelayed(etaSlipHours: number | string | null | undefined) {
+  if (etaSlipHours === null || etaSlipHours === undefined) return false;
+  return Number(etaSlipHours) > delayThresholdHours();
+}
+
+function hoursBetween(from: string | null, to: string | null) {
+  if (!from || !to) return null;
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isNaN(ms) ? null : Math.round(ms / 36_000) / 100;
+}
+
+// ETA revisions for one shipment, oldest first.
+export async function fetchEtaHistory(admin: SupabaseClient, shipmentId: string) {
+  const { data, error } = await admin
+    .from("shipment_eta_history")
+    .select("previous_eta, eta, changed_at")
+    .eq("shipment_id", shipmentId)
+    .order("changed_at", { ascending: true })
+    .order("id", { ascending: true });
+
+  const history: EtaRevision[] = (data ?? []).map((r) => ({
+    ...r,
+    shift_hours: hoursBetween(r.previous_eta, r.eta),
+  }));
+
+  return { history, error };
+}
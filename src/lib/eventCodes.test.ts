@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  CURRENT_STATUS_PATTERNS,
+  DERIVED_STATUSES,
+  MILESTONES,
+  RANKED_EVENT_CODES,
+  canonicalEventCode,
+  findMilestone,
+  furthestMilestoneIndex,
+  isKnownEventCode,
+  milestoneIndexForCode,
+  shipmentProgress,
+  statusFromCurrentStatus,
+} from "@/lib/eventCodes";
+
+// Every catalog code with the milestone it belongs to
+const CODES = MILESTONES.flatMap((m, index) =>
+  m.codes.map((code) => ({ code, index, milestone: m }))
+);
+
+describe("event code catalog", () => {
+  it.each(CODES)("$code maps to $milestone.key", ({ code, index, milestone }) => {
+    expect(isKnownEventCode(code)).toBe(true);
+    expect(milestoneIndexForCode(code)).toBe(index);
+    expect(findMilestone(code)).toBe(milestone);
+    expect(canonicalEventCode(code)).toBe(milestone.codes[0]);
+    expect(shipmentProgress(index, null)).toEqual({
+      derived_status: milestone.status,
+      milestone_index: index,
+    });
+  });
+
+  it.each(CODES)("$code is matched without case or surrounding spaces", ({ code, index }) => {
+    expect(milestoneIndexForCode(` ${code.toLowerCase()} `)).toBe(index);
+  });
+
+  it.each(["", null, undefined, "ETA_CHANGED", "DELIVERED_LATE", "D EL"])(
+    "%s is not a known code",
+    (code) => {
+      expect(isKnownEventCode(code)).toBe(false);
+      expect(milestoneIndexForCode(code)).toBe(-1);
+      expect(findMilestone(code)).toBeNull();
+      expect(canonicalEventCode(code)).toBeNull();
+    }
+  );
+
+  it("lists each code once, ranked by milestone", () => {
+    expect(new Set(RANKED_EVENT_CODES).size).toBe(RANKED_EVENT_CODES.length);
+    expect(RANKED_EVENT_CODES).toEqual(CODES.map((c) => c.code));
+  });
+
+  it("gives every milestone a status the badge knows", () => {
+    for (const m of MILESTONES) expect(DERIVED_STATUSES).toContain(m.status);
+  });
+
+  it.each([
+    "20261019150000_shipment_derived_status.sql",
+    "20261019214000_shipment_derived_status_triggers.sql",
+  ])("matches the codes %s derives statuses from", (file) => {
+    const sql = readFileSync(join(process.cwd(), "supabase/migrations", file), "utf8");
+    const rows = [...sql.matchAll(/\('([A-Z_]+)', (\d+), '([^']+)'\)/g)].map((m) => ({
+      code: m[1],
+      index: Number(m[2]),
+      status: m[3],
+    }));
+    expect(rows).toEqual(
+      CODES.map((c) => ({ code: c.code, index: c.index, status: c.milestone.status }))
+    );
+  });
+});
+
+describe("furthestMilestoneIndex", () => {
+  it("picks the furthest milestone whatever the order", () => {
+    expect(furthestMilestoneIndex(["DEL", "BOOKED", "ATD"])).toBe(7);
+    expect(furthestMilestoneIndex(["ATD", "NOTE", null])).toBe(4);
+  });
+
+  it("is -1 when no code is known", () => {
+    expect(furthestMilestoneIndex([])).toBe(-1);
+    expect(furthestMilestoneIndex(["NOTE", undefined])).toBe(-1);
+  });
+});
+
+describe("statusFromCurrentStatus", () => {
+  it.each([
+    ["Delivered", "Delivered"],
+    ["delivered to consignee", "Delivered"],
+    ["Customs Released", "Customs Released"],
+    ["customs clearance complete", "Customs Released"],
+    ["Discharged at POD", "Discharged"],
+    ["In Transit", "In Transit"],
+    ["Pre-Departure", "Pre-Departure"],
+    ["Booked", "Pre-Departure"],
+    ["READY", "Pre-Departure"],
+  ])("%s -> %s", (raw, status) => {
+    expect(statusFromCurrentStatus(raw)).toBe(status);
+  });
+
+  it("checks patterns in order", () => {
+    // "delivered" wins over "pre" in "pre-delivered"
+    expect(statusFromCurrentStatus("pre-delivered")).toBe("Delivered");
+  });
+
+  it.each(["", "  ", null, undefined, "On hold"])("%s has no status", (raw) => {
+    expect(statusFromCurrentStatus(raw)).toBeNull();
+  });
+
+  it("has patterns for every status", () => {
+    expect(CURRENT_STATUS_PATTERNS.map(([s]) => s).sort()).toEqual([...DERIVED_STATUSES].sort());
+  });
+});
+
+describe("shipmentProgress", () => {
+  it("prefers the milestone from events over current_status", () => {
+    expect(shipmentProgress(1, "Delivered")).toEqual({
+      derived_status: "Pre-Departure",
+      milestone_index: 1,
+    });
+  });
+
+  it.each(DERIVED_STATUSES)("falls back to a current_status of %s", (status) => {
+    const progress = shipmentProgress(-1, status);
+    expect(progress.derived_status).toBe(status);
+    expect(MILESTONES[progress.milestone_index].status).toBe(status);
+  });
+
+  it("defaults to In Transit", () => {
+    expect(shipmentProgress(-1, null)).toEqual({
+      derived_status: "In Transit",
+      milestone_index: 4,
+    });
+    expect(shipmentProgress(-1, "On hold").derived_status).toBe("In Transit");
+  });
+});
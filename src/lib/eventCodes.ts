@@ -0,0 +1,150 @@
+// Single source of truth for how event codes map onto milestones and the
+// status badge. Used by the API routes and both shipments pages.
+
+export type DerivedStatus =
+  | "Delivered"
+  | "Customs Released"
+  | "Discharged"
+  | "In Transit"
+  | "Pre-Departure";
+
+export const DERIVED_STATUSES: DerivedStatus[] = [
+  "Pre-Departure",
+  "In Transit",
+  "Discharged",
+  "Customs Released",
+  "Delivered",
+];
+
+export type MilestoneKey =
+  | "booked"
+  | "ready"
+  | "docs"
+  | "cargo"
+  | "departed"
+  | "discharged"
+  | "customs"
+  | "delivered";
+
+export type Milestone = {
+  key: MilestoneKey;
+  label: string;
+  status: DerivedStatus;
+  // Canonical code first, then aliases seen in carrier/agent feeds
+  codes: string[];
+};
+
+// In shipment order; a shipment's milestone is the furthest one reached.
+export const MILESTONES: Milestone[] = [
+  { key: "booked", label: "Booked", status: "Pre-Departure", codes: ["BOOKED"] },
+  { key: "ready", label: "Ready", status: "Pre-Departure", codes: ["READY"] },
+  { key: "docs", label: "Docs Received", status: "Pre-Departure", codes: ["DOCS_RECEIVED"] },
+  { key: "cargo", label: "Cargo Received", status: "Pre-Departure", codes: ["CARGO_RECEIVED"] },
+  { key: "departed", label: "Departed", status: "In Transit", codes: ["ATD", "DEPARTED"] },
+  { key: "discharged", label: "Discharged", status: "Discharged", codes: ["DISCHARGED", "DIS"] },
+  {
+    key: "customs",
+    label: "Customs Released",
+    status: "Customs Released",
+    codes: ["CUSTOMS_RELEASED", "CUS", "CLEARED", "CUSTOMS_CLEARED"],
+  },
+  { key: "delivered", label: "Delivered", status: "Delivered", codes: ["DELIVERED", "DEL"] },
+];
+
+// Every known code (canonical and alias) -> milestone index
+const CODE_INDEX = new Map<string, number>(
+  MILESTONES.flatMap((m, idx) => m.codes.map((c) => [c, idx] as const))
+);
+
+// Known codes ordered by milestone, for ranking in SQL
+export const RANKED_EVENT_CODES: string[] = MILESTONES.flatMap((m) => m.codes);
+
+/**
+ * Fallback when no known event code is present: ilike-style patterns
+ * (`%` = anything) matched against shipments.current_status, checked in
+ * this order. The derived_status backfill migration mirrors these.
+ */
+export const CURRENT_STATUS_PATTERNS: [DerivedStatus, string[]][] = [
+  ["Delivered", ["deliver"]],
+  ["Customs Released", ["custom%release", "custom%clear"]],
+  ["Discharged", ["discharg"]],
+  ["In Transit", ["transit"]],
+  ["Pre-Departure", ["pre", "booked", "ready"]],
+];
+
+const DEFAULT_STATUS: DerivedStatus = "In Transit";
+
+export function normalizeEventCode(code: string | null | undefined) {
+  return (code ?? "").toUpperCase().trim();
+}
+
+export function isKnownEventCode(code: string | null | undefined) {
+  return CODE_INDEX.has(normalizeEventCode(code));
+}
+
+// Milestone index for a code, or -1 when the code isn't in the catalog
+export function milestoneIndexForCode(code: string | null | undefined) {
+  return CODE_INDEX.get(normalizeEventCode(code)) ?? -1;
+}
+
+export function findMilestone(code: string | null | undefined) {
+  const idx = milestoneIndexForCode(code);
+  return idx >= 0 ? MILESTONES[idx] : null;
+}
+
+export function canonicalEventCode(code: string | null | undefined) {
+  return findMilestone(code)?.codes[0] ?? null;
+}
+
+// Furthest milestone reached by any of the codes, or -1
+export function furthestMilestoneIndex(codes: (string | null | undefined)[]) {
+  return codes.reduce((max, c) => Math.max(max, milestoneIndexForCode(c)), -1);
+}
+
+function matchesPattern(value: string, pattern: string) {
+  return pattern.split("%").reduce<number>((from, part) => {
+    if (from < 0) return from;
+    const at = value.indexOf(part, from);
+    return at < 0 ? -1 : at + part.length;
+  }, 0) >= 0;
+}
+
+export function statusFromCurrentStatus(raw: string | null | undefined) {
+  const value = (raw ?? "").trim().toLowerCase();
+  if (!value) return null;
+  const hit = CURRENT_STATUS_PATTERNS.find(([, patterns]) =>
+    patterns.some((p) => matchesPattern(value, p))
+  );
+  return hit ? hit[0] : null;
+}
+
+export type ShipmentProgress = {
+  derived_status: DerivedStatus;
+  milestone_index: number;
+};
+
+/**
+ * Badge status and progress-bar position for a shipment, from the furthest
+ * milestone its events reached (-1 for none). With no known events both
+ * fall back to current_status, so the badge and the bar always agree.
+ */
+export function shipmentProgress(
+  milestoneIndex: number,
+  currentStatus: string | null | undefined
+): ShipmentProgress {
+  if (milestoneIndex >= 0) {
+    return {
+      derived_status: MILESTONES[milestoneIndex].status,
+      milestone_index: milestoneIndex,
+    };
+  }
+
+  const status = statusFromCurrentStatus(currentStatus) ?? DEFAULT_STATUS;
+  return {
+    derived_status: status,
+    milestone_index: Math.max(
+      0,
+      MILESTONES.findIndex((m) => m.status === status)
+    ),
+  };
+}
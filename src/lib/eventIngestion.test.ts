@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { ingestEvents } from "@/lib/eventIngestion";
+import { createSupabaseMock, type QueryCall } from "@/test/supabaseMock";
+
+const EXISTING = {
+  shipment_id: "WPL1",
+  event_code: "ATD",
+  event_time: "2026-10-01T08:00:00.000Z",
+};
+
+function has(call: QueryCall, method: string) {
+  return call.ops.some((op) => op.method === method);
+}
+
+function setup() {
+  return createSupabaseMock({
+    tables: {
+      shipments: (call) =>
+        call.ops.some((op) => op.method === "in")
+          ? { data: [{ shipment_id: "WPL1", customer_id: "ACME" }] }
+          : { data: [] },
+      // The database skips rows matching an existing event and returns the rest
+      events: (call) => {
+        const rows = call.ops.find((op) => op.method === "upsert")?.args[0] as {
+          event_time: string;
+        }[];
+        return { data: rows.filter((r) => r.event_time !== EXISTING.event_time) };
+      },
+    },
+  });
+}
+
+describe("ingestEvents", () => {
+  it("relies on the unique index to skip events that already exist", async () => {
+    const mock = setup();
+
+    const summary = await ingestEvents(
+      mock.client(),
+      [
+        { ...EXISTING, event_time: "2026-10-01T08:00:00+00:00" },
+        { shipment_id: "WPL1", event_code: "dis", event_time: "2026-10-05T08:00:00Z" },
+        { shipment_id: "WPL1", event_code: "DIS", event_time: "2026-10-05T08:00:00.000Z" },
+        { shipment_id: "WPL9", event_code: "DEL", event_time: "2026-10-06T08:00:00Z" },
+      ],
+      { source: "api:test", canAccessCustomer: (id) => id === "ACME" }
+    );
+
+    expect(summary.results.map((r) => r.status)).toEqual([
+      "duplicate",
+      "inserted",
+      "duplicate",
+      "rejected",
+    ]);
+
+    const write = mock.calls.find((c) => c.name === "events")!;
+    expect(write.ops.find((op) => op.method === "upsert")?.args[1]).toEqual({
+      onConflict: "shipment_id,event_code,event_time",
+      ignoreDuplicates: true,
+    });
+    // Nothing reads existing events first, so there's no row cap to hit
+    expect(mock.calls.filter((c) => c.name === "events")).toHaveLength(1);
+  });
+
+  it("advances each shipment once, leaving the newer-than check to the database", async () => {
+    const mock = setup();
+
+    await ingestEvents(
+      mock.client(),
+      [
+        { shipment_id: "WPL1", event_code: "ATD", event_time: "2026-10-02T08:00:00Z" },
+        { shipment_id: "WPL1", event_code: "DIS", event_time: "2026-10-05T08:00:00Z" },
+      ],
+      { source: "api:test", canAccessCustomer: () => true }
+    );
+
+    const advances = mock.calls.filter((c) => c.kind === "rpc");
+    expect(advances.map((c) => [c.name, c.ops[0].args[0]])).toEqual([
+      [
+        "advance_shipments",
+        {
+          p_events: [
+            {
+              shipment_id: "WPL1",
+              current_status: "Discharged",
+              event_time: "2026-10-05T08:00:00.000Z",
+            },
+          ],
+        },
+      ],
+    ]);
+    // No unconditional read-then-write of the shipment
+    expect(mock.calls.some((c) => c.name === "shipments" && has(c, "update"))).toBe(false);
+  });
+});
@@ -0,0 +1,220 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { findMilestone, normalizeEventCode } from "@/lib/eventCodes";
+
+export const MAX_INGEST_BATCH = 500;
+
+export type IngestEventInput = {
+  shipment_id?: unknown;
+  event_code?: unknown;
+  event_time?: unknown;
+  location?: unknown;
+  notes?: unknown;
+};
+
+export type IngestRowResult = {
+  index: number;
+  status: "inserted" | "duplicate" | "rejected";
+  shipment_id: string | null;
+  error?: string;
+};
+
+export type IngestSummary = {
+  inserted: number;
+  duplicates: number;
+  rejected: number;
+  results: IngestRowResult[];
+};
+
+type ValidEvent = {
+  index: number;
+  shipment_id: string;
+  event_code: string;
+  event_time: string;
+  location: string | null;
+  notes: string | null;
+};
+
+function optionalText(v: unknown) {
+  const text = typeof v === "string" ? v.trim() : "";
+  return text ? text.slice(0, 500) : null;
+}
+
+// Dedupe key: shipment + code + instant (so "…Z" and "+00:00" agree)
+export function eventDedupeKey(shipmentId: string, code: string, time: string) {
+  return `${shipmentId}|${code}|${Date.parse(time)}`;
+}
+
+function validate(row: IngestEventInput, index: number): ValidEvent | IngestRowResult {
+  const shipmentId = typeof row?.shipment_id === "string" ? row.shipment_id.trim() : "";
+  const reject = (error: string): IngestRowResult => ({
+    index,
+    status: "rejected",
+    shipment_id: shipmentId || null,
+    error,
+  });
+
+  if (!shipmentId) return reject("shipment_id is required");
+
+  const code = normalizeEventCode(typeof row.event_code === "string" ? row.event_code : "");
+  if (!code) return reject("event_code is required");
+  if (!findMilestone(code)) return reject(`Unknown event_code ${code}`);
+
+  const time = typeof row.event_time === "string" ? Date.parse(row.event_time) : NaN;
+  if (Number.isNaN(time)) return reject("event_time must be an ISO 8601 timestamp");
+
+  return {
+    index,
+    shipment_id: shipmentId,
+    event_code: code,
+    event_time: new Date(time).toISOString(),
+    location: optionalText(row.location),
+    notes: optionalText(row.notes),
+  };
+}
+
+/**
+ * Validates and inserts a batch of feed events. Rows are rejected for
+ * unknown codes, bad timestamps or shipments the caller can't write to,
+ * and skipped as duplicates when the same shipment/code/time already
+ * exists. Shipments that gained a newer event get current_status and
+ * last_event_time moved forward (derived_status follows in the database).
+ */
+export async function ingestEvents(
+  admin: SupabaseClient,
+  rows: IngestEventInput[],
+  {
+    source,
+    canAccessCustomer,
+  }: {
+    source: string;
+    canAccessCustomer: (customerId: string | null | undefined) => boolean;
+  }
+): Promise<IngestSummary> {
+  const results: IngestRowResult[] = [];
+  let candidates: ValidEvent[] = [];
+
+  rows.forEach((row, index) => {
+    const checked = validate(row, index);
+    if ("status" in checked) results.push(checked);
+    else candidates.push(checked);
+  });
+
+  const shipmentIds = [...new Set(candidates.map((e) => e.shipment_id))];
+
+  // Shipments must exist and belong to a customer the key covers
+  const shipments = new Map<string, { customer_id: string | null }>();
+  if (shipmentIds.length) {
+    const { data, error } = await admin
+      .from("shipments")
+      .select("shipment_id, customer_id")
+      .in("shipment_id", shipmentIds);
+    if (error) throw new Error(error.message);
+    for (const s of data ?? []) shipments.set(s.shipment_id, s);
+  }
+
+  candidates = candidates.filter((e) => {
+    const shipment = shipments.get(e.shipment_id);
+    const error = !shipment
+      ? "Unknown shipment_id"
+      : !canAccessCustomer(shipment.customer_id)
+        ? "API key has no access to this shipment's customer"
+        : null;
+    if (error) {
+      results.push({ index: e.index, status: "rejected", shipment_id: e.shipment_id, error });
+    }
+    return !error;
+  });
+
+  // Repeats within the batch are duplicates of their first occurrence
+  const batchKeys = new Set<string>();
+  const inserts: ValidEvent[] = [];
+  for (const e of candidates) {
+    const key = eventDedupeKey(e.shipment_id, e.event_code, e.event_time);
+    if (batchKeys.has(key)) {
+      results.push({ index: e.index, status: "duplicate", shipment_id: e.shipment_id });
+      continue;
+    }
+    batchKeys.add(key);
+    inserts.push(e);
+  }
+
+  if (inserts.length) {
+    // The unique index on (shipment_id, event_code, event_time) skips events
+    // that already exist, even ones a concurrent request just inserted; only
+    // the rows actually written come back.
+    const { data, error } = await admin
+      .from("events")
+      .upsert(
+        inserts.map((e) => ({
+          shipment_id: e.shipment_id,
+          event_code: e.event_code,
+          event_time: e.event_time,
+          location: e.location,
+          notes: e.notes ?? findMilestone(e.event_code)?.label ?? null,
+          source_column: source,
+        })),
+        { onConflict: "shipment_id,event_code,event_time", ignoreDuplicates: true }
+      )
+      .select("shipment_id, event_code, event_time");
+    if (error) throw new Error(error.message);
+
+    const written = new Set(
+      (data ?? []).map((e) => eventDedupeKey(e.shipment_id, e.event_code, e.event_time))
+    );
+    const inserted = inserts.filter((e) =>
+      written.has(eventDedupeKey(e.shipment_id, e.event_code, e.event_time))
+    );
+
+    for (const e of inserts) {
+      results.push({
+        index: e.index,
+        status: inserted.includes(e) ? "inserted" : "duplicate",
+        shipment_id: e.shipment_id,
+      });
+    }
+
+    if (inserted.length) {
+      await advanceShipments(admin, inserted);
+    }
+  }
+
+  results.sort((a, b) => a.index - b.index);
+  return {
+    inserted: results.filter((r) => r.status === "inserted").length,
+    duplicates: results.filter((r) => r.status === "duplicate").length,
+    rejected: results.filter((r) => r.status === "rejected").length,
+    results,
+  };
+}
+
+// Shipments per advance_shipments call
+const ADVANCE_CHUNK = 500;
+
+// Moves current_status/last_event_time forward to each shipment's newest
+// inserted event; older (backfilled) events leave the shipment alone. The
+// comparison happens in the database (advance_shipments), so concurrent
+// batches can't move a shipment backwards.
+export async function advanceShipments(
+  admin: SupabaseClient,
+  inserted: Pick<ValidEvent, "shipment_id" | "event_code" | "event_time">[]
+) {
+  const latest = new Map<string, (typeof inserted)[number]>();
+  for (const e of inserted) {
+    const cur = latest.get(e.shipment_id);
+    if (!cur || Date.parse(e.event_time) > Date.parse(cur.event_time)) {
+      latest.set(e.shipment_id, e);
+    }
+  }
+
+  const updates = [...latest.values()].map((e) => ({
+    shipment_id: e.shipment_id,
+    current_status: findMilestone(e.event_code)?.status ?? e.event_code,
+    event_time: e.event_time,
+  }));
+  for (let i = 0; i < updates.length; i += ADVANCE_CHUNK) {
+    const { error } = await admin.rpc("advance_shipments", {
+      p_events: updates.slice(i, i + ADVANCE_CHUNK),
+    });
+    if (error) throw new Error(error.message);
+  }
+}
@@ -0,0 +1,163 @@
+import { MILESTONES, canonicalEventCode } from "@/lib/eventCodes";
+
+// Shipment columns a tracker spreadsheet can fill in
+export const IMPORT_FIELDS = [
+  { key: "shipment_id", label: "WPL ID", aliases: ["wpl id", "shipment id", "wpl ref", "wpl #"] },
+  { key: "customer_id", label: "Customer", aliases: ["customer", "customer id", "account"] },
+  { key: "hawb", label: "HAWB", aliases: ["hawb", "hbl", "house"] },
+  { key: "mawb", label: "MAWB", aliases: ["mawb", "mbl", "master"] },
+  { key: "po_number", label: "PO Number", aliases: ["po", "po number", "po #", "purchase order"] },
+  {
+    key: "customer_reference",
+    label: "Customer Reference",
+    aliases: ["customer reference", "cust ref", "reference"],
+  },
+  { key: "origin", label: "Origin", aliases: ["origin", "pol", "port of loading"] },
+  { key: "destination", label: "Destination", aliases: ["destination", "pod", "port of discharge"] },
+  { key: "eta_updated", label: "ETA", aliases: ["eta", "eta updated", "revised eta"] },
+  { key: "current_status", label: "Current Status", aliases: ["status", "current status"] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"];
+
+export type ImportMapping = {
+  // Spreadsheet header for each shipment field
+  fields: Partial<Record<ImportField, string>>;
+  // Date columns that become events with the given code
+  events: { column: string; event_code: string }[];
+};
+
+export type FieldChange = { from: string | null; to: string };
+
+export type PlannedEvent = {
+  event_code: string;
+  event_time: string;
+  source_column: string;
+};
+
+export type PlannedShipment = {
+  // 1-based data row (the header is row 0)
+  row: number;
+  shipment_id: string;
+  action: "insert" | "update" | "unchanged";
+  changes: Partial<Record<ImportField, FieldChange>>;
+  events: PlannedEvent[];
+};
+
+export type ImportPlanTotals = {
+  insert: number;
+  update: number;
+  unchanged: number;
+  events: number;
+  errors: number;
+};
+
+export type ImportPlan = {
+  shipments: PlannedShipment[];
+  errors: { row: number; error: string }[];
+  totals: ImportPlanTotals;
+  // Every customer the sheet refers to (lowercased), including rows it
+  // can't import
+  customer_ids: string[];
+};
+
+// committing and rolling_back are held while a commit or rollback runs
+export type ImportBatchStatus =
+  "draft" | "committing" | "committed" | "failed" | "rolling_back" | "rolled_back";
+
+export type ImportBatch = {
+  id: string;
+  filename: string;
+  status: ImportBatchStatus;
+  headers: string[];
+  row_count: number;
+  mapping: ImportMapping | null;
+  summary: ImportPlanTotals | null;
+  customer_ids: string[];
+  error: string | null;
+  created_by: string;
+  created_at: string;
+  committed_by: string | null;
+  committed_at: string | null;
+  rolled_back_by: string | null;
+  rolled_back_at: string | null;
+};
+
+// A shipment something else has changed since its import, so rolling the
+// import back would overwrite or orphan that change
+export type RollbackConflict = {
+  shipment_id: string;
+  reason: string;
+};
+
+export const IMPORT_BATCH_COLUMNS =
+  "id, filename, status, headers, row_count, mapping, summary, customer_ids, error, created_by, created_at, committed_by, committed_at, rolled_back_by, rolled_back_at";
+
+function normalizeHeader(v: string) {
+  return v.toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+// First-guess mapping from header names; the user can change it.
+export function suggestMapping(headers: string[]): ImportMapping {
+  const fields: ImportMapping["fields"] = {};
+  const used = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    const names = [field.key.replace(/_/g, " "), field.label.toLowerCase(), ...field.aliases];
+    const hit = headers.find((h) => !used.has(h) && names.includes(normalizeHeader(h)));
+    if (hit) {
+      fields[field.key] = hit;
+      used.add(hit);
+    }
+  }
+
+  const events: ImportMapping["events"] = [];
+  for (const header of headers) {
+    if (used.has(header)) continue;
+    const name = normalizeHeader(header);
+    const code =
+      canonicalEventCode(name.replace(/ /g, "_")) ??
+      MILESTONES.find((m) => m.label.toLowerCase() === name)?.codes[0];
+    if (code) events.push({ column: header, event_code: code });
+  }
+
+  return { fields, events };
+}
+
+// Problem with a mapping against the file's headers, or null when usable
+export function mappingError(headers: string[], mapping: ImportMapping): string | null {
+  if (!mapping.fields.shipment_id) return "Map a column to WPL ID.";
+
+  const columns = [
+    ...Object.values(mapping.fields).filter((c): c is string => !!c),
+    ...mapping.events.map((e) => e.column),
+  ];
+  const missing = columns.find((c) => !headers.includes(c));
+  if (missing) return `Column "${missing}" is not in the file.`;
+  if (new Set(columns).size !== columns.length) return "Each column can only be mapped once.";
+
+  const badCode = mapping.events.find((e) => !canonicalEventCode(e.event_code));
+  if (badCode) return `Unknown event code for column "${badCode.column}".`;
+  return null;
+}
+
+// Mapping from a request body, dropping anything that isn't a string
+export function parseImportMapping(v: unknown): ImportMapping | null {
+  if (!v || typeof v !== "object") return null;
+  const raw = v as { fields?: Record<string, unknown>; events?: unknown };
+
+  const fields: ImportMapping["fields"] = {};
+  for (const { key } of IMPORT_FIELDS) {
+    const column = raw.fields?.[key];
+    if (typeof column === "string" && column) fields[key] = column;
+  }
+
+  const events = (Array.isArray(raw.events) ? raw.events : [])
+    .filter(
+      (e): e is { column: string; event_code: string } =>
+        typeof e?.column === "string" && !!e.column && typeof e?.event_code === "string"
+    )
+    .map((e) => ({ column: e.column, event_code: e.event_code }));
+
+  return { fields, events };
+}
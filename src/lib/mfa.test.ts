@@ -0,0 +1,59 @@
+import { createHash } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  issueRecoveryCodes,
+  redeemRecoveryCode,
+} from "@/lib/mfa";
+import { createSupabaseMock } from "@/test/supabaseMock";
+
+describe("recovery codes", () => {
+  beforeEach(() => vi.stubEnv("MFA_RECOVERY_SECRET", "test-recovery-secret"));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("hashes with the server secret, ignoring case, spaces and dashes", () => {
+    const hash = hashRecoveryCode("abcde-fghjk");
+    expect(hashRecoveryCode(" ABCDE FGHJK ")).toBe(hash);
+    expect(hash).not.toBe(createHash("sha256").update("abcdefghjk").digest("hex"));
+
+    vi.stubEnv("MFA_RECOVERY_SECRET", "another-secret");
+    expect(hashRecoveryCode("abcde-fghjk")).not.toBe(hash);
+  });
+
+  it("refuses to hash without a secret", () => {
+    vi.stubEnv("MFA_RECOVERY_SECRET", "");
+    expect(() => hashRecoveryCode("abcde-fghjk")).toThrow("MFA_RECOVERY_SECRET");
+  });
+
+  it("generates distinct codes from the unambiguous alphabet", () => {
+    const codes = generateRecoveryCodes();
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const code of codes) expect(code).toMatch(/^[a-hjkmnp-z2-9]{5}-[a-hjkmnp-z2-9]{5}$/);
+  });
+
+  it("stores only keyed hashes of issued codes", async () => {
+    const mock = createSupabaseMock();
+    const codes = await issueRecoveryCodes(mock.client(), "user-1");
+
+    const insert = mock.calls.find((c) => c.ops.some((op) => op.method === "insert"))!;
+    expect(insert.ops[0].args[0]).toEqual(
+      codes.map((code) => ({ user_id: "user-1", code_hash: hashRecoveryCode(code) }))
+    );
+  });
+
+  it("redeems keyed codes, and legacy unkeyed ones", async () => {
+    const mock = createSupabaseMock({
+      tables: { mfa_recovery_codes: { data: [{ id: "code-1" }] } },
+    });
+
+    expect(await redeemRecoveryCode(mock.client(), "user-1", "ABCDE-FGHJK")).toBe(true);
+
+    const filter = mock.calls[0].ops.find((op) => op.method === "or")!.args[0];
+    const legacy = createHash("sha256").update("abcdefghjk").digest("hex");
+    expect(filter).toBe(
+      `and(keyed.is.true,code_hash.eq.${hashRecoveryCode("abcdefghjk")}),` +
+        `and(keyed.is.false,code_hash.eq.${legacy})`
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Codes are compared without case, spaces or dashes, so "ABCD-EFGH-JK"
+// and "abcdefghjk" are the same code.
+export function normalizeRecoveryCode(code: unknown) {
+  return String(code ?? "")
+    .toLowerCase()
+    .replace(/[\s-]/g, "");
+}
+
+function recoverySecret() {
+  const secret = process.env.MFA_RECOVERY_SECRET;
+  if (!secret) throw new Error("MFA_RECOVERY_SECRET is not set");
+  return secret;
+}
+
+// Only an HMAC of each code (keyed with a server secret, so a leaked table
+// can't be brute-forced offline) is stored; codes are shown once when
+// they're generated.
+export function hashRecoveryCode(code: string) {
+  return createHmac("sha256", recoverySecret())
+    .update(normalizeRecoveryCode(code))
+    .digest("hex");
+}
+
+// Codes issued before hashes were keyed: plain SHA-256, still redeemable
+// until the user generates a new set
+function legacyHashRecoveryCode(code: string) {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Unambiguous characters (no 0/o, 1/l/i) so codes survive being written down
+const CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT) {
+  return Array.from({ length: count }, () => {
+    const chars = [...randomBytes(10)].map((b) => CODE_ALPHABET[b % CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+  });
+}
+
+/**
+ * Replaces the user's recovery codes with a fresh set and returns the raw
+ * codes (the only time they're available).
+ */
+export async function issueRecoveryCodes(admin: SupabaseClient, userId: string) {
+  const codes = generateRecoveryCodes();
+
+  const { error: deleteError } = await admin
+    .from("mfa_recovery_codes")
+    .delete()
+    .eq("user_id", userId);
+  if (deleteError) throw new Error(deleteError.message);
+
+  const { error } = await admin
+    .from("mfa_recovery_codes")
+    .insert(codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+  if (error) throw new Error(error.message);
+
+  return codes;
+}
+
+/**
+ * Marks one of the user's unused recovery codes as used. Returns false
+ * when the code doesn't match; the conditional update means a code can
+ * only be redeemed once even under concurrent requests.
+ */
+export async function redeemRecoveryCode(admin: SupabaseClient, userId: string, code: string) {
+  const { data, error } = await admin
+    .from("mfa_recovery_codes")
+    .update({ used_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .or(
+      `and(keyed.is.true,code_hash.eq.${hashRecoveryCode(code)}),` +
+        `and(keyed.is.false,code_hash.eq.${legacyHashRecoveryCode(code)})`
+    )
+    .is("used_at", null)
+    .select("id");
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Removes the user's TOTP factors and recovery codes, which turns MFA off
+ * for the account. Used by recovery (the authenticator is lost) and when
+ * the user turns MFA off.
+ */
+export async function removeMfa(admin: SupabaseClient, userId: string) {
+  const { data, error } = await admin.auth.admin.mfa.listFactors({ userId });
+  if (error) throw new Error(error.message);
+
+  for (const factor of data?.factors ?? []) {
+    if (factor.factor_type !== "totp") continue;
+    const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({
+      id: factor.id,
+      userId,
+    });
+    if (deleteError) throw new Error(deleteError.message);
+  }
+
+  const { error: codesError } = await admin
+    .from("mfa_recovery_codes")
+    .delete()
+    .eq("user_id", userId);
+  if (codesError) throw new Error(codesError.message);
+}
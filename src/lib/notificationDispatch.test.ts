@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import {
+  deliverDueNotifications,
+  enqueueMilestoneNotifications,
+} from "@/lib/notificationDispatch";
+import type {
+  Destination,
+  MilestonePayload,
+  NotificationTransport,
+} from "@/lib/notificationTransports";
+import { createSupabaseMock, type QueryCall } from "@/test/supabaseMock";
+
+const payload = {
+  type: "shipment.milestone",
+  milestone: "delivered",
+  milestone_label: "Delivered",
+  event_code: "DLV",
+  event_time: "2026-10-19T08:00:00Z",
+  shipment: { shipment_id: "WPL1", customer_id: "ACME" },
+  url: "http://localhost:3000/shipments/WPL1",
+} as MilestonePayload;
+
+function delivery(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    attempts: 0,
+    payload,
+    channel: "email",
+    target: "alice@acme.com",
+    secret: null,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+// Stand-in transport that records what it was asked to send
+function recordingTransport(fail = false) {
+  const sent: Destination[] = [];
+  const transport: NotificationTransport = {
+    async send(destination) {
+      if (fail) throw new Error("SMTP 451 try again later");
+      sent.push(destination);
+    },
+  };
+  return { sent, transport };
+}
+
+function updates(mock: ReturnType<typeof createSupabaseMock>) {
+  return mock.calls
+    .filter((c) => c.name === "notification_deliveries")
+    .map((c) => ({
+      id: c.ops.find((op) => op.method === "eq")?.args[1],
+      values: c.ops.find((op) => op.method === "update")?.args[0] as Record<string, unknown>,
+    }));
+}
+
+describe("deliverDueNotifications", () => {
+  it("sends claimed deliveries through their channel's transport", async () => {
+    const mock = createSupabaseMock({
+      rpc: {
+        claim_notification_deliveries: {
+          data: [
+            delivery("d1"),
+            delivery("d2", { channel: "webhook", target: "https://hooks.acme.com", secret: "s" }),
+          ],
+        },
+      },
+    });
+    const email = recordingTransport();
+    const webhook = recordingTransport();
+
+    const result = await deliverDueNotifications(mock.client(), {
+      email: email.transport,
+      webhook: webhook.transport,
+    });
+
+    expect(result).toEqual({ sent: 2, retrying: 0, failed: 0 });
+    expect(email.sent).toEqual([{ target: "alice@acme.com", secret: null }]);
+    expect(webhook.sent).toEqual([{ target: "https://hooks.acme.com", secret: "s" }]);
+    expect(updates(mock).map((u) => [u.id, u.values.status])).toEqual([
+      ["d1", "sent"],
+      ["d2", "sent"],
+    ]);
+  });
+
+  it("only sends what the claim returned", async () => {
+    const mock = createSupabaseMock();
+    const email = recordingTransport();
+
+    const result = await deliverDueNotifications(mock.client(), {
+      email: email.transport,
+      webhook: email.transport,
+    });
+
+    expect(result).toEqual({ sent: 0, retrying: 0, failed: 0 });
+    expect(mock.calls.map((c) => `${c.kind}:${c.name}`)).toEqual([
+      "rpc:claim_notification_deliveries",
+    ]);
+  });
+
+  it("schedules a retry when the transport fails, then gives up", async () => {
+    const mock = createSupabaseMock({
+      rpc: {
+        claim_notification_deliveries: {
+          data: [delivery("d1"), delivery("d2", { attempts: 4 })],
+        },
+      },
+    });
+    const email = recordingTransport(true);
+
+    const result = await deliverDueNotifications(mock.client(), {
+      email: email.transport,
+      webhook: email.transport,
+    });
+
+    expect(result).toEqual({ sent: 0, retrying: 1, failed: 1 });
+    const [retry, gaveUp] = updates(mock);
+    expect(retry.values).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      last_error: "SMTP 451 try again later",
+    });
+    expect(gaveUp.values).toMatchObject({ status: "failed", attempts: 5 });
+  });
+
+  it("fails deliveries whose subscription was turned off", async () => {
+    const mock = createSupabaseMock({
+      rpc: { claim_notification_deliveries: { data: [delivery("d1", { is_active: false })] } },
+    });
+    const email = recordingTransport();
+
+    const result = await deliverDueNotifications(mock.client(), {
+      email: email.transport,
+      webhook: email.transport,
+    });
+
+    expect(result.failed).toBe(1);
+    expect(email.sent).toEqual([]);
+  });
+});
+
+describe("enqueueMilestoneNotifications", () => {
+  const shipment = { shipment_id: "WPL1", customer_id: "ACME", po_number: "PO-1" };
+  const event = { shipment_id: "WPL1", event_code: " del ", event_time: "2026-10-19T08:00:00Z" };
+
+  function setup({
+    subscriptions = [
+      { id: "s1", email: "alice@acme.com", customer_id: "acme" },
+      { id: "s2", email: "bob@acme.com", customer_id: "ACME" },
+    ],
+    active = [{ email: "alice@acme.com", customer_id: "acme" }],
+  } = {}) {
+    return createSupabaseMock({
+      tables: {
+        shipments: { data: shipment },
+        notification_subscriptions: { data: subscriptions },
+        allowed_users: { data: active },
+        // Every row is new to the unique key
+        notification_deliveries: (call) => ({
+          data: (call.ops[0].args[0] as unknown[]).map((_, i) => ({ id: `d${i}` })),
+        }),
+      },
+    });
+  }
+
+  function call(mock: ReturnType<typeof createSupabaseMock>, name: string) {
+    return mock.calls.find((c) => c.name === name) as QueryCall;
+  }
+
+  it("queues the milestone for active subscribers of the shipment's customer", async () => {
+    const mock = setup();
+
+    const result = await enqueueMilestoneNotifications(mock.client(), event);
+
+    expect(result).toEqual({ queued: 1, error: null });
+    // Subscribers to this milestone, for the customer or this one shipment
+    expect(call(mock, "notification_subscriptions").ops).toEqual(
+      expect.arrayContaining([
+        { method: "eq", args: ["is_active", true] },
+        { method: "ilike", args: ["customer_id", "ACME"] },
+        { method: "contains", args: ["milestones", ["delivered"]] },
+        { method: "or", args: ['shipment_id.is.null,shipment_id.eq."WPL1"'] },
+      ])
+    );
+
+    // bob has since been deactivated for ACME, so only alice is queued
+    const [rows, options] = call(mock, "notification_deliveries").ops[0].args as [
+      Record<string, unknown>[],
+      unknown,
+    ];
+    expect(rows).toEqual([
+      {
+        subscription_id: "s1",
+        shipment_id: "WPL1",
+        event_code: "DEL",
+        event_time: event.event_time,
+        payload: expect.objectContaining({
+          type: "shipment.milestone",
+          milestone: "delivered",
+          milestone_label: "Delivered",
+          event_code: "DEL",
+          shipment,
+          url: "http://localhost:3000/shipments/WPL1",
+        }),
+      },
+    ]);
+    expect(options).toEqual({
+      onConflict: "subscription_id,shipment_id,event_code,event_time",
+      ignoreDuplicates: true,
+    });
+  });
+
+  it("ignores events that aren't milestones", async () => {
+    const mock = setup();
+
+    const result = await enqueueMilestoneNotifications(mock.client(), {
+      ...event,
+      event_code: "ETA_CHANGED",
+    });
+
+    expect(result).toEqual({ queued: 0, error: null });
+    expect(mock.calls).toEqual([]);
+  });
+
+  it("queues nothing when no subscriber is still active", async () => {
+    const mock = setup({ active: [] });
+
+    const result = await enqueueMilestoneNotifications(mock.client(), event);
+
+    expect(result).toEqual({ queued: 0, error: null });
+    expect(mock.calls.some((c) => c.name === "notification_deliveries")).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { findMilestone } from "@/lib/eventCodes";
+import { escapeLikePattern } from "@/lib/shipments";
+import { quoteFilterValue } from "@/lib/shipmentListQuery";
+import type {
+  MilestonePayload,
+  NotificationChannel,
+  NotificationTransports,
+} from "@/lib/notificationTransports";
+
+export type InsertedEvent = {
+  shipment_id: string;
+  event_code: string | null;
+  event_time: string | null;
+};
+
+export type DispatchResult = {
+  sent: number;
+  retrying: number;
+  failed: number;
+};
+
+const MAX_ATTEMPTS = 5;
+// 1, 2, 4, 8 minutes between attempts
+const RETRY_BASE_MS = 60_000;
+const DELIVERY_BATCH = 50;
+
+export function portalUrl(path: string) {
+  const base = (process.env.PORTAL_URL ?? "http://localhost:3000").replace(/\/$/, "");
+  return `${base}${path}`;
+}
+
+/**
+ * Queues a delivery for every active subscription interested in the
+ * milestone this event represents. Re-running for the same event is a
+ * no-op thanks to the unique key on notification_deliveries.
+ */
+export async function enqueueMilestoneNotifications(
+  admin: SupabaseClient,
+  event: InsertedEvent
+): Promise<{ queued: number; error: string | null }> {
+  const milestone = findMilestone(event.event_code);
+  if (!milestone || !event.shipment_id) return { queued: 0, error: null };
+
+  const { data: shipment, error: shipmentError } = await admin
+    .from("shipments")
+    .select(
+      "shipment_id, customer_id, hawb, mawb, po_number, customer_reference, origin, destination, eta_updated"
+    )
+    .eq("shipment_id", event.shipment_id)
+    .maybeSingle();
+
+  if (shipmentError) return { queued: 0, error: shipmentError.message };
+  if (!shipment?.customer_id) return { queued: 0, error: null };
+
+  const { data: subscriptions, error: subError } = await admin
+    .from("notification_subscriptions")
+    .select("id, email, customer_id")
+    .eq("is_active", true)
+    .ilike("customer_id", escapeLikePattern(shipment.customer_id))
+    .contains("milestones", [milestone.key])
+    .or(`shipment_id.is.null,shipment_id.eq.${quoteFilterValue(shipment.shipment_id)}`);
+
+  if (subError) return { queued: 0, error: subError.message };
+  if (!subscriptions?.length) return { queued: 0, error: null };
+
+  // Skip owners who have since been deactivated for this customer
+  const { data: active, error: activeError } = await admin
+    .from("allowed_users")
+    .select("email, customer_id")
+    .in("email", [...new Set(subscriptions.map((s) => s.email))])
+    .eq("is_active", true);
+
+  if (activeError) return { queued: 0, error: activeError.message };
+
+  const activeKeys = new Set(
+    (active ?? []).map((a) => `${a.email}|${String(a.customer_id).toLowerCase()}`)
+  );
+  const eligible = subscriptions.filter((s) =>
+    activeKeys.has(`${s.email}|${String(s.customer_id).toLowerCase()}`)
+  );
+  if (eligible.length === 0) return { queued: 0, error: null };
+
+  const eventCode = (event.event_code ?? "").toUpperCase().trim();
+  const payload: MilestonePayload = {
+    type: "shipment.milestone",
+    milestone: milestone.key,
+    milestone_label: milestone.label,
+    event_code: eventCode,
+    event_time: event.event_time,
+    shipment,
+    url: portalUrl(`/shipments/${encodeURIComponent(shipment.shipment_id)}`),
+  };
+
+  const { data: inserted, error: insertError } = await admin
+    .from("notification_deliveries")
+    .upsert(
+      eligible.map((s) => ({
+        subscription_id: s.id,
+        shipment_id: shipment.shipment_id,
+        event_code: eventCode,
+        event_time: event.event_time,
+        payload,
+      })),
+      {
+        onConflict: "subscription_id,shipment_id,event_code,event_time",
+        ignoreDuplicates: true,
+      }
+    )
+    .select("id");
+
+  if (insertError) return { queued: 0, error: insertError.message };
+  return { queued: inserted?.length ?? 0, error: null };
+}
+
+// A delivery claimed by claim_notification_deliveries, with its subscription
+type DueDelivery = {
+  id: string;
+  attempts: number;
+  payload: MilestonePayload;
+  channel: NotificationChannel | null;
+  target: string | null;
+  secret: string | null;
+  is_active: boolean | null;
+};
+
+/**
+ * Attempts every pending delivery whose retry time has come. Deliveries
+ * are claimed first, so overlapping runs never send the same one. Failures
+ * are logged on the row and retried with exponential backoff until
+ * MAX_ATTEMPTS, after which the delivery is marked failed.
+ */
+export async function deliverDueNotifications(
+  admin: SupabaseClient,
+  transports: NotificationTransports
+): Promise<DispatchResult> {
+  const result: DispatchResult = { sent: 0, retrying: 0, failed: 0 };
+
+  const { data, error } = await admin.rpc("claim_notification_deliveries", {
+    p_limit: DELIVERY_BATCH,
+  });
+
+  if (error) throw new Error(error.message);
+
+  for (const delivery of (data ?? []) as DueDelivery[]) {
+    const attempts = delivery.attempts + 1;
+
+    if (!delivery.is_active || !delivery.channel || !delivery.target) {
+      await admin
+        .from("notification_deliveries")
+        .update({ status: "failed", last_error: "Subscription inactive" })
+        .eq("id", delivery.id);
+      result.failed++;
+      continue;
+    }
+
+    try {
+      await transports[delivery.channel].send(
+        { target: delivery.target, secret: delivery.secret },
+        delivery.payload
+      );
+
+      await admin
+        .from("notification_deliveries")
+        .update({
+          status: "sent",
+          attempts,
+          last_error: null,
+          sent_at: new Date().toISOString(),
+        })
+        .eq("id", delivery.id);
+      result.sent++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const giveUp = attempts >= MAX_ATTEMPTS;
+      console.error(`Notification ${delivery.id} attempt ${attempts} failed:`, message);
+
+      await admin
+        .from("notification_deliveries")
+        .update({
+          status: giveUp ? "failed" : "pending",
+          attempts,
+          last_error: message,
+          next_attempt_at: new Date(
+            Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)
+          ).toISOString(),
+        })
+        .eq("id", delivery.id);
+
+      if (giveUp) result.failed++;
+      else result.retrying++;
+    }
+  }
+
+  return result;
+}
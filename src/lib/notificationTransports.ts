@@ -0,0 +1,171 @@
+import { createHmac } from "node:crypto";
+import { request } from "node:https";
+import nodemailer from "nodemailer";
+import { publicOnlyLookup, webhookUrlError } from "@/lib/webhookUrl";
+
+export type NotificationChannel = "email" | "webhook";
+
+export type MilestonePayload = {
+  type: "shipment.milestone";
+  milestone: string;
+  milestone_label: string;
+  event_code: string;
+  event_time: string | null;
+  shipment: {
+    shipment_id: string;
+    customer_id: string | null;
+    hawb: string | null;
+    mawb: string | null;
+    po_number: string | null;
+    customer_reference: string | null;
+    origin: string | null;
+    destination: string | null;
+    eta_updated: string | null;
+  };
+  url: string;
+};
+
+export type Destination = {
+  target: string;
+  secret: string | null;
+};
+
+/**
+ * Sends one notification. Implementations throw on failure; the dispatcher
+ * records the error and schedules a retry.
+ */
+export interface NotificationTransport {
+  send(destination: Destination, payload: MilestonePayload): Promise<void>;
+}
+
+export type NotificationTransports = Record<NotificationChannel, NotificationTransport>;
+
+function describe(payload: MilestonePayload) {
+  const s = payload.shipment;
+  const reference = s.hawb || s.mawb || s.po_number || s.shipment_id;
+  return {
+    subject: `${reference}: ${payload.milestone_label}`,
+    text: [
+      `Shipment ${reference} reached ${payload.milestone_label}.`,
+      "",
+      `Route: ${s.origin ?? "—"} → ${s.destination ?? "—"}`,
+      `Event: ${payload.event_code}${payload.event_time ? ` at ${payload.event_time}` : ""}`,
+      `PO Number: ${s.po_number ?? "—"}`,
+      `ETA: ${s.eta_updated ?? "—"}`,
+      "",
+      `View in the tracking portal: ${payload.url}`,
+    ].join("\n"),
+  };
+}
+
+type SmtpOptions = {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+};
+
+// SMTP email. Point SMTP_HOST/SMTP_PORT at a local catcher (e.g. MailHog on
+// :1025) to exercise it without sending real mail.
+export function createEmailTransport(options: SmtpOptions): NotificationTransport {
+  const mailer = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure ?? options.port === 465,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    async send(destination, payload) {
+      const { subject, text } = describe(payload);
+      await mailer.sendMail({ from: options.from, to: destination.target, subject, text });
+    },
+  };
+}
+
+// Receivers verify by recomputing HMAC-SHA256(secret, `${timestamp}.${body}`)
+// and comparing it with the v1 value of the X-WPL-Signature header.
+export function signWebhookBody(secret: string, timestamp: number, body: string) {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+// POSTs over https, connecting only to public addresses and never
+// following redirects (a redirect could point back inside the network).
+function postJson(url: string, headers: Record<string, string>, body: string, timeoutMs: number) {
+  return new Promise<number>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+export function createWebhookTransport(timeoutMs = 10_000): NotificationTransport {
+  return {
+    async send(destination, payload) {
+      // Checked again at send time: the host may have been re-pointed since
+      const urlError = await webhookUrlError(destination.target);
+      if (urlError) throw new Error(urlError);
+
+      const body = JSON.stringify(payload);
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+      if (destination.secret) {
+        headers["X-WPL-Signature"] = signWebhookBody(
+          destination.secret,
+          Math.floor(Date.now() / 1000),
+          body
+        );
+      }
+
+      const status = await postJson(destination.target, headers, body, timeoutMs);
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook responded with ${status}`);
+      }
+    },
+  };
+}
+
+let transports: NotificationTransports | null = null;
+
+// Transports configured from env. Email needs SMTP_HOST and NOTIFY_FROM_EMAIL.
+export function getNotificationTransports(): NotificationTransports {
+  if (transports) return transports;
+
+  const host = process.env.SMTP_HOST;
+  const from = process.env.NOTIFY_FROM_EMAIL;
+
+  transports = {
+    email:
+      host && from
+        ? createEmailTransport({
+            host,
+            port: Number(process.env.SMTP_PORT ?? 587),
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASSWORD,
+            from,
+          })
+        : {
+            async send() {
+              throw new Error("Email transport not configured");
+            },
+          },
+    webhook: createWebhookTransport(),
+  };
+
+  return transports;
+}
@@ -0,0 +1,222 @@
+import { DERIVED_STATUSES } from "@/lib/eventCodes";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, SORT_KEYS } from "@/lib/shipments";
+import { MAX_LOOKUP_REFERENCES } from "@/lib/referenceLookup";
+
+const nullableString = { type: "string", nullable: true };
+const nullableDateTime = { type: "string", format: "date-time", nullable: true };
+
+const SHIPMENT_FIELDS = {
+  shipment_id: { type: "string", description: "WPL ID" },
+  customer_id: nullableString,
+  hawb: nullableString,
+  mawb: nullableString,
+  po_number: nullableString,
+  customer_reference: nullableString,
+  origin: nullableString,
+  destination: nullableString,
+  current_status: nullableString,
+  eta_updated: nullableDateTime,
+  original_eta: nullableDateTime,
+  eta_slip_hours: { type: "number", nullable: true },
+  last_event_time: nullableDateTime,
+  derived_status: { type: "string", enum: DERIVED_STATUSES },
+  milestone_index: { type: "integer" },
+  delayed: { type: "boolean", description: "ETA has slipped past the delay threshold" },
+};
+
+function jsonResponse(description: string, schema: object) {
+  return { description, content: { "application/json": { schema } } };
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponses = {
+  "400": { $ref: "#/components/responses/BadRequest" },
+  "401": { $ref: "#/components/responses/Unauthorized" },
+  "403": { $ref: "#/components/responses/Forbidden" },
+  "429": { $ref: "#/components/responses/TooManyRequests" },
+};
+
+/**
+ * OpenAPI 3.0 description of the /api/v1 routes. Enums and limits come
+ * from the same constants the routes use, so the document stays in step.
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "WPL Tracking API",
+      version: "1.0.0",
+      description:
+        "Read-only access to your shipments. Authenticate with an API key in the X-API-Key header (or Authorization: Bearer). Keys are limited to specific customers and rate limited per minute.",
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }, { bearer: [] }],
+    paths: {
+      "/shipments": {
+        get: {
+          operationId: "listShipments",
+          summary: "List shipments",
+          parameters: [
+            { name: "customer", in: "query", schema: { type: "string" } },
+            { name: "page", in: "query", schema: { type: "integer", minimum: 1, default: 1 } },
+            {
+              name: "pageSize",
+              in: "query",
+              schema: {
+                type: "integer",
+                minimum: 1,
+                maximum: MAX_PAGE_SIZE,
+                default: DEFAULT_PAGE_SIZE,
+              },
+            },
+            {
+              name: "q",
+              in: "query",
+              description: "Matches HAWB, MAWB, PO number, customer reference or WPL ID",
+              schema: { type: "string" },
+            },
+            { name: "status", in: "query", schema: { type: "string", enum: DERIVED_STATUSES } },
+            { name: "delayed", in: "query", schema: { type: "string", enum: ["1"] } },
+            { name: "origin", in: "query", schema: { type: "string" } },
+            { name: "destination", in: "query", schema: { type: "string" } },
+            {
+              name: "dateField",
+              in: "query",
+              schema: { type: "string", enum: ["last_event_time", "eta_updated"] },
+            },
+            { name: "from", in: "query", schema: { type: "string", format: "date" } },
+            { name: "to", in: "query", schema: { type: "string", format: "date" } },
+            { name: "sort", in: "query", schema: { type: "string", enum: SORT_KEYS } },
+            { name: "dir", in: "query", schema: { type: "string", enum: ["asc", "desc"] } },
+          ],
+          responses: {
+            "200": jsonResponse("A page of shipments", ref("ShipmentList")),
+            ...errorResponses,
+          },
+        },
+      },
+      "/shipments/{shipment_id}": {
+        get: {
+          operationId: "getShipment",
+          summary: "Get a shipment with its events and ETA history",
+          parameters: [
+            { name: "shipment_id", in: "path", required: true, schema: { type: "string" } },
+          ],
+          responses: {
+            "200": jsonResponse("The shipment", ref("ShipmentDetail")),
+            "404": { $ref: "#/components/responses/NotFound" },
+            ...errorResponses,
+          },
+        },
+      },
+      "/shipments/lookup": {
+        get: {
+          operationId: "lookupShipments",
+          summary: "Find shipments by reference",
+          parameters: [
+            {
+              name: "reference",
+              in: "query",
+              required: true,
+              description: `HAWB, MAWB, PO number, customer reference or WPL ID. Repeat the parameter or separate with commas; at most ${MAX_LOOKUP_REFERENCES}.`,
+              schema: { type: "array", items: { type: "string" } },
+              style: "form",
+              explode: true,
+            },
+          ],
+          responses: {
+            "200": jsonResponse("Matches per reference", ref("LookupResult")),
+            ...errorResponses,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: { error: { type: "string" }, code: { type: "string" } },
+        },
+        Shipment: {
+          type: "object",
+          properties: { ...SHIPMENT_FIELDS, latest_event_code: nullableString },
+        },
+        Event: {
+          type: "object",
+          properties: {
+            event_time: nullableDateTime,
+            event_code: nullableString,
+            notes: nullableString,
+            location: nullableString,
+            source_column: nullableString,
+          },
+        },
+        EtaRevision: {
+          type: "object",
+          properties: {
+            previous_eta: nullableDateTime,
+            eta: nullableDateTime,
+            changed_at: { type: "string", format: "date-time" },
+            shift_hours: { type: "number", nullable: true },
+          },
+        },
+        ShipmentList: {
+          type: "object",
+          properties: {
+            data: { type: "array", items: ref("Shipment") },
+            customers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { customer_id: { type: "string" }, count: { type: "integer" } },
+              },
+            },
+            total: { type: "integer" },
+            page: { type: "integer" },
+            pageSize: { type: "integer" },
+          },
+        },
+        ShipmentDetail: {
+          type: "object",
+          properties: {
+            shipment: { type: "object", properties: SHIPMENT_FIELDS },
+            events: { type: "array", items: ref("Event") },
+            eta_history: { type: "array", items: ref("EtaRevision") },
+          },
+        },
+        LookupResult: {
+          type: "object",
+          properties: {
+            matched: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  reference: { type: "string" },
+                  shipments: { type: "array", items: ref("Shipment") },
+                },
+              },
+            },
+            unmatched: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+      responses: {
+        BadRequest: jsonResponse("Invalid request", ref("Error")),
+        Unauthorized: jsonResponse("Missing, invalid or revoked API key", ref("Error")),
+        Forbidden: jsonResponse("Key lacks the scope or customer", ref("Error")),
+        NotFound: jsonResponse("Not found", ref("Error")),
+        TooManyRequests: {
+          ...jsonResponse("Rate limit exceeded", ref("Error")),
+          headers: { "Retry-After": { schema: { type: "integer" } } },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clientIpFromHeaders, getClientIp } from "@/lib/rateLimit";
+
+function request(headers: Record<string, string>) {
+  return new Request("http://portal.test/api/auth/passwordless", { headers });
+}
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("takes the address the proxy appended, not one the client sent", () => {
+    expect(getClientIp(request({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" }))).toBe("203.0.113.7");
+    expect(getClientIp(request({ "x-forwarded-for": "203.0.113.7" }))).toBe("203.0.113.7");
+  });
+
+  it("skips entries added by each trusted proxy hop", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+
+    const forwarded = "1.2.3.4, 203.0.113.7, 10.0.0.2";
+    expect(getClientIp(request({ "x-forwarded-for": forwarded }))).toBe("203.0.113.7");
+    // Fewer entries than hops: the leftmost is all there is
+    expect(getClientIp(request({ "x-forwarded-for": "203.0.113.7" }))).toBe("203.0.113.7");
+  });
+
+  it("prefers the platform's client IP header when one is configured", () => {
+    vi.stubEnv("CLIENT_IP_HEADER", "cf-connecting-ip");
+
+    const headers = { "x-forwarded-for": "1.2.3.4", "cf-connecting-ip": "203.0.113.7" };
+    expect(getClientIp(request(headers))).toBe("203.0.113.7");
+    expect(getClientIp(request({ "x-forwarded-for": "1.2.3.4" }))).toBe("unknown");
+  });
+
+  it("falls back to x-real-ip, then unknown", () => {
+    expect(getClientIp(request({ "x-real-ip": "203.0.113.7" }))).toBe("203.0.113.7");
+    expect(getClientIp(request({}))).toBe("unknown");
+  });
+
+  it("reads the same way from a bare Headers object, as pages get them", () => {
+    const headers = new Headers({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" });
+    expect(clientIpFromHeaders(headers)).toBe("203.0.113.7");
+  });
+});
@@ -0,0 +1,179 @@
+import { NextResponse } from "next/server";
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+};
+
+// Where limiter counts live. Process memory by default; a Redis-compatible
+// store shares the counts between server instances.
+export interface RateLimitStore {
+  // Counts a hit on `key` and returns the hits in its current fixed window
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+/**
+ * Fixed windows kept in process memory. Good enough for a single server
+ * instance; counts reset on restart.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      let entry = windows.get(key);
+
+      if (!entry || entry.resetAt <= now) {
+        // Drop expired windows now and then so the map doesn't grow forever
+        if (windows.size > 10_000) {
+          for (const [k, v] of windows) if (v.resetAt <= now) windows.delete(k);
+        }
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+
+      entry.count++;
+      return { count: entry.count, resetAt: entry.resetAt };
+    },
+  };
+}
+
+// Sends Redis commands as one pipeline and returns the replies in order
+export type RedisPipeline = (commands: (string | number)[][]) => Promise<unknown[]>;
+
+/**
+ * Fixed windows in Redis (or anything that speaks its commands). The key
+ * is created with its expiry, then incremented, so every instance sees
+ * the same window.
+ */
+export function createRedisRateLimitStore(
+  send: RedisPipeline,
+  prefix = "ratelimit:"
+): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const k = `${prefix}${key}`;
+      const [, count, ttl] = await send([
+        ["SET", k, 0, "PX", windowMs, "NX"],
+        ["INCR", k],
+        ["PTTL", k],
+      ]);
+      const ms = Number(ttl);
+      return { count: Number(count), resetAt: Date.now() + (ms > 0 ? ms : windowMs) };
+    },
+  };
+}
+
+/**
+ * RedisPipeline over the REST protocol Upstash and serverless-redis-http
+ * speak: POST {url}/pipeline with a JSON array of commands.
+ */
+export function createRestRedisPipeline(url: string, token: string): RedisPipeline {
+  const endpoint = `${url.replace(/\/$/, "")}/pipeline`;
+
+  return async (commands) => {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(commands),
+      cache: "no-store",
+    });
+    if (!res.ok) throw new Error(`Redis request failed with status ${res.status}`);
+
+    const replies: { result?: unknown; error?: string }[] = await res.json();
+    return replies.map((r) => {
+      if (r.error) throw new Error(r.error);
+      return r.result;
+    });
+  };
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+// RATE_LIMIT_REDIS_URL (+ RATE_LIMIT_REDIS_TOKEN) selects the Redis store
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    const url = process.env.RATE_LIMIT_REDIS_URL;
+    defaultStore = url
+      ? createRedisRateLimitStore(
+          createRestRedisPipeline(url, process.env.RATE_LIMIT_REDIS_TOKEN ?? "")
+        )
+      : createMemoryRateLimitStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Fixed-window limiter: at most `limit` hits per key per `windowMs`.
+ * `name` keeps its keys apart from other limiters in a shared store. If
+ * the store can't be reached the limiter falls back to process memory
+ * rather than failing the request.
+ */
+export function createRateLimiter({
+  name,
+  limit,
+  windowMs,
+  store,
+}: {
+  name: string;
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+}) {
+  const fallback = createMemoryRateLimitStore();
+
+  return async function check(key: string): Promise<RateLimitResult> {
+    const k = `${name}:${key}`;
+    let window: { count: number; resetAt: number };
+    try {
+      window = await (store ?? getRateLimitStore()).hit(k, windowMs);
+    } catch (err) {
+      console.error("Rate limit store error:", err);
+      window = await fallback.hit(k, windowMs);
+    }
+
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(0, limit - window.count),
+      resetAt: window.resetAt,
+    };
+  };
+}
+
+// 429 with Retry-After for a request the limiter turned away
+export function tooManyRequests(result: RateLimitResult) {
+  return NextResponse.json(
+    { error: "Too many requests. Please try again later." },
+    {
+      status: 429,
+      headers: { "Retry-After": String(Math.ceil((result.resetAt - Date.now()) / 1000)) },
+    }
+  );
+}
+
+/**
+ * The client IP from a request's headers. Clients can send any
+ * X-Forwarded-For they like and each proxy appends the address it saw, so
+ * only the entries our own proxies added can be trusted: the one
+ * TRUSTED_PROXY_HOPS (default 1) from the right. CLIENT_IP_HEADER names a
+ * header the platform sets instead (e.g. cf-connecting-ip), which takes
+ * precedence.
+ */
+export function clientIpFromHeaders(headers: Headers) {
+  const platformHeader = process.env.CLIENT_IP_HEADER;
+  if (platformHeader) return headers.get(platformHeader)?.trim() || "unknown";
+
+  const hops = Math.max(1, Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? "", 10) || 1);
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+
+  return forwarded[Math.max(0, forwarded.length - hops)] || headers.get("x-real-ip") || "unknown";
+}
+
+export function getClientIp(req: Request) {
+  return clientIpFromHeaders(req.headers);
+}
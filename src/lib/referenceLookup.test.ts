@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { lookupReferences, parseReferenceList } from "@/lib/referenceLookup";
+import { createSupabaseMock } from "@/test/supabaseMock";
+
+describe("lookupReferences", () => {
+  it("matches references exactly and without case, wildcards escaped", async () => {
+    const mock = createSupabaseMock({
+      tables: {
+        shipments: {
+          data: [
+            {
+              shipment_id: "WPL1",
+              customer_id: "ACME",
+              hawb: "hawb-123",
+              mawb: null,
+              po_number: "PO_7",
+              customer_reference: null,
+              current_status: null,
+              eta_slip_hours: null,
+            },
+          ],
+        },
+      },
+    });
+
+    const result = await lookupReferences(mock.client(), ["ACME"], ["HAWB-123", "PO_7", "X%"]);
+
+    const filter = mock.calls[0].ops.filter((op) => op.method === "or")[1].args[0];
+    expect(filter).toContain('hawb.ilike(any).{"HAWB-123","PO\\\\_7","X\\\\%"}');
+    expect(result.matched.map((m) => [m.reference, m.shipments[0].shipment_id])).toEqual([
+      ["HAWB-123", "WPL1"],
+      ["PO_7", "WPL1"],
+    ]);
+    expect(result.unmatched).toEqual(["X%"]);
+  });
+});
+
+describe("parseReferenceList", () => {
+  it("splits spreadsheet text and drops case-insensitive duplicates", () => {
+    expect(parseReferenceList('HAWB1\r\n"hawb1", PO-9;\t\nPO-10')).toEqual([
+      "HAWB1",
+      "PO-9",
+      "PO-10",
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { escapeLikePattern, type Shipment } from "@/lib/shipments";
+import {
+  SEARCH_COLUMNS,
+  SHIPMENT_LIST_COLUMNS,
+  customerFilter,
+  fetchEventSummaries,
+  quoteFilterValue,
+  withEventSummary,
+} from "@/lib/shipmentListQuery";
+
+export const MAX_LOOKUP_REFERENCES = 500;
+
+// References per round trip; keeps the or() filter well under URL limits.
+const LOOKUP_BATCH = 50;
+
+export type ReferenceMatch = {
+  reference: string;
+  shipments: Shipment[];
+};
+
+export type ReferenceLookupResponse = {
+  matched: ReferenceMatch[];
+  unmatched: string[];
+};
+
+/**
+ * Splits pasted text (one per line, or comma/semicolon/tab separated, as
+ * copied from a spreadsheet) into references, dropping blanks and
+ * case-insensitive duplicates while keeping the original order.
+ */
+export function parseReferenceList(text: string) {
+  const seen = new Set<string>();
+  const refs: string[] = [];
+  for (const raw of text.split(/[\r\n,;\t]+/)) {
+    const ref = raw.trim().replace(/^"(.*)"$/, "$1").trim();
+    const key = ref.toLowerCase();
+    if (!ref || seen.has(key)) continue;
+    seen.add(key);
+    refs.push(ref);
+  }
+  return refs;
+}
+
+/**
+ * Resolves each reference against HAWB, MAWB, PO, customer reference and
+ * WPL ID (exact match, case-insensitive) within the caller's customers.
+ * A reference can match several shipments, e.g. a PO split across HAWBs.
+ */
+export async function lookupReferences(
+  admin: SupabaseClient,
+  customerIds: string[],
+  references: string[]
+): Promise<ReferenceLookupResponse> {
+  const rows: Omit<
+    Shipment,
+    "latest_event_code" | "derived_status" | "milestone_index" | "delayed"
+  >[] = [];
+  const seenIds = new Set<string>();
+
+  for (let i = 0; i < references.length; i += LOOKUP_BATCH) {
+    const batch = references.slice(i, i + LOOKUP_BATCH);
+    // ilike(any) with no wildcards: an exact, case-insensitive match
+    // against any reference in the batch
+    const patterns = batch.map((r) => quoteFilterValue(escapeLikePattern(r))).join(",");
+
+    const { data, error } = await admin
+      .from("shipments")
+      .select(SHIPMENT_LIST_COLUMNS)
+      .or(customerFilter(customerIds))
+      .or(SEARCH_COLUMNS.map((c) => `${c}.ilike(any).{${patterns}}`).join(","));
+
+    if (error) throw new Error(error.message);
+
+    for (const row of data ?? []) {
+      if (seenIds.has(row.shipment_id)) continue;
+      seenIds.add(row.shipment_id);
+      rows.push(row);
+    }
+  }
+
+  const { summaries, error } = await fetchEventSummaries(
+    admin,
+    rows.map((r) => r.shipment_id)
+  );
+  if (error) throw new Error(error.message);
+
+  const shipments = withEventSummary(rows, summaries);
+
+  const matched: ReferenceMatch[] = [];
+  const unmatched: string[] = [];
+
+  for (const reference of references) {
+    const key = reference.toLowerCase();
+    const hits = shipments.filter((s) =>
+      SEARCH_COLUMNS.some((c) => s[c]?.toLowerCase() === key)
+    );
+    if (hits.length) matched.push({ reference, shipments: hits });
+    else unmatched.push(reference);
+  }
+
+  return { matched, unmatched };
+}
@@ -0,0 +1,275 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
+import { auditDenied, recordAudit } from "@/lib/audit";
+import { normalizeEmail } from "@/lib/email";
+import { createRateLimiter, getClientIp, tooManyRequests } from "@/lib/rateLimit";
+
+export type ServerEnv = {
+  supabaseUrl: string;
+  anonKey: string;
+  serviceKey: string;
+};
+
+// WPL staff roles, kept in the auth user's app_metadata.role (only the
+// service role can set it). Customer users have no role.
+export type PortalRole = "user" | "staff" | "admin";
+
+// Authenticator assurance level of the session: aal2 once a second
+// factor has been verified.
+export type AssuranceLevel = "aal1" | "aal2";
+
+export type RequestContext = {
+  user: User;
+  email: string;
+  role: PortalRole;
+  ip: string;
+  aal: AssuranceLevel;
+  // A customer the user belongs to requires MFA
+  mfaRequired: boolean;
+  // Server-side admin client. Only query customer data through the
+  // customerIds below or canAccessCustomer().
+  admin: SupabaseClient;
+  customerIds: string[];
+  canAccessCustomer: (customerId: string | null | undefined) => boolean;
+};
+
+// Every API error goes out as { error, code? } with the matching status.
+// `code` is set when the client needs to tell errors apart.
+export function apiError(status: number, error: string, code?: string) {
+  return NextResponse.json(code ? { error, code } : { error }, { status });
+}
+
+export const unauthorized = () => apiError(401, "Unauthorized");
+export const forbidden = (message = "No customer access") => apiError(403, message);
+export const accessRevoked = () =>
+  apiError(403, "Your access to the portal has been revoked.", "access_revoked");
+export const mfaRequired = () =>
+  apiError(403, "Two-factor authentication is required.", "mfa_required");
+
+export function getServerEnv(): ServerEnv | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !anonKey || !serviceKey) return null;
+  return { supabaseUrl, anonKey, serviceKey };
+}
+
+export function getBearerToken(req: Request) {
+  const authHeader = req.headers.get("authorization") || "";
+  return authHeader.toLowerCase().startsWith("bearer ")
+    ? authHeader.slice(7).trim()
+    : "";
+}
+
+export function createAdminClient(env: ServerEnv) {
+  return createClient(env.supabaseUrl, env.serviceKey, {
+    auth: { persistSession: false },
+  });
+}
+
+// Client that acts as the token's user (used to verify it)
+export function createUserClient(env: ServerEnv, token: string) {
+  return createClient(env.supabaseUrl, env.anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+}
+
+// The `aal` claim of an access token. Only read after Supabase Auth has
+// verified the token.
+export function getTokenAal(token: string): AssuranceLevel {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString());
+    return payload.aal === "aal2" ? "aal2" : "aal1";
+  } catch {
+    return "aal1";
+  }
+}
+
+export function hasVerifiedFactor(user: User) {
+  return !!user.factors?.some((f) => f.status === "verified");
+}
+
+export function getPortalRole(user: User): PortalRole {
+  const role = user.app_metadata?.role;
+  return role === "admin" || role === "staff" ? role : "user";
+}
+
+// WPL staff (including admins) can manage shipment data such as documents.
+export function isStaffRole(role: PortalRole) {
+  return role === "staff" || role === "admin";
+}
+
+/**
+ * Verifies the request's Bearer token and loads the caller's customer
+ * active customer memberships. Sessions that haven't completed a required
+ * second factor get 403 mfa_required. Returns a NextResponse (401/403/500)
+ * when the request can't proceed; routes should return it as-is.
+ */
+export async function getRequestContext(
+  req: Request
+): Promise<RequestContext | NextResponse> {
+  const env = getServerEnv();
+  if (!env) {
+    return apiError(500, "Server env missing");
+  }
+
+  // 1) Read Bearer token
+  const token = getBearerToken(req);
+  if (!token) {
+    return unauthorized();
+  }
+
+  return resolveRequestContext(env, token, {
+    ip: getClientIp(req),
+    target: new URL(req.url).pathname,
+  });
+}
+
+/**
+ * Shared by getRequestContext and server-rendered pages (which read the
+ * token from the session cookie): verifies `token`, then applies the
+ * allowlist. `target` is what denied-access audit records point at.
+ */
+export async function resolveRequestContext(
+  env: ServerEnv,
+  token: string,
+  { ip, target }: { ip: string; target: string }
+): Promise<RequestContext | NextResponse> {
+  // Server-side admin client for allowlist, audit + data fetch
+  const admin = createAdminClient(env);
+
+  // 2) Verify token -> get user (this proves the token is real)
+  const authed = createUserClient(env, token);
+  const {
+    data: { user },
+    error: userErr,
+  } = await authed.auth.getUser();
+
+  if (userErr || !user?.email) {
+    await recordAudit(admin, {
+      action: "access.denied",
+      actor_email: null,
+      target,
+      ip,
+      details: { reason: "invalid_token" },
+    });
+    return unauthorized();
+  }
+
+  // 3) Allowlist (stored lowercase)
+  const email = normalizeEmail(user.email);
+  const { data: memberships, error: membershipError } = await admin
+    .from("allowed_users")
+    .select("customer_id, is_active, require_mfa")
+    .eq("email", email);
+
+  if (membershipError) {
+    return apiError(500, membershipError.message);
+  }
+
+  const active = (memberships ?? []).filter((m) => m.is_active);
+
+  // Deactivated in allowed_users: cut off access even though the auth
+  // account (and its token) still exists.
+  if (memberships?.length && active.length === 0) {
+    await recordAudit(admin, {
+      action: "access.denied",
+      actor_email: user.email,
+      target,
+      ip,
+      details: { reason: "access_revoked" },
+    });
+    return accessRevoked();
+  }
+
+  // MFA: required by one of the user's customers, or opted into by
+  // enrolling a factor. Either way the session must have verified it.
+  const aal = getTokenAal(token);
+  const requireMfa = active.some((m) => m.require_mfa);
+  if ((requireMfa || hasVerifiedFactor(user)) && aal !== "aal2") {
+    await recordAudit(admin, {
+      action: "access.denied",
+      actor_email: user.email,
+      target,
+      ip,
+      details: { reason: "mfa_required" },
+    });
+    return mfaRequired();
+  }
+
+  const customerIds: string[] = active
+    .map((m) => m.customer_id)
+    .filter(Boolean);
+  const allowed = new Set(customerIds.map((id) => id.toLowerCase()));
+
+  return {
+    user,
+    email,
+    role: getPortalRole(user),
+    ip,
+    aal,
+    mfaRequired: requireMfa,
+    admin,
+    customerIds,
+    canAccessCustomer: (customerId) =>
+      !!customerId && allowed.has(customerId.toLowerCase()),
+  };
+}
+
+// getRequestContext for /api/admin routes: also requires the admin role.
+export async function getAdminContext(
+  req: Request
+): Promise<RequestContext | NextResponse> {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  if (ctx.role !== "admin") {
+    await auditDenied(ctx, "not_admin", { target: new URL(req.url).pathname });
+    return forbidden("Admin access required");
+  }
+  return ctx;
+}
+
+// getRequestContext for WPL staff tools: requires the staff or admin role.
+export async function getStaffContext(
+  req: Request
+): Promise<RequestContext | NextResponse> {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  if (!isStaffRole(ctx.role)) {
+    await auditDenied(ctx, "not_staff", { target: new URL(req.url).pathname });
+    return forbidden("WPL staff access required");
+  }
+  return ctx;
+}
+
+// Requests per user per minute on the shipment APIs;
+// PORTAL_API_RATE_LIMIT_PER_MINUTE overrides it
+function portalApiLimitPerMinute() {
+  const n = Number(process.env.PORTAL_API_RATE_LIMIT_PER_MINUTE);
+  return Number.isFinite(n) && n > 0 ? n : 300;
+}
+
+const shipmentsLimiter = createRateLimiter({
+  name: "shipments-api",
+  limit: portalApiLimitPerMinute(),
+  windowMs: 60_000,
+});
+
+// getRequestContext for the shipment APIs: also rate limited per user.
+export async function getShipmentsContext(
+  req: Request
+): Promise<RequestContext | NextResponse> {
+  const ctx = await getRequestContext(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const limit = await shipmentsLimiter(ctx.user.id);
+  if (!limit.allowed) {
+    await auditDenied(ctx, "rate_limited", { target: new URL(req.url).pathname });
+    return tooManyRequests(limit);
+  }
+  return ctx;
+}
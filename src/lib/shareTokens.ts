@@ -0,0 +1,35 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const SHARE_TOKEN_COLUMNS = "id, shipment_id, created_by, expires_at, revoked_at, created_at";
+
+export const MAX_SHARE_DAYS = 90;
+
+// Only the hash is stored, so a leaked table can't be used to open links.
+export function hashShareToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateShareToken() {
+  const token = randomBytes(24).toString("base64url");
+  return { token, tokenHash: hashShareToken(token) };
+}
+
+/**
+ * Returns the shipment id a token grants access to, or null when the token
+ * is unknown, revoked or expired.
+ */
+export async function resolveShareToken(admin: SupabaseClient, token: string) {
+  const { data, error } = await admin
+    .from("shipment_share_tokens")
+    .select("shipment_id, expires_at, revoked_at")
+    .eq("token_hash", hashShareToken(token))
+    .maybeSingle();
+
+  if (error) return { shipmentId: null, error };
+  if (!data || data.revoked_at || new Date(data.expires_at).getTime() <= Date.now()) {
+    return { shipmentId: null, error: null };
+  }
+
+  return { shipmentId: data.shipment_id as string, error: null };
+}
@@ -0,0 +1,259 @@
+import {
+  createClient,
+  type RealtimeChannel,
+  type RealtimePostgresChangesPayload,
+  type SupabaseClient,
+  type SupabaseClientOptions,
+} from "@supabase/supabase-js";
+import ws from "ws";
+import type { RequestContext, ServerEnv } from "@/lib/requestContext";
+
+export type ShipmentChange = {
+  table: "shipments" | "events";
+  type: "INSERT" | "UPDATE" | "DELETE";
+  shipment_id: string;
+  customer_id: string | null;
+  event_code?: string | null;
+  event_time?: string | null;
+};
+
+type ChangedRow = {
+  shipment_id?: string;
+  customer_id?: string | null;
+  event_code?: string | null;
+  event_time?: string | null;
+};
+
+type ChangeListener = {
+  onReady: () => void;
+  onChange: (change: ShipmentChange) => void;
+  onError: () => void;
+};
+
+// Node 20 has no global WebSocket; Realtime needs one supplied. ws is
+// what Realtime documents for this, though its typings (Node-style event
+// objects) don't match the DOM-shaped transport type.
+type RealtimeTransport = NonNullable<
+  NonNullable<SupabaseClientOptions<"public">["realtime"]>["transport"]
+>;
+const transport = ws as RealtimeTransport;
+
+// Keeps proxies and load balancers from closing an idle stream
+const HEARTBEAT_MS = 25_000;
+// How often an open stream re-checks the caller's token and allowlist
+const REAUTHORIZE_MS = 60_000;
+// Shipment owners remembered for events rows, which carry no customer_id
+const MAX_OWNERS = 10_000;
+
+/**
+ * One Realtime subscription per process, shared by every open stream.
+ * Changes are resolved to their shipment's customer once, then handed to
+ * each listener to scope. The channel is dropped when the last listener
+ * leaves.
+ */
+function createChangeHub(env: ServerEnv) {
+  const client = createClient(env.supabaseUrl, env.serviceKey, {
+    auth: { persistSession: false },
+    realtime: { transport },
+  });
+  const listeners = new Set<ChangeListener>();
+  let channel: RealtimeChannel | null = null;
+  let ready = false;
+
+  const owners = new Map<string, string | null>();
+  let pending = new Map<string, ((owner: string | null) => void)[]>();
+  let flushScheduled = false;
+
+  function remember(id: string, owner: string | null) {
+    owners.delete(id);
+    owners.set(id, owner);
+    if (owners.size > MAX_OWNERS) owners.delete(owners.keys().next().value!);
+  }
+
+  // Looks up every owner requested in the same tick with one query
+  async function flushOwners(admin: SupabaseClient) {
+    const batch = pending;
+    pending = new Map();
+    flushScheduled = false;
+
+    const { data, error } = await admin
+      .from("shipments")
+      .select("shipment_id, customer_id")
+      .in("shipment_id", [...batch.keys()]);
+    if (error) console.error("Shipment change stream owner lookup:", error.message);
+
+    const found = new Map((data ?? []).map((s) => [s.shipment_id, s.customer_id]));
+    for (const [id, waiters] of batch) {
+      const owner = found.get(id) ?? null;
+      if (!error) remember(id, owner);
+      for (const resolve of waiters) resolve(owner);
+    }
+  }
+
+  function ownerOf(id: string) {
+    if (owners.has(id)) return Promise.resolve(owners.get(id) ?? null);
+    return new Promise<string | null>((resolve) => {
+      pending.set(id, [...(pending.get(id) ?? []), resolve]);
+      if (!flushScheduled) {
+        flushScheduled = true;
+        setTimeout(() => flushOwners(client), 0);
+      }
+    });
+  }
+
+  const onChange =
+    (table: ShipmentChange["table"]) =>
+    async (payload: RealtimePostgresChangesPayload<ChangedRow>) => {
+      const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as ChangedRow;
+      if (!row?.shipment_id) return;
+
+      let customerId: string | null;
+      if (table === "shipments" && row.customer_id !== undefined) {
+        customerId = row.customer_id;
+        if (payload.eventType === "DELETE") owners.delete(row.shipment_id);
+        else remember(row.shipment_id, customerId);
+      } else {
+        customerId = await ownerOf(row.shipment_id);
+      }
+
+      const change: ShipmentChange = {
+        table,
+        type: payload.eventType,
+        shipment_id: row.shipment_id,
+        customer_id: customerId,
+        ...(table === "events"
+          ? { event_code: row.event_code ?? null, event_time: row.event_time ?? null }
+          : {}),
+      };
+      for (const listener of listeners) listener.onChange(change);
+    };
+
+  function open() {
+    ready = false;
+    const opened: RealtimeChannel = client
+      .channel("shipment-changes")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "shipments" },
+        onChange("shipments")
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "events" },
+        onChange("events")
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          ready = true;
+          for (const listener of listeners) listener.onReady();
+        }
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.error("Shipment change stream:", status);
+          // Streams close and their clients reconnect to a fresh channel
+          if (channel === opened) channel = null;
+          client.removeChannel(opened).catch(() => {});
+          for (const listener of [...listeners]) listener.onError();
+        }
+      });
+    channel = opened;
+  }
+
+  return {
+    subscribe(listener: ChangeListener) {
+      listeners.add(listener);
+      if (!channel) open();
+      else if (ready) listener.onReady();
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && channel) {
+          client.removeChannel(channel).catch(() => {});
+          channel = null;
+        }
+      };
+    },
+  };
+}
+
+let hub: ReturnType<typeof createChangeHub> | null = null;
+
+function getChangeHub(env: ServerEnv) {
+  hub ??= createChangeHub(env);
+  return hub;
+}
+
+/**
+ * Server-sent-events stream of shipments/events row changes, filtered to
+ * the caller's customers (and to one shipment when shipmentId is set).
+ * Listens on the process's shared Realtime subscription with the service
+ * role, so scoping happens here rather than through RLS. `reauthorize`
+ * re-runs the caller's access check every REAUTHORIZE_MS; the stream
+ * closes as soon as it fails, and picks up narrowed access otherwise.
+ */
+export function streamShipmentChanges(
+  ctx: RequestContext,
+  env: ServerEnv,
+  {
+    shipmentId,
+    signal,
+    reauthorize,
+  }: {
+    shipmentId: string | null;
+    signal: AbortSignal;
+    reauthorize: () => Promise<RequestContext | null>;
+  }
+) {
+  const encoder = new TextEncoder();
+  let current = ctx;
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+        }
+      };
+
+      const close = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      const unsubscribe = getChangeHub(env).subscribe({
+        onReady: () => send("event: ready\ndata: {}\n\n"),
+        onChange: (change) => {
+          if (shipmentId && change.shipment_id !== shipmentId) return;
+          if (!current.canAccessCustomer(change.customer_id)) return;
+          send(`event: change\ndata: ${JSON.stringify(change)}\n\n`);
+        },
+        onError: close,
+      });
+
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      const recheck = setInterval(async () => {
+        const next = await reauthorize().catch(() => null);
+        if (next) current = next;
+        else close();
+      }, REAUTHORIZE_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        clearInterval(recheck);
+        signal.removeEventListener("abort", cleanup);
+        unsubscribe();
+      };
+      signal.addEventListener("abort", cleanup);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
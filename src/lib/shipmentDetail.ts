@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { apiError, forbidden, type RequestContext } from "@/lib/requestContext";
+import { auditAccess, auditDenied } from "@/lib/audit";
+import { fetchEtaHistory, isDelayed, type EtaRevision } from "@/lib/etaHistory";
+import {
+  furthestMilestoneIndex,
+  shipmentProgress,
+  type ShipmentProgress,
+} from "@/lib/eventCodes";
+
+export type ShipmentDetail = {
+  shipment_id: string;
+  customer_id: string | null;
+  hawb: string | null;
+  mawb: string | null;
+  po_number: string | null;
+  customer_reference: string | null;
+  origin: string | null;
+  destination: string | null;
+  current_status: string | null;
+  eta_updated: string | null;
+  original_eta: string | null;
+  eta_slip_hours: number | null;
+  last_event_time: string | null;
+  delayed: boolean;
+} & ShipmentProgress;
+
+export type EventRow = {
+  event_time: string | null;
+  event_code: string | null;
+  notes: string | null;
+  location: string | null;
+  source_column: string | null;
+};
+
+export type ShipmentRow = Omit<ShipmentDetail, keyof ShipmentProgress | "delayed">;
+
+export const SHIPMENT_DETAIL_COLUMNS =
+  "shipment_id, hawb, mawb, po_number, customer_reference, origin, destination, current_status, eta_updated, original_eta, eta_slip_hours, last_event_time, customer_id";
+
+/**
+ * Loads one shipment after checking the caller may see its customer.
+ * Returns a NextResponse (403/404/500) when it can't be shown.
+ */
+export async function loadAccessibleShipment(
+  ctx: RequestContext,
+  shipmentId: string
+): Promise<ShipmentRow | NextResponse> {
+  if (ctx.customerIds.length === 0) {
+    await auditDenied(ctx, "no_customer_access", { target: shipmentId });
+    return forbidden();
+  }
+
+  // Fetch the shipment
+  const { data: shipment, error: shipmentError } = await ctx.admin
+    .from("shipments")
+    .select(SHIPMENT_DETAIL_COLUMNS)
+    .eq("shipment_id", shipmentId)
+    .maybeSingle();
+
+  if (shipmentError) {
+    return apiError(500, shipmentError.message);
+  }
+
+  if (!shipment) {
+    return apiError(404, "Shipment not found");
+  }
+
+  // Verify user has access to this shipment's customer
+  if (!ctx.canAccessCustomer(shipment.customer_id)) {
+    await auditDenied(ctx, "customer_not_allowed", {
+      customer_id: shipment.customer_id,
+      target: shipmentId,
+    });
+    return forbidden("You don't have access to this shipment");
+  }
+
+  return shipment;
+}
+
+/**
+ * Adds the shipment's events (latest first), plus derived_status and
+ * milestone_index computed from them and the delayed flag.
+ */
+export async function withEvents(
+  admin: SupabaseClient,
+  shipment: ShipmentRow
+): Promise<{ shipment: ShipmentDetail; events: EventRow[] } | NextResponse> {
+  const { data: events, error: eventsError } = await admin
+    .from("events")
+    .select("event_time, event_code, notes, location, source_column")
+    .eq("shipment_id", shipment.shipment_id)
+    .order("event_time", { ascending: false });
+
+  if (eventsError) {
+    return apiError(500, eventsError.message);
+  }
+
+  const rows = events ?? [];
+  return {
+    shipment: {
+      ...shipment,
+      ...shipmentProgress(
+        furthestMilestoneIndex(rows.map((e) => e.event_code)),
+        shipment.current_status
+      ),
+      delayed: isDelayed(shipment.eta_slip_hours),
+    },
+    events: rows,
+  };
+}
+
+export async function loadShipmentDetail(ctx: RequestContext, shipmentId: string) {
+  const shipment = await loadAccessibleShipment(ctx, shipmentId);
+  if (shipment instanceof NextResponse) return shipment;
+
+  return withEvents(ctx.admin, shipment);
+}
+
+export type ShipmentView = {
+  shipment: ShipmentDetail;
+  events: EventRow[];
+  eta_history: EtaRevision[];
+};
+
+// What the detail page shows (as /api/shipments/[id] returns it), audited
+// as a view.
+export async function loadShipmentView(
+  ctx: RequestContext,
+  shipmentId: string
+): Promise<ShipmentView | NextResponse> {
+  const detail = await loadShipmentDetail(ctx, shipmentId);
+  if (detail instanceof NextResponse) return detail;
+
+  const { history, error } = await fetchEtaHistory(ctx.admin, shipmentId);
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "shipment.view", {
+    customer_id: detail.shipment.customer_id,
+    target: shipmentId,
+  });
+
+  return { ...detail, eta_history: history };
+}
@@ -0,0 +1,165 @@
+import { PassThrough, Readable } from "node:stream";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import ExcelJS from "exceljs";
+import { getReference, type ShipmentListParams } from "@/lib/shipments";
+import {
+  buildShipmentListQuery,
+  fetchEventSummaries,
+  withEventSummary,
+} from "@/lib/shipmentListQuery";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export function isExportFormat(v: string): v is ExportFormat {
+  return v === "csv" || v === "xlsx";
+}
+
+type ExportValue = string | Date | null;
+
+const EXPORT_COLUMNS = [
+  { key: "reference", header: "Reference", width: 20 },
+  { key: "shipment_id", header: "WPL ID", width: 16 },
+  { key: "customer_id", header: "Customer", width: 14 },
+  { key: "hawb", header: "HAWB", width: 16 },
+  { key: "mawb", header: "MAWB", width: 16 },
+  { key: "po_number", header: "PO Number", width: 16 },
+  { key: "customer_reference", header: "Customer Reference", width: 20 },
+  { key: "origin", header: "Origin", width: 14 },
+  { key: "destination", header: "Destination", width: 14 },
+  { key: "status", header: "Status", width: 18 },
+  { key: "delayed", header: "Delayed", width: 10 },
+  { key: "latest_event_code", header: "Latest Event", width: 18 },
+  { key: "original_eta", header: "Original ETA", width: 14 },
+  { key: "eta_updated", header: "ETA", width: 14 },
+  { key: "last_event_time", header: "Last Update", width: 20 },
+] as const;
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number]["key"], ExportValue>;
+
+// Rows fetched per round trip while walking the full result set
+const EXPORT_BATCH = 500;
+
+function toDate(v: string | null) {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Walks every shipment matching the list params (same scoping, filters and
+ * sort as GET /api/shipments) and yields one export row per shipment.
+ */
+async function* exportRows(
+  admin: SupabaseClient,
+  customerIds: string[],
+  params: ShipmentListParams
+): AsyncGenerator<ExportRow> {
+  for (let offset = 0; ; offset += EXPORT_BATCH) {
+    const { data, error } = await buildShipmentListQuery(
+      admin,
+      customerIds,
+      params
+    ).range(offset, offset + EXPORT_BATCH - 1);
+
+    if (error) throw new Error(error.message);
+
+    const rows = data ?? [];
+    const { summaries, error: eventsError } = await fetchEventSummaries(
+      admin,
+      rows.map((s) => s.shipment_id)
+    );
+
+    if (eventsError) throw new Error(eventsError.message);
+
+    for (const s of withEventSummary(rows, summaries)) {
+      yield {
+        reference: getReference(s),
+        shipment_id: s.shipment_id,
+        customer_id: s.customer_id,
+        hawb: s.hawb,
+        mawb: s.mawb,
+        po_number: s.po_number,
+        customer_reference: s.customer_reference,
+        origin: s.origin,
+        destination: s.destination,
+        status: s.derived_status,
+        delayed: s.delayed ? "Yes" : null,
+        latest_event_code: s.latest_event_code,
+        original_eta: toDate(s.original_eta),
+        eta_updated: toDate(s.eta_updated),
+        last_event_time: toDate(s.last_event_time),
+      };
+    }
+
+    if (rows.length < EXPORT_BATCH) return;
+  }
+}
+
+function csvCell(v: ExportValue) {
+  let text = v instanceof Date ? v.toISOString() : (v ?? "");
+  // Keep spreadsheet apps from evaluating cell contents as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: ExportValue[]) {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+function csvStream(rows: AsyncGenerator<ExportRow>) {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(csvLine(EXPORT_COLUMNS.map((c) => c.header))));
+    },
+    async pull(controller) {
+      const { value, done } = await rows.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(csvLine(EXPORT_COLUMNS.map((c) => value[c.key]))));
+    },
+    async cancel() {
+      await rows.return(undefined);
+    },
+  });
+}
+
+function xlsxStream(rows: AsyncGenerator<ExportRow>) {
+  const out = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out });
+  const sheet = workbook.addWorksheet("Shipments");
+  sheet.columns = EXPORT_COLUMNS.map((c) => ({ ...c }));
+
+  (async () => {
+    try {
+      for await (const row of rows) {
+        sheet.addRow(row).commit();
+      }
+      sheet.commit();
+      await workbook.commit();
+    } catch (err) {
+      console.error("Shipment export failed:", err);
+      out.destroy(err instanceof Error ? err : new Error(String(err)));
+    }
+  })();
+
+  return Readable.toWeb(out) as ReadableStream<Uint8Array>;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function exportShipments(
+  admin: SupabaseClient,
+  customerIds: string[],
+  params: ShipmentListParams,
+  format: ExportFormat
+) {
+  const rows = exportRows(admin, customerIds, params);
+  return format === "xlsx" ? xlsxStream(rows) : csvStream(rows);
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  batchCustomerIds,
+  canSeeImportBatch,
+  importBatchScope,
+  rollbackImport,
+  type BatchChange,
+} from "@/lib/shipmentImport";
+import { createSupabaseMock, type QueryCall } from "@/test/supabaseMock";
+
+const BEFORE = {
+  shipment_id: "WPL1",
+  customer_id: "ACME",
+  hawb: null,
+  mawb: null,
+  po_number: "PO-OLD",
+  customer_reference: null,
+  origin: "SHA",
+  destination: "LAX",
+  eta_updated: null as string | null,
+  original_eta: null as string | null,
+  current_status: "In Transit",
+  last_event_time: "2026-10-01T00:00:00.000Z",
+};
+
+function change(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    shipment_id: "WPL1",
+    action: "update",
+    before: BEFORE,
+    changes: { po_number: { from: "PO-OLD", to: "PO-NEW" } },
+    event_count: 0,
+    ...overrides,
+  };
+}
+
+function has(call: QueryCall, method: string) {
+  return call.ops.some((op) => op.method === method);
+}
+
+function setup({
+  changes = [change()],
+  current = { ...BEFORE, po_number: "PO-NEW" },
+  later = [] as unknown[],
+  events = [] as unknown[],
+} = {}) {
+  return createSupabaseMock({
+    tables: {
+      import_batch_changes: (call) => {
+        if (has(call, "gt")) return { data: later };
+        const [from, to] = call.ops.find((op) => op.method === "range")!.args as number[];
+        return { data: changes.slice(from, to + 1) };
+      },
+      shipments: (call) => (has(call, "select") ? { data: [current] } : {}),
+      events: (call) => (has(call, "select") ? { data: events } : {}),
+    },
+  });
+}
+
+function writes(mock: ReturnType<typeof createSupabaseMock>) {
+  return mock.calls.filter((c) => has(c, "update") || has(c, "delete"));
+}
+
+describe("rollbackImport", () => {
+  it("restores only the fields the batch changed", async () => {
+    const mock = setup();
+
+    const result = await rollbackImport(mock.client(), "batch-1");
+
+    expect(result).toEqual({ shipments: 1, conflicts: [] });
+    const restore = mock.calls.find((c) => c.name === "shipments" && has(c, "update"))!;
+    expect(restore.ops[0]).toEqual({ method: "update", args: [{ po_number: "PO-OLD" }] });
+  });
+
+  it("puts back the original ETA a first ETA set", async () => {
+    const eta = "2026-11-01T00:00:00.000Z";
+    const mock = setup({
+      changes: [change({ changes: { eta_updated: { from: null, to: eta } } })],
+      current: { ...BEFORE, eta_updated: eta, original_eta: eta },
+    });
+
+    await rollbackImport(mock.client(), "batch-1");
+
+    const restore = mock.calls.find((c) => c.name === "shipments" && has(c, "update"))!;
+    expect(restore.ops[0].args[0]).toEqual({ eta_updated: null, original_eta: null });
+  });
+
+  it("refuses when a field was edited after the import", async () => {
+    const mock = setup({ current: { ...BEFORE, po_number: "PO-EDITED" } });
+
+    const result = await rollbackImport(mock.client(), "batch-1");
+
+    expect(result.conflicts).toEqual([
+      { shipment_id: "WPL1", reason: "po_number was edited after the import" },
+    ]);
+    expect(writes(mock)).toEqual([]);
+  });
+
+  it("refuses when a later import touched the shipment", async () => {
+    const mock = setup({
+      later: [{ id: 9, shipment_id: "WPL1", import_batches: { filename: "week-43.xlsx" } }],
+    });
+
+    const result = await rollbackImport(mock.client(), "batch-1");
+
+    expect(result.conflicts).toEqual([
+      { shipment_id: "WPL1", reason: "Changed by a later import (week-43.xlsx)" },
+    ]);
+    expect(writes(mock)).toEqual([]);
+  });
+
+  it("refuses when a created shipment has events from elsewhere", async () => {
+    const mock = setup({
+      changes: [change({ action: "insert", before: null })],
+      events: [{ shipment_id: "WPL1", event_time: "2026-10-10T00:00:00Z" }],
+    });
+
+    const result = await rollbackImport(mock.client(), "batch-1");
+
+    expect(result.conflicts.map((c) => c.reason)).toEqual(["Has events added after the import"]);
+    expect(writes(mock)).toEqual([]);
+  });
+
+  it("rolls back over conflicts when forced", async () => {
+    const mock = setup({ current: { ...BEFORE, po_number: "PO-EDITED" } });
+
+    const result = await rollbackImport(mock.client(), "batch-1", { force: true });
+
+    expect(result.shipments).toBe(1);
+    expect(result.conflicts).toHaveLength(1);
+    const restore = writes(mock).find((c) => c.name === "shipments")!;
+    expect(restore.ops[0]).toEqual({ method: "update", args: [{ po_number: "PO-OLD" }] });
+  });
+
+  it("reads every change of a large batch a page at a time", async () => {
+    const changes = Array.from({ length: 1001 }, (_, i) =>
+      change({ id: i + 1, shipment_id: `WPL${i}`, changes: {} })
+    );
+    const mock = setup({ changes });
+
+    const result = await rollbackImport(mock.client(), "batch-1", { force: true });
+
+    expect(result.shipments).toBe(1001);
+    const pages = mock.calls.filter((c) => c.name === "import_batch_changes" && has(c, "eq"));
+    expect(pages.map((c) => c.ops.find((op) => op.method === "range")!.args)).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+  });
+});
+
+describe("import batch scoping", () => {
+  const ctx = {
+    email: "sam@wpl.test",
+    customerIds: ["ACME"],
+    canAccessCustomer: (id: string | null | undefined) => id?.toLowerCase() === "acme",
+  };
+
+  it("collects the customers a batch created or changed shipments for", () => {
+    const changes = [
+      change(),
+      change({ shipment_id: "WPL2", before: { ...BEFORE, customer_id: "acme" } }),
+      change({
+        shipment_id: "WPL3",
+        action: "insert",
+        before: null,
+        changes: { customer_id: { from: null, to: "Globex" } },
+      }),
+    ] as BatchChange[];
+
+    expect(batchCustomerIds(changes)).toEqual(["acme", "globex"]);
+  });
+
+  it("shows a batch to its uploader, or to staff with all of its customers", () => {
+    const batch = { created_by: "other@wpl.test", customer_ids: ["acme"] };
+
+    expect(canSeeImportBatch(ctx, batch)).toBe(true);
+    expect(canSeeImportBatch(ctx, { ...batch, customer_ids: ["acme", "globex"] })).toBe(false);
+    // Unpreviewed drafts refer to no known customers yet
+    expect(canSeeImportBatch(ctx, { ...batch, customer_ids: [] })).toBe(false);
+    expect(canSeeImportBatch(ctx, { created_by: ctx.email, customer_ids: ["globex"] })).toBe(true);
+  });
+
+  it("filters the batch list the same way", () => {
+    expect(importBatchScope(ctx)).toBe(
+      'created_by.eq."sam@wpl.test",and(customer_ids.neq.{},customer_ids.cd.{"acme"})'
+    );
+  });
+});
@@ -0,0 +1,539 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { canonicalEventCode, findMilestone, normalizeEventCode } from "@/lib/eventCodes";
+import { advanceShipments, eventDedupeKey } from "@/lib/eventIngestion";
+import {
+  IMPORT_FIELDS,
+  mappingError,
+  type FieldChange,
+  type ImportField,
+  type ImportMapping,
+  type ImportPlan,
+  type PlannedEvent,
+  type PlannedShipment,
+  type RollbackConflict,
+} from "@/lib/importMapping";
+import type { RequestContext } from "@/lib/requestContext";
+import { quoteFilterValue } from "@/lib/shipmentListQuery";
+import type { SheetData } from "@/lib/spreadsheet";
+
+// Shipment state saved before an import touches it, restored on rollback
+const SNAPSHOT_COLUMNS =
+  "shipment_id, customer_id, hawb, mawb, po_number, customer_reference, origin, destination, eta_updated, original_eta, current_status, last_event_time";
+
+type ShipmentSnapshot = Record<Exclude<ImportField, "shipment_id">, string | null> & {
+  shipment_id: string;
+  original_eta: string | null;
+  last_event_time: string | null;
+};
+
+const DATE_FIELDS = new Set<ImportField>(["eta_updated"]);
+
+// Keeps in() filters well under URL length limits
+const CHUNK = 200;
+
+function chunks<T>(items: T[], size = CHUNK) {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE = 1000;
+
+// Reads every row of a query a page at a time; `page` must apply a stable
+// order so pages don't overlap.
+async function selectAll<T>(
+  page: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await page(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < PAGE) return rows;
+  }
+}
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * Reads a spreadsheet date: ISO timestamps, YYYY-MM-DD, MM/DD/YYYY or an
+ * Excel serial number. Returns an ISO string, or null when unreadable.
+ */
+export function parseImportDate(v: string): string | null {
+  const text = v.trim();
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = Number(text);
+    // Only serials between 1954 and 2119, so IDs aren't read as dates
+    if (serial < 20000 || serial > 80000) return null;
+    return new Date(EXCEL_EPOCH + Math.round(serial * 86400000)).toISOString();
+  }
+
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) {
+    const date = new Date(Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2])));
+    return date.getUTCDate() === Number(us[2]) ? date.toISOString() : null;
+  }
+
+  const time = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00.000Z` : text);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function sameValue(field: ImportField, a: string | null, b: string) {
+  if (a === null) return false;
+  return DATE_FIELDS.has(field) ? Date.parse(a) === Date.parse(b) : a === b;
+}
+
+type ParsedRow = {
+  row: number;
+  shipment_id: string;
+  values: Partial<Record<ImportField, string>>;
+  events: PlannedEvent[];
+};
+
+function parseRows(sheet: SheetData, mapping: ImportMapping) {
+  const column = (header: string) => sheet.headers.indexOf(header);
+  const errors: ImportPlan["errors"] = [];
+  const parsed: ParsedRow[] = [];
+  const seenIds = new Set<string>();
+
+  sheet.rows.forEach((cells, i) => {
+    const row = i + 1;
+    const fail = (error: string) => errors.push({ row, error });
+
+    const shipmentId = cells[column(mapping.fields.shipment_id!)] ?? "";
+    if (!shipmentId) return fail("WPL ID is empty");
+    if (seenIds.has(shipmentId)) return fail(`WPL ID ${shipmentId} appears more than once`);
+    seenIds.add(shipmentId);
+
+    const values: ParsedRow["values"] = {};
+    for (const { key, label } of IMPORT_FIELDS) {
+      const header = mapping.fields[key];
+      const cell = header ? (cells[column(header)] ?? "") : "";
+      // Blank cells leave the existing value alone
+      if (key === "shipment_id" || !cell) continue;
+
+      if (DATE_FIELDS.has(key)) {
+        const date = parseImportDate(cell);
+        if (!date) return fail(`${label} "${cell}" is not a date`);
+        values[key] = date;
+      } else {
+        values[key] = cell;
+      }
+    }
+
+    const events: PlannedEvent[] = [];
+    for (const { column: header, event_code } of mapping.events) {
+      const cell = cells[column(header)] ?? "";
+      if (!cell) continue;
+      const time = parseImportDate(cell);
+      if (!time) return fail(`${header} "${cell}" is not a date`);
+      events.push({
+        event_code: canonicalEventCode(event_code)!,
+        event_time: time,
+        source_column: header,
+      });
+    }
+
+    parsed.push({ row, shipment_id: shipmentId, values, events });
+  });
+
+  return { parsed, errors };
+}
+
+async function loadShipments(admin: SupabaseClient, ids: string[]) {
+  const shipments = new Map<string, ShipmentSnapshot>();
+  for (const part of chunks(ids)) {
+    const { data, error } = await admin
+      .from("shipments")
+      .select(SNAPSHOT_COLUMNS)
+      .in("shipment_id", part);
+    if (error) throw new Error(error.message);
+    for (const s of (data ?? []) as ShipmentSnapshot[]) shipments.set(s.shipment_id, s);
+  }
+  return shipments;
+}
+
+async function loadEventKeys(admin: SupabaseClient, ids: string[]) {
+  const seen = new Set<string>();
+  for (const part of chunks(ids)) {
+    const events = await selectAll((from, to) =>
+      admin
+        .from("events")
+        .select("shipment_id, event_code, event_time")
+        .in("shipment_id", part)
+        .order("shipment_id")
+        .order("event_code")
+        .order("event_time")
+        .range(from, to)
+    );
+    for (const e of events) {
+      if (e.event_time) {
+        seen.add(eventDedupeKey(e.shipment_id, normalizeEventCode(e.event_code), e.event_time));
+      }
+    }
+  }
+  return seen;
+}
+
+async function buildPlan(
+  admin: SupabaseClient,
+  sheet: SheetData,
+  mapping: ImportMapping,
+  canAccessCustomer: (customerId: string | null | undefined) => boolean
+) {
+  const invalid = mappingError(sheet.headers, mapping);
+  if (invalid) throw new Error(invalid);
+
+  const { parsed, errors } = parseRows(sheet, mapping);
+  const ids = parsed.map((p) => p.shipment_id);
+  const existing = await loadShipments(admin, ids);
+  const seenEvents = await loadEventKeys(admin, ids.filter((id) => existing.has(id)));
+
+  // Every customer the sheet refers to, importable or not, scopes who can
+  // see the batch
+  const customers = new Set<string>();
+  const shipments: PlannedShipment[] = [];
+  for (const p of parsed) {
+    const current = existing.get(p.shipment_id);
+    for (const id of [current?.customer_id, p.values.customer_id]) {
+      if (id) customers.add(id.toLowerCase());
+    }
+    const fail = (error: string) => errors.push({ row: p.row, error });
+
+    if (current) {
+      if (!canAccessCustomer(current.customer_id)) {
+        fail(`No access to ${p.shipment_id}'s customer`);
+        continue;
+      }
+      const customer = p.values.customer_id;
+      if (customer && customer.toLowerCase() !== (current.customer_id ?? "").toLowerCase()) {
+        fail(`Customer can't be changed by an import (${p.shipment_id})`);
+        continue;
+      }
+    } else if (!p.values.customer_id) {
+      fail(`New shipment ${p.shipment_id} needs a customer`);
+      continue;
+    } else if (!canAccessCustomer(p.values.customer_id)) {
+      fail(`No access to customer ${p.values.customer_id}`);
+      continue;
+    }
+
+    const changes: PlannedShipment["changes"] = {};
+    for (const [key, to] of Object.entries(p.values) as [ImportField, string][]) {
+      if (current && key === "customer_id") continue;
+      const from = current ? current[key] : null;
+      if (!current || !sameValue(key, from, to)) changes[key] = { from, to };
+    }
+
+    const events = p.events.filter((e) => {
+      const key = eventDedupeKey(p.shipment_id, e.event_code, e.event_time);
+      if (seenEvents.has(key)) return false;
+      seenEvents.add(key);
+      return true;
+    });
+
+    shipments.push({
+      row: p.row,
+      shipment_id: p.shipment_id,
+      action: !current
+        ? "insert"
+        : Object.keys(changes).length || events.length
+          ? "update"
+          : "unchanged",
+      changes,
+      events,
+    });
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  const plan: ImportPlan = {
+    shipments,
+    errors,
+    totals: {
+      insert: shipments.filter((s) => s.action === "insert").length,
+      update: shipments.filter((s) => s.action === "update").length,
+      unchanged: shipments.filter((s) => s.action === "unchanged").length,
+      events: shipments.reduce((n, s) => n + s.events.length, 0),
+      errors: errors.length,
+    },
+    customer_ids: [...customers].sort(),
+  };
+  return { plan, existing };
+}
+
+/**
+ * Diff of a mapped spreadsheet against the current shipments and events:
+ * which shipments would be created or changed (field by field), which
+ * events are new, and which rows can't be imported. Writes nothing.
+ */
+export async function planImport(
+  admin: SupabaseClient,
+  sheet: SheetData,
+  mapping: ImportMapping,
+  canAccessCustomer: (customerId: string | null | undefined) => boolean
+): Promise<ImportPlan> {
+  return (await buildPlan(admin, sheet, mapping, canAccessCustomer)).plan;
+}
+
+function changedValues(changes: Partial<Record<ImportField, FieldChange>>) {
+  return Object.fromEntries(Object.entries(changes).map(([key, c]) => [key, c!.to]));
+}
+
+/**
+ * Applies an import as batch `batchId`. The plan is recomputed against the
+ * current data, rows with errors are skipped, and each shipment's prior
+ * state is recorded in import_batch_changes before it's written, so a
+ * batch that fails part-way can still be rolled back.
+ */
+export async function commitImport(
+  admin: SupabaseClient,
+  batchId: string,
+  sheet: SheetData,
+  mapping: ImportMapping,
+  canAccessCustomer: (customerId: string | null | undefined) => boolean
+): Promise<ImportPlan> {
+  const { plan, existing } = await buildPlan(admin, sheet, mapping, canAccessCustomer);
+  const touched = plan.shipments.filter((s) => s.action !== "unchanged");
+
+  for (const part of chunks(touched)) {
+    const { error } = await admin.from("import_batch_changes").insert(
+      part.map((s) => ({
+        batch_id: batchId,
+        shipment_id: s.shipment_id,
+        action: s.action,
+        before: existing.get(s.shipment_id) ?? null,
+        changes: s.changes,
+        event_count: s.events.length,
+      }))
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  const inserts = touched.filter((s) => s.action === "insert");
+  for (const part of chunks(inserts)) {
+    const { error } = await admin
+      .from("shipments")
+      .insert(part.map((s) => ({ shipment_id: s.shipment_id, ...changedValues(s.changes) })));
+    if (error) throw new Error(error.message);
+  }
+
+  for (const s of touched) {
+    if (s.action !== "update" || !Object.keys(s.changes).length) continue;
+    const { error } = await admin
+      .from("shipments")
+      .update(changedValues(s.changes))
+      .eq("shipment_id", s.shipment_id);
+    if (error) throw new Error(error.message);
+  }
+
+  const events = touched.flatMap((s) =>
+    s.events.map((e) => ({ shipment_id: s.shipment_id, ...e }))
+  );
+  for (const part of chunks(events, 500)) {
+    // Events a feed added since the plan was built are skipped
+    const { error } = await admin.from("events").upsert(
+      part.map((e) => ({
+        ...e,
+        notes: findMilestone(e.event_code)?.label ?? null,
+        import_batch_id: batchId,
+      })),
+      { onConflict: "shipment_id,event_code,event_time", ignoreDuplicates: true }
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  if (events.length) {
+    await advanceShipments(admin, events);
+  }
+  return plan;
+}
+
+export type BatchChange = {
+  id: number;
+  shipment_id: string;
+  action: "insert" | "update";
+  before: ShipmentSnapshot | null;
+  changes: Partial<Record<ImportField, FieldChange>>;
+  event_count: number;
+};
+
+/**
+ * Shipments changed since batch `batchId` wrote them: by a later import
+ * that hasn't been rolled back, by an edit to a field the batch set, or by
+ * events from another source that a rollback would delete or overwrite.
+ */
+async function findRollbackConflicts(
+  admin: SupabaseClient,
+  batchId: string,
+  changes: BatchChange[]
+) {
+  const conflicts: RollbackConflict[] = [];
+  const flag = (shipmentId: string, reason: string) => {
+    if (!conflicts.some((c) => c.shipment_id === shipmentId)) {
+      conflicts.push({ shipment_id: shipmentId, reason });
+    }
+  };
+  if (changes.length === 0) return conflicts;
+
+  const lastChangeId = Math.max(...changes.map((c) => c.id));
+  const byId = new Map(changes.map((c) => [c.shipment_id, c]));
+
+  for (const part of chunks([...byId.keys()])) {
+    // import_batch_changes ids increase, so later imports have higher ones
+    const later = await selectAll((from, to) =>
+      admin
+        .from("import_batch_changes")
+        .select("id, shipment_id, import_batches!inner(filename, status)")
+        .in("shipment_id", part)
+        .gt("id", lastChangeId)
+        .neq("import_batches.status", "rolled_back")
+        .order("id")
+        .range(from, to)
+    );
+    for (const c of later as unknown as {
+      shipment_id: string;
+      import_batches: { filename: string };
+    }[]) {
+      flag(c.shipment_id, `Changed by a later import (${c.import_batches.filename})`);
+    }
+
+    const { data: current, error } = await admin
+      .from("shipments")
+      .select(SNAPSHOT_COLUMNS)
+      .in("shipment_id", part);
+    if (error) throw new Error(error.message);
+
+    for (const s of (current ?? []) as ShipmentSnapshot[]) {
+      const change = byId.get(s.shipment_id)!;
+      const edited = (Object.entries(change.changes) as [ImportField, FieldChange][]).find(
+        ([key, c]) => key !== "customer_id" && !sameValue(key, s[key], c.to)
+      );
+      if (edited) flag(s.shipment_id, `${edited[0]} was edited after the import`);
+    }
+
+    const others = await selectAll((from, to) =>
+      admin
+        .from("events")
+        .select("shipment_id, event_time")
+        .in("shipment_id", part)
+        .or(`import_batch_id.is.null,import_batch_id.neq.${batchId}`)
+        .order("shipment_id")
+        .order("event_time")
+        .range(from, to)
+    );
+    for (const e of others) {
+      const change = byId.get(e.shipment_id)!;
+      const since = change.before?.last_event_time;
+      // Events on a shipment the batch created would be orphaned; newer
+      // events on an updated one would be overwritten by the restore
+      if (change.action === "insert") {
+        flag(e.shipment_id, "Has events added after the import");
+      } else if (
+        change.event_count > 0 &&
+        e.event_time &&
+        (!since || Date.parse(e.event_time) > Date.parse(since))
+      ) {
+        flag(e.shipment_id, "Has newer events from another source");
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// Everything batch `batchId` recorded, in the order it was written
+export async function loadBatchChanges(admin: SupabaseClient, batchId: string) {
+  return selectAll<BatchChange>((from, to) =>
+    admin
+      .from("import_batch_changes")
+      .select("id, shipment_id, action, before, changes, event_count")
+      .eq("batch_id", batchId)
+      .order("id")
+      .range(from, to)
+  );
+}
+
+// Customers whose shipments a batch created or changed, lowercased
+export function batchCustomerIds(changes: BatchChange[]) {
+  const ids = changes.map((c) =>
+    c.action === "insert" ? c.changes.customer_id?.to : c.before?.customer_id
+  );
+  return [...new Set(ids.filter((id): id is string => !!id).map((id) => id.toLowerCase()))];
+}
+
+/**
+ * Undoes a batch: deletes the events it added and the shipments it
+ * created, and puts the fields it changed back to their recorded values.
+ * Refuses (returning the conflicts, and writing nothing) when something
+ * has changed those shipments since, unless `force` is set. `changes`
+ * skips reloading them when the caller already has the batch's changes.
+ */
+export async function rollbackImport(
+  admin: SupabaseClient,
+  batchId: string,
+  { force = false, changes }: { force?: boolean; changes?: BatchChange[] } = {}
+) {
+  changes ??= await loadBatchChanges(admin, batchId);
+
+  const conflicts = await findRollbackConflicts(admin, batchId, changes);
+  if (conflicts.length && !force) return { shipments: 0, conflicts };
+
+  const { error: eventsError } = await admin
+    .from("events")
+    .delete()
+    .eq("import_batch_id", batchId);
+  if (eventsError) throw new Error(eventsError.message);
+
+  const created = changes.filter((c) => c.action === "insert").map((c) => c.shipment_id);
+  for (const part of chunks(created)) {
+    const { error: deleteError } = await admin.from("shipments").delete().in("shipment_id", part);
+    if (deleteError) throw new Error(deleteError.message);
+  }
+
+  for (const c of changes) {
+    if (c.action !== "update" || !c.before) continue;
+    // Only what the batch wrote: its fields, the original ETA a first ETA
+    // sets, and the status its events moved
+    const fields: (keyof ShipmentSnapshot)[] = Object.keys(c.changes) as ImportField[];
+    if (c.changes.eta_updated) fields.push("original_eta");
+    if (c.event_count > 0) fields.push("current_status", "last_event_time");
+    const restore = Object.fromEntries(fields.map((key) => [key, c.before![key]]));
+
+    const { error: restoreError } = await admin
+      .from("shipments")
+      .update(restore)
+      .eq("shipment_id", c.shipment_id);
+    if (restoreError) throw new Error(restoreError.message);
+  }
+
+  return { shipments: changes.length, conflicts };
+}
+
+// Who may see a batch: its uploader, and staff with access to every
+// customer its file refers to. A draft nobody has previewed yet refers to
+// no known customers, so only its uploader sees it.
+export function canSeeImportBatch(
+  ctx: Pick<RequestContext, "email" | "canAccessCustomer">,
+  batch: { created_by: string; customer_ids: string[] | null }
+) {
+  const customers = batch.customer_ids ?? [];
+  return (
+    batch.created_by === ctx.email ||
+    (customers.length > 0 && customers.every((id) => ctx.canAccessCustomer(id)))
+  );
+}
+
+// canSeeImportBatch as a PostgREST or() filter, for listing batches
+export function importBatchScope(ctx: Pick<RequestContext, "email" | "customerIds">) {
+  const customers = ctx.customerIds.map((id) => quoteFilterValue(id.toLowerCase())).join(",");
+  return (
+    `created_by.eq.${quoteFilterValue(ctx.email)},` +
+    `and(customer_ids.neq.{},customer_ids.cd.{${customers}})`
+  );
+}
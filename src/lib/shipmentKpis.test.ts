@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { DERIVED_STATUSES } from "@/lib/eventCodes";
+import { fetchShipmentKpis } from "@/lib/shipmentKpis";
+import { parseShipmentListParams } from "@/lib/shipments";
+import { createSupabaseMock } from "@/test/supabaseMock";
+
+// Shipments by the status their badge shows
+const BADGES: Record<string, number> = {
+  "Pre-Departure": 2,
+  "In Transit": 5,
+  Discharged: 1,
+  "Customs Released": 0,
+  Delivered: 7,
+};
+
+describe("fetchShipmentKpis", () => {
+  it("counts statuses by the stored badge status", async () => {
+    const mock = createSupabaseMock({
+      tables: {
+        shipments: (call) => {
+          const status = call.ops.find(
+            (op) => op.method === "eq" && op.args[0] === "derived_status"
+          )?.args[1] as string | undefined;
+          return { count: status ? BADGES[status] : 15 };
+        },
+      },
+      rpc: { shipment_kpis: { data: { lanes: [], transit: null } } },
+    });
+
+    const kpis = await fetchShipmentKpis(
+      mock.client(),
+      ["ACME"],
+      parseShipmentListParams(new URLSearchParams())
+    );
+
+    expect(kpis.by_status).toEqual(
+      DERIVED_STATUSES.map((status) => ({ status, count: BADGES[status] }))
+    );
+    // No status count falls back to matching current_status text
+    const filters = mock.calls.flatMap((c) => c.ops).filter((op) => op.method === "or");
+    expect(filters.some((op) => String(op.args[0]).includes("current_status"))).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DERIVED_STATUSES, MILESTONES, type DerivedStatus } from "@/lib/eventCodes";
+import type { ShipmentListParams } from "@/lib/shipments";
+import { buildShipmentListQuery, nextDay } from "@/lib/shipmentListQuery";
+
+export type LaneKpi = {
+  origin: string;
+  destination: string;
+  shipments: number;
+};
+
+export type ShipmentKpis = {
+  total: number;
+  delayed: number;
+  by_status: { status: DerivedStatus; count: number }[];
+  // Monday to Sunday (UTC) of the current week, by eta_updated
+  arriving_this_week: { count: number; from: string; to: string };
+  lanes: LaneKpi[];
+  // Average first-departure to last-delivery time over delivered shipments
+  transit: { avg_hours: number | null; shipments: number };
+};
+
+function milestoneCodes(key: string) {
+  return MILESTONES.find((m) => m.key === key)?.codes ?? [];
+}
+
+// YYYY-MM-DD bounds of the Monday-to-Sunday week containing `now` (UTC)
+export function currentWeek(now = new Date()) {
+  const monday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  const sunday = new Date(monday);
+  sunday.setUTCDate(sunday.getUTCDate() + 6);
+  return { from: monday.toISOString().slice(0, 10), to: sunday.toISOString().slice(0, 10) };
+}
+
+async function countShipments(
+  admin: SupabaseClient,
+  scopeIds: string[],
+  params: ShipmentListParams
+) {
+  const { count, error } = await buildShipmentListQuery(admin, scopeIds, params).range(0, 0);
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+/**
+ * Dashboard figures for `scopeIds`. Counts go through the list query with
+ * the matching filter, so each one equals what the list shows when the
+ * dashboard links into it; status counts use derived_status, the same
+ * status the badges show. `params` carries the date range (from/to on
+ * last_event_time); "arriving this week" ignores it.
+ */
+export async function fetchShipmentKpis(
+  admin: SupabaseClient,
+  scopeIds: string[],
+  params: ShipmentListParams
+): Promise<ShipmentKpis> {
+  const week = currentWeek();
+  const base: ShipmentListParams = { ...params, dateField: "last_event_time", status: null };
+
+  const [total, delayed, statusCounts, arriving, aggregates] = await Promise.all([
+    countShipments(admin, scopeIds, base),
+    countShipments(admin, scopeIds, { ...base, delayed: true }),
+    Promise.all(
+      DERIVED_STATUSES.map((status) => countShipments(admin, scopeIds, { ...base, status }))
+    ),
+    countShipments(admin, scopeIds, {
+      ...base,
+      dateField: "eta_updated",
+      from: week.from,
+      to: week.to,
+    }),
+    admin.rpc("shipment_kpis", {
+      p_customer_ids: scopeIds,
+      p_from: params.from ? `${params.from}T00:00:00.000Z` : null,
+      p_to: params.to ? nextDay(params.to) : null,
+      p_departed_codes: milestoneCodes("departed"),
+      p_delivered_codes: milestoneCodes("delivered"),
+    }),
+  ]);
+
+  if (aggregates.error) throw new Error(aggregates.error.message);
+  const { lanes, transit } = aggregates.data as Pick<ShipmentKpis, "lanes" | "transit">;
+
+  return {
+    total,
+    delayed,
+    by_status: DERIVED_STATUSES.map((status, i) => ({ status, count: statusCounts[i] })),
+    arriving_this_week: { count: arriving, ...week },
+    lanes: lanes ?? [],
+    transit: {
+      avg_hours: transit?.avg_hours == null ? null : Number(transit.avg_hours),
+      shipments: transit?.shipments ?? 0,
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  SEARCH_COLUMNS,
+  buildShipmentListQuery,
+  customerFilter,
+  fetchCustomerCounts,
+  fetchShipmentPage,
+} from "@/lib/shipmentListQuery";
+import { parseShipmentListParams } from "@/lib/shipments";
+import { createSupabaseMock } from "@/test/supabaseMock";
+
+function shipmentRows(n: number) {
+  return Array.from({ length: n }, (_, i) => ({
+    shipment_id: `WPL${i}`,
+    customer_id: "ACME",
+    current_status: null,
+    eta_slip_hours: null,
+  }));
+}
+
+async function queriesForPage(size: number) {
+  const mock = createSupabaseMock({
+    tables: {
+      shipments: (call) =>
+        call.ops.some((op) => op.method === "range")
+          ? { data: shipmentRows(size), count: size }
+          : { count: size },
+    },
+    rpc: {
+      shipment_event_summary: {
+        data: shipmentRows(size).map((s) => ({
+          shipment_id: s.shipment_id,
+          latest_event_code: "ATD",
+          milestone_code: "ATD",
+        })),
+      },
+    },
+  });
+
+  const params = { ...parseShipmentListParams(new URLSearchParams()), pageSize: size };
+  const page = await fetchShipmentPage(mock.client(), ["ACME"], ["ACME"], params);
+
+  expect(page.error).toBeNull();
+  expect(page.data).toHaveLength(size);
+  return mock.calls;
+}
+
+describe("fetchShipmentPage", () => {
+  it("uses the same number of queries however many shipments are on the page", async () => {
+    const small = await queriesForPage(1);
+    const large = await queriesForPage(100);
+
+    expect(large.map((c) => `${c.kind}:${c.name}`)).toEqual(
+      small.map((c) => `${c.kind}:${c.name}`)
+    );
+    // The list, the switcher count and one event-summary RPC for the page
+    expect(large).toHaveLength(3);
+  });
+
+  it("applies each shipment's event summary", async () => {
+    const calls = await queriesForPage(2);
+    const rpc = calls.find((c) => c.kind === "rpc");
+    expect(rpc?.ops[0].args[0]).toMatchObject({ p_shipment_ids: ["WPL0", "WPL1"] });
+  });
+});
+
+describe("buildShipmentListQuery", () => {
+  it("filters and sorts on the stored badge status", async () => {
+    const mock = createSupabaseMock();
+    const params = parseShipmentListParams(
+      new URLSearchParams({ status: "Customs Released", sort: "status" })
+    );
+
+    await buildShipmentListQuery(mock.client(), ["ACME"], params);
+
+    const ops = mock.calls[0].ops;
+    expect(ops).toContainEqual({ method: "eq", args: ["derived_status", "Customs Released"] });
+    expect(ops.find((op) => op.method === "order")?.args[0]).toBe("derived_status");
+  });
+
+  it("searches for wildcard characters literally", async () => {
+    const mock = createSupabaseMock();
+    const params = parseShipmentListParams(new URLSearchParams({ q: "PO_1%, (a)" }));
+
+    await buildShipmentListQuery(mock.client(), ["ACME"], params);
+
+    // Escaped for LIKE, then quoted (backslashes doubled) for the or() filter
+    const search = mock.calls[0].ops.filter((op) => op.method === "or")[1];
+    expect(search.args[0]).toBe(
+      SEARCH_COLUMNS.map((c) => `${c}.ilike."%PO\\\\_1\\\\%, (a)%"`).join(",")
+    );
+  });
+});
+
+describe("customer scoping", () => {
+  it("matches customer ids exactly, wildcards included", async () => {
+    expect(customerFilter(["ac_me", "50%"])).toBe(
+      'customer_id.ilike."ac\\\\_me",customer_id.ilike."50\\\\%"'
+    );
+
+    const mock = createSupabaseMock();
+    await fetchCustomerCounts(mock.client(), ["ac_me"]);
+    expect(mock.calls[0].ops).toContainEqual({ method: "ilike", args: ["customer_id", "ac\\_me"] });
+  });
+});
@@ -0,0 +1,316 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { apiError, forbidden, type RequestContext } from "@/lib/requestContext";
+import { auditAccess, auditDenied } from "@/lib/audit";
+import {
+  RANKED_EVENT_CODES,
+  milestoneIndexForCode,
+  shipmentProgress,
+  type ShipmentProgress,
+} from "@/lib/eventCodes";
+import { delayThresholdHours, isDelayed } from "@/lib/etaHistory";
+import {
+  escapeLikePattern,
+  type CustomerCount,
+  type ShipmentListParams,
+  type ShipmentListResponse,
+} from "@/lib/shipments";
+
+type ShipmentListExtras = ShipmentProgress & {
+  latest_event_code: string | null;
+  delayed: boolean;
+};
+
+export const SHIPMENT_LIST_COLUMNS =
+  "shipment_id, customer_id, hawb, mawb, po_number, customer_reference, origin, destination, current_status, eta_updated, original_eta, eta_slip_hours, last_event_time";
+
+export const SEARCH_COLUMNS = [
+  "hawb",
+  "mawb",
+  "po_number",
+  "customer_reference",
+  "shipment_id",
+] as const;
+
+// PostgREST reads * in a like pattern as %, so it can't be searched for;
+// everything else is escaped and quoted below.
+function sanitizeTerm(v: string) {
+  return v.replace(/\*/g, " ").trim();
+}
+
+// Quotes a value for use inside a PostgREST or() filter
+export function quoteFilterValue(v: string) {
+  return `"${v.replace(/["\\]/g, "\\$&")}"`;
+}
+
+export function nextDay(date: string) {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString();
+}
+
+// Shipments keep customer ids as the feed sent them, so ids match without
+// case but otherwise exactly: LIKE wildcards in an id are escaped.
+export function customerFilter(customerIds: string[]) {
+  return customerIds
+    .map((id) => `customer_id.ilike.${quoteFilterValue(escapeLikePattern(id))}`)
+    .join(",");
+}
+
+// Unfiltered shipment total for each of the caller's customers.
+export async function fetchCustomerCounts(
+  admin: SupabaseClient,
+  customerIds: string[]
+) {
+  const results = await Promise.all(
+    customerIds.map((id) =>
+      admin
+        .from("shipments")
+        .select("shipment_id", { count: "exact", head: true })
+        .ilike("customer_id", escapeLikePattern(id))
+    )
+  );
+
+  const error = results.find((r) => r.error)?.error ?? null;
+  const customers: CustomerCount[] = customerIds.map((id, i) => ({
+    customer_id: id,
+    count: results[i].count ?? 0,
+  }));
+
+  return { customers, error };
+}
+
+/**
+ * Builds the scoped, filtered and sorted shipments query for a list request.
+ * Paging is left to the caller so the same query can back exports.
+ */
+export function buildShipmentListQuery(
+  admin: SupabaseClient,
+  customerIds: string[],
+  params: ShipmentListParams
+) {
+  let query = admin
+    .from("shipments")
+    .select(SHIPMENT_LIST_COLUMNS, { count: "exact" })
+    .or(customerFilter(customerIds));
+
+  const term = sanitizeTerm(params.q);
+  if (term) {
+    const pattern = quoteFilterValue(`%${escapeLikePattern(term)}%`);
+    query = query.or(SEARCH_COLUMNS.map((c) => `${c}.ilike.${pattern}`).join(","));
+  }
+
+  // derived_status is kept in step with the badges by database triggers
+  if (params.status) {
+    query = query.eq("derived_status", params.status);
+  }
+
+  if (params.delayed) {
+    query = query.gt("eta_slip_hours", delayThresholdHours());
+  }
+
+  if (params.origin) {
+    query = query.eq("origin", params.origin);
+  }
+  if (params.destination) {
+    query = query.eq("destination", params.destination);
+  }
+
+  if (params.from) {
+    query = query.gte(params.dateField, `${params.from}T00:00:00.000Z`);
+  }
+  if (params.to) {
+    query = query.lt(params.dateField, nextDay(params.to));
+  }
+
+  const ascending = params.dir === "asc";
+  const order = { ascending, nullsFirst: false };
+
+  switch (params.sort) {
+    case "reference":
+      query = query
+        .order("hawb", order)
+        .order("mawb", order)
+        .order("po_number", order);
+      break;
+    case "route":
+      query = query.order("origin", order).order("destination", order);
+      break;
+    case "status":
+      query = query.order("derived_status", order);
+      break;
+    case "eta_updated":
+      query = query.order("eta_updated", order);
+      break;
+    case "last_event_time":
+      query = query.order("last_event_time", order);
+      break;
+  }
+
+  // Stable tiebreaker so pages don't overlap.
+  return query.order("shipment_id", { ascending: true });
+}
+
+export type EventSummary = {
+  latest_event_code: string | null;
+  milestone_code: string | null;
+};
+
+/**
+ * Resolves the latest event code and furthest milestone code for every
+ * shipment on a page with a single RPC call, so the query count doesn't
+ * grow with the page size.
+ */
+export async function fetchEventSummaries(
+  admin: SupabaseClient,
+  shipmentIds: string[]
+) {
+  const summaries = new Map<string, EventSummary>();
+  if (shipmentIds.length === 0) return { summaries, error: null };
+
+  const { data, error } = await admin.rpc("shipment_event_summary", {
+    p_shipment_ids: shipmentIds,
+    p_ranked_codes: RANKED_EVENT_CODES,
+  });
+
+  for (const row of (data ?? []) as (EventSummary & { shipment_id: string })[]) {
+    summaries.set(row.shipment_id, {
+      latest_event_code: row.latest_event_code,
+      milestone_code: row.milestone_code,
+    });
+  }
+
+  return { summaries, error };
+}
+
+/**
+ * Adds latest_event_code, derived_status and milestone_index to list rows,
+ * plus the delayed flag from eta_slip_hours.
+ */
+export function withEventSummary<
+  T extends {
+    shipment_id: string;
+    current_status: string | null;
+    eta_slip_hours: number | null;
+  },
+>(rows: T[], summaries: Map<string, EventSummary>): (T & ShipmentListExtras)[] {
+  return rows.map((row) => {
+    const summary = summaries.get(row.shipment_id);
+    return {
+      ...row,
+      latest_event_code: summary?.latest_event_code ?? null,
+      ...shipmentProgress(
+        milestoneIndexForCode(summary?.milestone_code),
+        row.current_status
+      ),
+      delayed: isDelayed(row.eta_slip_hours),
+    };
+  });
+}
+
+/**
+ * One page of the shipment list with event summaries applied, plus the
+ * per-customer totals for the switcher. `scopeIds` is what the page is
+ * filtered to; `customerIds` is everything the caller may see.
+ */
+export async function fetchShipmentPage(
+  admin: SupabaseClient,
+  scopeIds: string[],
+  customerIds: string[],
+  params: ShipmentListParams
+) {
+  const offset = (params.page - 1) * params.pageSize;
+
+  const [
+    { data: shipments, count, error: shipmentError },
+    { customers, error: countError },
+  ] = await Promise.all([
+    buildShipmentListQuery(admin, scopeIds, params).range(
+      offset,
+      offset + params.pageSize - 1
+    ),
+    fetchCustomerCounts(admin, customerIds),
+  ]);
+
+  if (shipmentError || countError) {
+    return { data: [], customers, total: 0, error: shipmentError ?? countError };
+  }
+
+  // Latest event and milestone for the whole page in one round trip
+  const rows = shipments ?? [];
+  const { summaries, error } = await fetchEventSummaries(
+    admin,
+    rows.map((s) => s.shipment_id)
+  );
+
+  return {
+    data: withEventSummary(rows, summaries),
+    customers,
+    total: count ?? 0,
+    error,
+  };
+}
+
+/**
+ * The shipment list for a signed-in user, as /api/shipments returns it:
+ * scoped to their customers (or the one picked in the switcher) and
+ * audited. Returns a NextResponse (403/500) when it can't be shown.
+ */
+export async function loadShipmentList(
+  ctx: RequestContext,
+  params: ShipmentListParams
+): Promise<ShipmentListResponse | NextResponse> {
+  const { admin, customerIds, email } = ctx;
+
+  if (customerIds.length === 0) {
+    return {
+      data: [],
+      email,
+      customers: [],
+      total: 0,
+      page: params.page,
+      pageSize: params.pageSize,
+    };
+  }
+
+  // Narrow to one customer when the switcher has picked one
+  if (params.customer && !ctx.canAccessCustomer(params.customer)) {
+    await auditDenied(ctx, "customer_not_allowed", {
+      customer_id: params.customer,
+      target: "/api/shipments",
+    });
+    return forbidden();
+  }
+  const scopeIds = params.customer ? [params.customer] : customerIds;
+
+  const { data, customers, total, error } = await fetchShipmentPage(
+    admin,
+    scopeIds,
+    customerIds,
+    params
+  );
+
+  if (error) {
+    return apiError(500, error.message);
+  }
+
+  await auditAccess(ctx, "shipments.list", {
+    customer_id: params.customer,
+    details: {
+      page: params.page,
+      q: params.q || undefined,
+      status: params.status ?? undefined,
+      returned: data.length,
+      total,
+    },
+  });
+
+  return {
+    data,
+    email,
+    customers,
+    total,
+    page: params.page,
+    pageSize: params.pageSize,
+  };
+}
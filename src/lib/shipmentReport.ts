@@ -0,0 +1,254 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { MILESTONES } from "@/lib/eventCodes";
+import { getReference } from "@/lib/shipments";
+import type { EventRow, ShipmentDetail } from "@/lib/shipmentDetail";
+
+// Brand colours from globals.css
+const WPL_BLUE = rgb(0x06 / 255, 0x35 / 255, 0x7a / 255);
+const WPL_NAVY = rgb(0x02 / 255, 0x15 / 255, 0x31 / 255);
+const WPL_GRAY = rgb(0x65 / 255, 0x66 / 255, 0x68 / 255);
+const WPL_BORDER = rgb(0xe8 / 255, 0xe8 / 255, 0xe8 / 255);
+const WHITE = rgb(1, 1, 1);
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+// The standard PDF fonts only cover WinAnsi; swap or drop anything else.
+function pdfText(v: string | null | undefined) {
+  return (v ?? "")
+    .replace(/→/g, "->")
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "");
+}
+
+function fmtDateTime(v: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toISOString().replace("T", " ").slice(0, 16) + " UTC";
+}
+
+function fmtDate(v: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toISOString().slice(0, 10);
+}
+
+// Cuts text to fit maxWidth, adding an ellipsis when it had to cut.
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number) {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 0 && font.widthOfTextAtSize(`${cut}...`, size) > maxWidth) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut}...`;
+}
+
+async function drawHeader(doc: PDFDocument, page: PDFPage, fonts: Fonts) {
+  const bandHeight = 72;
+  page.drawRectangle({
+    x: 0,
+    y: PAGE_HEIGHT - bandHeight,
+    width: PAGE_WIDTH,
+    height: bandHeight,
+    color: WPL_NAVY,
+  });
+
+  const logoBytes = await readFile(path.join(process.cwd(), "public", "wpl-logo.png"));
+  const logo = await doc.embedPng(logoBytes);
+  const logoSize = logo.scaleToFit(140, 48);
+  page.drawImage(logo, {
+    x: MARGIN,
+    y: PAGE_HEIGHT - bandHeight + (bandHeight - logoSize.height) / 2,
+    width: logoSize.width,
+    height: logoSize.height,
+  });
+
+  const title = "Shipment Status Report";
+  page.drawText(title, {
+    x: PAGE_WIDTH - MARGIN - fonts.bold.widthOfTextAtSize(title, 14),
+    y: PAGE_HEIGHT - bandHeight / 2 - 5,
+    size: 14,
+    font: fonts.bold,
+    color: WHITE,
+  });
+
+  return PAGE_HEIGHT - bandHeight - 28;
+}
+
+function drawReferences(page: PDFPage, fonts: Fonts, shipment: ShipmentDetail, top: number) {
+  page.drawText(pdfText(getReference(shipment)), {
+    x: MARGIN,
+    y: top,
+    size: 18,
+    font: fonts.bold,
+    color: WPL_NAVY,
+  });
+  page.drawText(
+    pdfText(`${shipment.origin ?? "-"} -> ${shipment.destination ?? "-"}   |   Shipment ID: ${shipment.shipment_id}`),
+    { x: MARGIN, y: top - 18, size: 10, font: fonts.regular, color: WPL_GRAY }
+  );
+
+  const fields: [string, string | null][] = [
+    ["HAWB", shipment.hawb],
+    ["MAWB", shipment.mawb],
+    ["PO Number", shipment.po_number],
+    ["Customer Reference", shipment.customer_reference],
+    ["Status", shipment.derived_status],
+    ["ETA", fmtDate(shipment.eta_updated)],
+    ["Last Update", fmtDateTime(shipment.last_event_time)],
+  ];
+
+  const colWidth = CONTENT_WIDTH / 2;
+  let y = top - 48;
+  fields.forEach(([label, value], i) => {
+    const x = MARGIN + (i % 2) * colWidth;
+    if (i > 0 && i % 2 === 0) y -= 34;
+    page.drawText(label, { x, y, size: 8, font: fonts.bold, color: WPL_GRAY });
+    page.drawText(fitText(pdfText(value) || "-", fonts.regular, 11, colWidth - 12), {
+      x,
+      y: y - 14,
+      size: 11,
+      font: fonts.regular,
+    });
+  });
+
+  return y - 44;
+}
+
+function drawProgress(page: PDFPage, fonts: Fonts, currentIndex: number, top: number) {
+  page.drawText("Milestones", { x: MARGIN, y: top, size: 11, font: fonts.bold, color: WPL_NAVY });
+
+  const step = CONTENT_WIDTH / (MILESTONES.length - 1);
+  const lineY = top - 24;
+
+  MILESTONES.forEach((m, idx) => {
+    const cx = MARGIN + idx * step;
+
+    if (idx < MILESTONES.length - 1) {
+      page.drawLine({
+        start: { x: cx + 6, y: lineY },
+        end: { x: cx + step - 6, y: lineY },
+        thickness: 2,
+        color: idx < currentIndex ? WPL_BLUE : WPL_BORDER,
+      });
+    }
+
+    page.drawCircle({
+      x: cx,
+      y: lineY,
+      size: 5,
+      color: idx < currentIndex ? WPL_BLUE : WHITE,
+      borderColor: idx <= currentIndex ? WPL_BLUE : WPL_BORDER,
+      borderWidth: 1.5,
+    });
+
+    const font = idx === currentIndex ? fonts.bold : fonts.regular;
+    const labelWidth = font.widthOfTextAtSize(m.label, 7);
+    const x = Math.min(
+      Math.max(cx - labelWidth / 2, MARGIN),
+      PAGE_WIDTH - MARGIN - labelWidth
+    );
+    page.drawText(m.label, {
+      x,
+      y: lineY - 18,
+      size: 7,
+      font,
+      color: idx === currentIndex ? WPL_BLUE : WPL_GRAY,
+    });
+  });
+
+  return lineY - 48;
+}
+
+/**
+ * Renders the branded status report for one shipment: reference header,
+ * milestone progress and the full event timeline (continued across pages).
+ */
+export async function renderShipmentReport(
+  shipment: ShipmentDetail,
+  events: EventRow[]
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(pdfText(`Shipment ${getReference(shipment)}`));
+  doc.setAuthor("Wen-Parker Logistics");
+
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = await drawHeader(doc, page, fonts);
+  y = drawReferences(page, fonts, shipment, y);
+  y = drawProgress(page, fonts, shipment.milestone_index, y);
+
+  // Event timeline
+  const cols = { time: MARGIN, code: MARGIN + 110, notes: MARGIN + 220, location: MARGIN + 400 };
+  const drawTimelineHeading = (label: string) => {
+    page.drawText(label, { x: MARGIN, y, size: 11, font: fonts.bold, color: WPL_NAVY });
+    y -= 18;
+    for (const [key, text] of [
+      ["time", "Time"],
+      ["code", "Event"],
+      ["notes", "Details"],
+      ["location", "Location"],
+    ] as const) {
+      page.drawText(text, { x: cols[key], y, size: 8, font: fonts.bold, color: WPL_GRAY });
+    }
+    y -= 6;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: WPL_BORDER,
+    });
+    y -= 14;
+  };
+
+  drawTimelineHeading("Tracking Timeline");
+
+  if (events.length === 0) {
+    page.drawText("No events found.", { x: MARGIN, y, size: 9, font: fonts.regular, color: WPL_GRAY });
+  }
+
+  for (const e of events) {
+    if (y < MARGIN + 24) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      drawTimelineHeading("Tracking Timeline (continued)");
+    }
+
+    const cells: [number, string, number, PDFFont][] = [
+      [cols.time, pdfText(fmtDateTime(e.event_time)), cols.code - cols.time, fonts.regular],
+      [cols.code, pdfText(e.event_code) || "-", cols.notes - cols.code, fonts.bold],
+      [cols.notes, pdfText(e.notes) || "Event", cols.location - cols.notes, fonts.regular],
+      [cols.location, pdfText(e.location) || "-", PAGE_WIDTH - MARGIN - cols.location, fonts.regular],
+    ];
+    for (const [x, text, width, font] of cells) {
+      page.drawText(fitText(text, font, 8, width - 8), { x, y, size: 8, font });
+    }
+    y -= 16;
+  }
+
+  // Footer on every page
+  const generated = `Generated ${fmtDateTime(new Date().toISOString())}`;
+  const pages = doc.getPages();
+  pages.forEach((p, i) => {
+    p.drawText(`${generated}  |  Page ${i + 1} of ${pages.length}`, {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 7,
+      font: fonts.regular,
+      color: WPL_GRAY,
+    });
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,61 @@
+import { authedFetch } from "@/lib/authedFetch";
+import type { ShipmentChange } from "@/lib/shipmentChanges";
+
+const RECONNECT_MIN_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+/**
+ * Follows /api/shipments/stream until the signal aborts, calling onChange
+ * for every change. Reads the stream with fetch (EventSource can't send
+ * the Bearer token) and reconnects with backoff when it drops.
+ */
+export async function watchShipmentChanges({
+  shipmentId,
+  onChange,
+  signal,
+}: {
+  shipmentId?: string;
+  onChange: (change: ShipmentChange) => void;
+  signal: AbortSignal;
+}) {
+  const url = shipmentId
+    ? `/api/shipments/stream?shipment_id=${encodeURIComponent(shipmentId)}`
+    : "/api/shipments/stream";
+  let delay = RECONNECT_MIN_MS;
+
+  while (!signal.aborted) {
+    try {
+      const res = await authedFetch(url, { signal });
+      // Auth and access errors won't fix themselves by retrying
+      if (res.status === 401 || res.status === 403 || res.status === 404) return;
+      if (!res.ok || !res.body) throw new Error(`Stream failed with status ${res.status}`);
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        delay = RECONNECT_MIN_MS;
+        buffer += value;
+
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) !== -1) {
+          const message = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+
+          const lines = message.split("\n");
+          const event = lines.find((l) => l.startsWith("event: "))?.slice(7);
+          const data = lines.find((l) => l.startsWith("data: "))?.slice(6);
+          if (event === "change" && data) onChange(JSON.parse(data));
+        }
+      }
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error("Live updates disconnected", err);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+  }
+}
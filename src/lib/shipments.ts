@@ -0,0 +1,157 @@
+import { DERIVED_STATUSES, type DerivedStatus } from "@/lib/eventCodes";
+
+export type Shipment = {
+  shipment_id: string;
+  customer_id: string | null;
+  hawb: string | null;
+  mawb: string | null;
+  po_number: string | null;
+  customer_reference: string | null;
+  origin: string | null;
+  destination: string | null;
+  current_status: string | null;
+  eta_updated: string | null;
+  original_eta: string | null;
+  eta_slip_hours: number | null;
+  last_event_time: string | null;
+  latest_event_code: string | null;
+  derived_status: DerivedStatus;
+  milestone_index: number;
+  // ETA has slipped past the configured threshold
+  delayed: boolean;
+};
+
+export type SortKey =
+  | "reference"
+  | "route"
+  | "status"
+  | "eta_updated"
+  | "last_event_time";
+
+export type SortDir = "asc" | "desc";
+
+export function getReference(
+  s: Pick<Shipment, "hawb" | "mawb" | "po_number" | "shipment_id">
+) {
+  return s.hawb || s.mawb || s.po_number || s.shipment_id;
+}
+
+export type DateField = "last_event_time" | "eta_updated";
+
+export type ShipmentListParams = {
+  customer: string | null;
+  page: number;
+  pageSize: number;
+  q: string;
+  status: DerivedStatus | null;
+  delayed: boolean;
+  // Exact lane match, as linked from the dashboard
+  origin: string | null;
+  destination: string | null;
+  dateField: DateField;
+  from: string | null;
+  to: string | null;
+  sort: SortKey;
+  dir: SortDir;
+};
+
+export type CustomerCount = {
+  customer_id: string;
+  count: number;
+};
+
+export type ShipmentListResponse = {
+  data: Shipment[];
+  email: string;
+  customers: CustomerCount[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const SORT_KEYS: SortKey[] = [
+  "reference",
+  "route",
+  "status",
+  "eta_updated",
+  "last_event_time",
+];
+
+export function isDateOnly(v: string | null): v is string {
+  return !!v && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v));
+}
+
+export function toInt(v: string | null, fallback: number) {
+  const n = Number.parseInt(v ?? "", 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+// Escapes LIKE/ILIKE wildcards so `v` matches literally
+export function escapeLikePattern(v: string) {
+  return v.replace(/[\\%_]/g, "\\$&");
+}
+
+export function defaultSortDir(key: SortKey): SortDir {
+  return key === "reference" || key === "route" || key === "status"
+    ? "asc"
+    : "desc";
+}
+
+// Reads list params from a query string, clamping anything out of range
+// back to the defaults so a hand-edited URL can't produce a bad query.
+export function parseShipmentListParams(sp: URLSearchParams): ShipmentListParams {
+  const sortRaw = sp.get("sort") as SortKey | null;
+  const sort = sortRaw && SORT_KEYS.includes(sortRaw) ? sortRaw : "last_event_time";
+  const dirRaw = sp.get("dir");
+  const dir: SortDir =
+    dirRaw === "asc" || dirRaw === "desc" ? dirRaw : defaultSortDir(sort);
+
+  const statusRaw = sp.get("status") as DerivedStatus | null;
+  const status = statusRaw && DERIVED_STATUSES.includes(statusRaw) ? statusRaw : null;
+
+  const from = sp.get("from");
+  const to = sp.get("to");
+
+  return {
+    customer: sp.get("customer")?.trim() || null,
+    page: Math.max(1, toInt(sp.get("page"), 1)),
+    pageSize: Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, toInt(sp.get("pageSize"), DEFAULT_PAGE_SIZE))
+    ),
+    q: (sp.get("q") ?? "").trim(),
+    status,
+    delayed: sp.get("delayed") === "1",
+    origin: sp.get("origin")?.trim() || null,
+    destination: sp.get("destination")?.trim() || null,
+    dateField: sp.get("dateField") === "eta_updated" ? "eta_updated" : "last_event_time",
+    from: isDateOnly(from) ? from : null,
+    to: isDateOnly(to) ? to : null,
+    sort,
+    dir,
+  };
+}
+
+// Inverse of parseShipmentListParams; omits values that match the defaults.
+export function toShipmentListQuery(params: Partial<ShipmentListParams>) {
+  const sp = new URLSearchParams();
+  if (params.customer) sp.set("customer", params.customer);
+  if (params.page && params.page > 1) sp.set("page", String(params.page));
+  if (params.pageSize && params.pageSize !== DEFAULT_PAGE_SIZE)
+    sp.set("pageSize", String(params.pageSize));
+  if (params.q) sp.set("q", params.q);
+  if (params.status) sp.set("status", params.status);
+  if (params.delayed) sp.set("delayed", "1");
+  if (params.origin) sp.set("origin", params.origin);
+  if (params.destination) sp.set("destination", params.destination);
+  if (params.dateField && params.dateField !== "last_event_time")
+    sp.set("dateField", params.dateField);
+  if (params.from) sp.set("from", params.from);
+  if (params.to) sp.set("to", params.to);
+  if (params.sort) sp.set("sort", params.sort);
+  if (params.dir) sp.set("dir", params.dir);
+  return sp;
+}
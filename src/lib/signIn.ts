@@ -0,0 +1,18 @@
+import { supabase } from "@/lib/supabaseClient";
+import { mfaUrl, safeReturnPath } from "@/lib/authRedirect";
+
+/**
+ * Where to send the browser once a session exists: `next` when it's a
+ * same-site path (else shipments), by way of the MFA challenge when the
+ * account has an authenticator.
+ */
+export async function signInDestination(next: string | null | undefined) {
+  const path = safeReturnPath(next);
+  const { data: aal } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  return aal?.nextLevel === "aal2" && aal.currentLevel !== "aal2" ? mfaUrl(path) : path;
+}
+
+// The callback url for magic links and SSO, carrying `next` through
+export function authCallbackUrl(next: string) {
+  return `${window.location.origin}/auth/callback?${new URLSearchParams({ next })}`;
+}
@@ -0,0 +1,28 @@
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Signs out through the server (which revokes the session and clears the
+ * cookies), then drops the browser's copy of the session and goes to
+ * /login. `allDevices` revokes every session the user has.
+ */
+export async function signOut({ allDevices = false } = {}) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+
+  try {
+    await fetch("/api/auth/signout", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ scope: allDevices ? "global" : "local" }),
+    });
+  } catch (err) {
+    console.error("Sign out request failed", err);
+  }
+
+  // Local only: the server has already revoked the session
+  await supabase.auth.signOut({ scope: "local" }).catch(() => {});
+  window.location.href = "/login";
+}
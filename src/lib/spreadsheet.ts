@@ -0,0 +1,107 @@
+import ExcelJS from "exceljs";
+
+export type SheetData = {
+  headers: string[];
+  // One array per data row, aligned with headers. Dates become ISO strings.
+  rows: string[][];
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Splits CSV text into rows, honouring quoted fields ("" escapes a quote).
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+    if ("richText" in value) return value.richText.map((r) => r.text).join("");
+    if ("text" in value) return String(value.text);
+    if ("error" in value) return "";
+  }
+  return String(value);
+}
+
+async function readXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type, which an ArrayBuffer satisfies
+  await workbook.xlsx.load(data as Parameters<typeof workbook.xlsx.load>[0]);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      values.push(cellText(row.getCell(c).value).trim());
+    }
+    rows.push(values);
+  });
+  return rows;
+}
+
+/**
+ * Reads the first sheet of an XLSX file, or a CSV file, into headers and
+ * rows. Blank rows are dropped; throws when the file has no header row or
+ * more than MAX_IMPORT_ROWS data rows.
+ */
+export async function parseSpreadsheet(
+  filename: string,
+  data: ArrayBuffer
+): Promise<SheetData> {
+  const raw = /\.xlsx$/i.test(filename)
+    ? await readXlsx(data)
+    : parseCsv(new TextDecoder().decode(data).replace(/^\uFEFF/, ""));
+
+  const nonEmpty = raw.filter((r) => r.some((v) => v.trim() !== ""));
+  const [headerRow, ...rows] = nonEmpty;
+  if (!headerRow) throw new Error("The file has no header row.");
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} rows at a time.`);
+  }
+
+  const headers = headerRow.map((h, i) => h.trim() || `Column ${i + 1}`);
+  return {
+    headers,
+    rows: rows.map((r) => headers.map((_, i) => (r[i] ?? "").trim())),
+  };
+}
@@ -0,0 +1,75 @@
+import { cookies, headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { redirect } from "next/navigation";
+import { createServerClient } from "@supabase/ssr";
+import { loginUrl, mfaUrl } from "@/lib/authRedirect";
+import { clientIpFromHeaders } from "@/lib/rateLimit";
+import {
+  getServerEnv,
+  resolveRequestContext,
+  unauthorized,
+  type RequestContext,
+} from "@/lib/requestContext";
+
+// Session client for server components and route handlers, backed by the
+// auth cookies the browser client writes.
+export async function createSessionClient() {
+  const env = getServerEnv();
+  if (!env) return null;
+
+  const cookieStore = await cookies();
+  return createServerClient(env.supabaseUrl, env.anonKey, {
+    cookies: {
+      getAll: () => cookieStore.getAll(),
+      setAll(toSet) {
+        try {
+          for (const { name, value, options } of toSet) {
+            cookieStore.set(name, value, options);
+          }
+        } catch {
+          // Server components can't set cookies; the proxy refreshes them
+        }
+      },
+    },
+  });
+}
+
+/**
+ * getRequestContext for server-rendered pages: the token comes from the
+ * session cookie instead of an Authorization header. Returns the same
+ * NextResponse errors (401/403/500) for the page to act on.
+ */
+export async function getSessionContext(target: string): Promise<RequestContext | NextResponse> {
+  const env = getServerEnv();
+  const supabase = await createSessionClient();
+  if (!env || !supabase) return unauthorized();
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) return unauthorized();
+
+  const ip = clientIpFromHeaders(await headers());
+
+  // resolveRequestContext re-verifies the token with Supabase Auth
+  return resolveRequestContext(env, session.access_token, { ip, target });
+}
+
+/**
+ * getSessionContext for a page at `path`: redirects to sign-in when there
+ * is no session and to the MFA challenge when the session still needs its
+ * second factor, coming back to `path` afterwards. Other errors are
+ * returned for the page to render.
+ */
+export async function getPageContext(path: string): Promise<RequestContext | NextResponse> {
+  const ctx = await getSessionContext(path);
+  if (ctx instanceof NextResponse) {
+    if (ctx.status === 401) redirect(loginUrl(path));
+    const json = await ctx
+      .clone()
+      .json()
+      .catch(() => null);
+    if (json?.code === "mfa_required") redirect(mfaUrl(path));
+  }
+  return ctx;
+}
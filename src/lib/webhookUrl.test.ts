@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { isPublicAddress, webhookUrlError } from "@/lib/webhookUrl";
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "224.0.0.1",
+    "::1",
+    "::",
+    "::ffff:127.0.0.1",
+    "fd00::1",
+    "fe80::1",
+  ])("rejects %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(["93.184.216.34", "8.8.8.8", "2606:4700:4700::1111"])("accepts %s", (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe("webhookUrlError", () => {
+  it("accepts https URLs on public addresses", async () => {
+    expect(await webhookUrlError("https://93.184.216.34/hooks/wpl")).toBeNull();
+  });
+
+  it.each([
+    ["http://93.184.216.34/hook", "must use https"],
+    ["not a url", "not valid"],
+    ["https://user:pw@93.184.216.34/", "credentials"],
+    ["https://127.0.0.1/hook", "public address"],
+    ["https://[::1]/hook", "public address"],
+    ["https://169.254.169.254/latest/meta-data", "public address"],
+    ["https://localhost/hook", "public address"],
+  ])("rejects %s", async (url, reason) => {
+    expect(await webhookUrlError(url)).toContain(reason);
+  });
+});
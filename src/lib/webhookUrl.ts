@@ -0,0 +1,94 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+// Addresses a webhook must never reach: private networks, loopback,
+// link-local (cloud metadata), CGNAT, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 3],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["64:ff9b::", 96], // NAT64
+  ["100::", 64], // discard
+  ["2001:db8::", 32], // documentation
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string) {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blocked.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function privateHostError(hostname: string) {
+  return Object.assign(new Error(`Webhook host ${hostname} is not a public address`), {
+    code: "EPRIVATEADDRESS",
+  });
+}
+
+/**
+ * Returns why `value` can't be used as a webhook URL, or null if it can:
+ * it must be https and its host must only resolve to public addresses.
+ */
+export async function webhookUrlError(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Webhook URL is not valid.";
+  }
+  if (url.protocol !== "https:") return "Webhook URL must use https.";
+  if (url.username || url.password) return "Webhook URL must not contain credentials.";
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await lookup(hostname, { all: true });
+  } catch {
+    return "Webhook host could not be resolved.";
+  }
+
+  if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+    return "Webhook URL must point to a public address.";
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for outgoing webhook connections that fails when the host
+ * resolves to a non-public address. Checking the address actually
+ * connected to, not just the one seen at save time, stops DNS rebinding.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+      return callback(privateHostError(hostname), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
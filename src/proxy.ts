@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { loginUrl } from "@/lib/authRedirect";
+
+// Refreshes the Supabase session cookies and keeps signed-out visitors
+// off portal pages, sending them to /login with a return URL instead of
+// letting the page render and redirect client-side.
+export async function proxy(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !anonKey) return response;
+
+  const supabase = createServerClient(supabaseUrl, anonKey, {
+    cookies: {
+      getAll: () => request.cookies.getAll(),
+      setAll(toSet) {
+        for (const { name, value } of toSet) request.cookies.set(name, value);
+        response = NextResponse.next({ request });
+        for (const { name, value, options } of toSet) {
+          response.cookies.set(name, value, options);
+        }
+      },
+    },
+  });
+
+  // getUser() verifies with Supabase Auth (and refreshes an expired token)
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    const { pathname, search } = request.nextUrl;
+    return NextResponse.redirect(new URL(loginUrl(`${pathname}${search}`), request.url));
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: ["/shipments/:path*", "/dashboard/:path*", "/imports/:path*", "/admin/:path*"],
+};
@@ -0,0 +1,4 @@
+// Server env the route helpers expect; tests never reach a real project.
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= "http://supabase.test";
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ??= "anon-key";
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= "service-key";
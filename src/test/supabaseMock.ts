@@ -0,0 +1,168 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+// One PostgREST call as the code under test built it: the table (or RPC)
+// and every builder method applied, in order.
+export type QueryCall = {
+  kind: "from" | "rpc" | "auth";
+  name: string;
+  ops: { method: string; args: unknown[] }[];
+};
+
+export type QueryResult = {
+  data?: unknown;
+  error?: { message: string; code?: string } | null;
+  count?: number;
+};
+
+type Handler = QueryResult | ((call: QueryCall) => QueryResult);
+
+export type SupabaseMockOptions = {
+  // Results by table or RPC name; unlisted ones resolve to empty data
+  tables?: Record<string, Handler>;
+  rpc?: Record<string, Handler>;
+  // Other auth methods by name, e.g. "signInWithOtp" or "admin.generateLink"
+  auth?: Record<string, Handler>;
+  // Access token -> user, for auth.getUser()
+  users?: Record<string, User>;
+};
+
+export type SupabaseMock = {
+  calls: QueryCall[];
+  revokedTokens: Set<string>;
+  // A client acting as `token`'s user (or the service role when omitted)
+  client(token?: string): SupabaseClient;
+};
+
+function resolve(handler: Handler | undefined, call: QueryCall) {
+  const result = typeof handler === "function" ? handler(call) : handler;
+  return { data: result?.data ?? null, error: result?.error ?? null, count: result?.count ?? null };
+}
+
+// Chainable stand-in for a PostgREST builder; awaiting it runs the handler
+function builder(call: QueryCall, handler: Handler | undefined): unknown {
+  const proxy: unknown = new Proxy(
+    {},
+    {
+      get(_, prop) {
+        if (prop === "then") {
+          return (onFulfilled: (v: unknown) => unknown, onRejected?: (e: unknown) => unknown) =>
+            Promise.resolve()
+              .then(() => resolve(handler, call))
+              .then(onFulfilled, onRejected);
+        }
+        return (...args: unknown[]) => {
+          call.ops.push({ method: String(prop), args });
+          return proxy;
+        };
+      },
+    }
+  );
+  return proxy;
+}
+
+// Auth methods not modelled below: recorded, and answered from options.auth
+function authMethods(
+  calls: QueryCall[],
+  handlers: Record<string, Handler> | undefined,
+  known: object,
+  prefix = ""
+): unknown {
+  return new Proxy(known, {
+    get(target, prop) {
+      if (prop in target) return target[prop as keyof typeof target];
+      const name = `${prefix}${String(prop)}`;
+      return async (...args: unknown[]) => {
+        const call: QueryCall = { kind: "auth", name, ops: [{ method: name, args }] };
+        calls.push(call);
+        const { data, error } = resolve(handlers?.[name], call);
+        return { data, error };
+      };
+    },
+  });
+}
+
+export function testUser(overrides: Partial<User> & { email: string }): User {
+  return {
+    id: `user-${overrides.email}`,
+    aud: "authenticated",
+    app_metadata: {},
+    user_metadata: {},
+    created_at: "2026-01-01T00:00:00Z",
+    email_confirmed_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  } as User;
+}
+
+/**
+ * In-memory Supabase client for tests: records every query and answers
+ * from `options`. Tokens passed to auth.admin.signOut() stop passing
+ * auth.getUser(), like a revoked session.
+ */
+export function createSupabaseMock(options: SupabaseMockOptions = {}): SupabaseMock {
+  const calls: QueryCall[] = [];
+  const revokedTokens = new Set<string>();
+
+  function client(token?: string) {
+    return {
+      from(table: string) {
+        const call: QueryCall = { kind: "from", name: table, ops: [] };
+        calls.push(call);
+        return builder(call, options.tables?.[table]);
+      },
+      rpc(name: string, args: unknown) {
+        const call: QueryCall = { kind: "rpc", name, ops: [{ method: "rpc", args: [args] }] };
+        calls.push(call);
+        return builder(call, options.rpc?.[name]);
+      },
+      auth: authMethods(calls, options.auth, {
+        async getUser() {
+          const user = token && !revokedTokens.has(token) ? options.users?.[token] : undefined;
+          return user
+            ? { data: { user }, error: null }
+            : { data: { user: null }, error: { message: "invalid JWT", status: 401 } };
+        },
+        admin: authMethods(
+          calls,
+          options.auth,
+          {
+            async signOut(jwt: string) {
+              revokedTokens.add(jwt);
+              return { data: null, error: null };
+            },
+          },
+          "admin."
+        ),
+      }),
+    } as unknown as SupabaseClient;
+  }
+
+  return { calls, revokedTokens, client };
+}
+
+type SupabaseJs = typeof import("@supabase/supabase-js");
+
+/**
+ * Module factory for vi.mock("@supabase/supabase-js"): createClient hands
+ * out clients from the mock `current()` returns, acting as the user whose
+ * token is in the Authorization header (or as the service role).
+ */
+export async function mockSupabaseJs(
+  importOriginal: () => Promise<SupabaseJs>,
+  current: () => SupabaseMock
+) {
+  return {
+    ...(await importOriginal()),
+    createClient: (
+      _url: string,
+      _key: string,
+      options?: { global?: { headers?: Record<string, string> } }
+    ) => current().client(options?.global?.headers?.Authorization?.replace(/^Bearer /, "")),
+  };
+}
+
+export function bearerRequest(url: string, token?: string, init: RequestInit = {}) {
+  return new Request(new URL(url, "http://portal.test"), {
+    ...init,
+    headers: { ...(token ? { Authorization: `Bearer ${token}` } : {}), ...init.headers },
+  });
+}
@@ -0,0 +1,15 @@
+-- Latest event code per shipment, resolved in one round trip for the
+-- shipments list instead of one events query per row.
+create or replace function public.latest_event_codes(p_shipment_ids text[])
+returns table (shipment_id text, event_code text)
+language sql
+stable
+as $$
+  select distinct on (e.shipment_id) e.shipment_id, e.event_code
+  from public.events e
+  where e.shipment_id = any (p_shipment_ids)
+  order by e.shipment_id, e.event_time desc nulls last
+$$;
+
+create index if not exists events_shipment_id_event_time_idx
+  on public.events (shipment_id, event_time desc);
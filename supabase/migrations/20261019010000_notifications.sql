@@ -0,0 +1,39 @@
+-- Milestone notification subscriptions and their delivery log.
+
+create table if not exists public.notification_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,                      -- portal user who owns it
+  customer_id text not null,
+  shipment_id text,                         -- null = every shipment of the customer
+  milestones text[] not null,               -- MILESTONES keys, e.g. {'customs','delivered'}
+  channel text not null check (channel in ('email', 'webhook')),
+  target text not null,                     -- email address or webhook URL
+  secret text,                              -- HMAC key for webhook signatures
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_subscriptions_customer_idx
+  on public.notification_subscriptions (lower(customer_id)) where is_active;
+create index if not exists notification_subscriptions_shipment_idx
+  on public.notification_subscriptions (shipment_id) where is_active;
+
+create table if not exists public.notification_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references public.notification_subscriptions (id) on delete cascade,
+  shipment_id text not null,
+  event_code text not null,
+  event_time timestamptz,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz not null default now(),
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  -- One delivery per subscription and event, so a replayed webhook is a no-op
+  unique nulls not distinct (subscription_id, shipment_id, event_code, event_time)
+);
+
+create index if not exists notification_deliveries_due_idx
+  on public.notification_deliveries (next_attempt_at) where status = 'pending';
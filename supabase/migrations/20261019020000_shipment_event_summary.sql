@@ -0,0 +1,32 @@
+-- Latest event code plus the furthest milestone code per shipment, so the
+-- list can compute the same status/progress the detail page shows.
+-- p_ranked_codes is RANKED_EVENT_CODES from src/lib/eventCodes.ts.
+drop function if exists public.latest_event_codes(text[]);
+
+create or replace function public.shipment_event_summary(
+  p_shipment_ids text[],
+  p_ranked_codes text[]
+)
+returns table (shipment_id text, latest_event_code text, milestone_code text)
+language sql
+stable
+as $$
+  with latest as (
+    select distinct on (e.shipment_id) e.shipment_id, e.event_code
+    from public.events e
+    where e.shipment_id = any (p_shipment_ids)
+    order by e.shipment_id, e.event_time desc nulls last
+  ),
+  furthest as (
+    select distinct on (e.shipment_id)
+      e.shipment_id,
+      upper(trim(e.event_code)) as event_code
+    from public.events e
+    where e.shipment_id = any (p_shipment_ids)
+      and array_position(p_ranked_codes, upper(trim(e.event_code))) is not null
+    order by e.shipment_id, array_position(p_ranked_codes, upper(trim(e.event_code))) desc
+  )
+  select l.shipment_id, l.event_code, f.event_code
+  from latest l
+  left join furthest f on f.shipment_id = l.shipment_id
+$$;
@@ -0,0 +1,15 @@
+-- Expiring, revocable links that show one shipment without signing in.
+
+create table if not exists public.shipment_share_tokens (
+  id uuid primary key default gen_random_uuid(),
+  token_hash text not null unique,          -- sha256 of the token in the URL
+  shipment_id text not null,
+  customer_id text not null,
+  created_by text not null,                 -- email of the portal user
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists shipment_share_tokens_shipment_idx
+  on public.shipment_share_tokens (shipment_id);
@@ -0,0 +1,15 @@
+-- Append-only record of security-relevant actions (admin changes first).
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  action text not null,                     -- e.g. 'admin.user.invite'
+  actor_email text,
+  customer_id text,
+  target text,                              -- what was acted on (email, shipment id, ...)
+  ip text,
+  details jsonb not null default '{}'::jsonb
+);
+
+create index if not exists audit_log_occurred_at_idx on public.audit_log (occurred_at desc);
+create index if not exists audit_log_actor_idx on public.audit_log (actor_email, occurred_at desc);
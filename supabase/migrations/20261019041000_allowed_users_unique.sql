@@ -0,0 +1,15 @@
+-- One allowlist row per email and customer, so admin invites can upsert.
+--
+-- Admin console access comes from the auth user's app_metadata, e.g.
+--   update auth.users
+--   set raw_app_meta_data = raw_app_meta_data || '{"role":"admin"}'
+--   where email = 'someone@wenparker.com';
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'allowed_users_email_customer_key'
+  ) then
+    alter table public.allowed_users
+      add constraint allowed_users_email_customer_key unique (email, customer_id);
+  end if;
+end $$;
@@ -0,0 +1,9 @@
+-- Indexes for the admin audit query API (filter by customer, target or
+-- action, newest first).
+
+create index if not exists audit_log_customer_idx
+  on public.audit_log (customer_id, occurred_at desc);
+create index if not exists audit_log_target_idx
+  on public.audit_log (target, occurred_at desc);
+create index if not exists audit_log_action_idx
+  on public.audit_log (action text_pattern_ops, occurred_at desc);
@@ -0,0 +1,23 @@
+-- Publish shipments and events row changes to Supabase Realtime for the
+-- live list/timeline stream (/api/shipments/stream). Full replica identity
+-- so deletes still carry customer_id and shipment_id.
+
+alter table public.shipments replica identity full;
+alter table public.events replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'shipments'
+  ) then
+    alter publication supabase_realtime add table public.shipments;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'events'
+  ) then
+    alter publication supabase_realtime add table public.events;
+  end if;
+end $$;
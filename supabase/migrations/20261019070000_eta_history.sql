@@ -0,0 +1,79 @@
+-- ETA revisions. shipments.eta_updated only holds the latest ETA, so
+-- every change is logged here, and the first ETA seen is kept as
+-- original_eta. eta_slip_hours (latest minus original) backs the
+-- "Delayed" flag and filter; the threshold lives in app config.
+
+alter table public.shipments
+  add column if not exists original_eta timestamptz;
+
+update public.shipments
+set original_eta = eta_updated
+where original_eta is null and eta_updated is not null;
+
+alter table public.shipments
+  add column if not exists eta_slip_hours numeric
+  generated always as (extract(epoch from (eta_updated - original_eta)) / 3600) stored;
+
+create index if not exists shipments_eta_slip_hours_idx
+  on public.shipments (eta_slip_hours)
+  where eta_slip_hours > 0;
+
+create table if not exists public.shipment_eta_history (
+  id bigint generated always as identity primary key,
+  shipment_id text not null,
+  previous_eta timestamptz,
+  eta timestamptz,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists shipment_eta_history_shipment_idx
+  on public.shipment_eta_history (shipment_id, changed_at);
+
+-- Seed the baseline so every shipment's trail starts at its current ETA
+insert into public.shipment_eta_history (shipment_id, previous_eta, eta)
+select s.shipment_id, null, s.eta_updated
+from public.shipments s
+where s.eta_updated is not null
+  and not exists (
+    select 1 from public.shipment_eta_history h where h.shipment_id = s.shipment_id
+  );
+
+create or replace function public.shipments_set_original_eta()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.original_eta is null and new.eta_updated is not null then
+    new.original_eta := new.eta_updated;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.shipments_log_eta_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.eta_updated is not null then
+      insert into public.shipment_eta_history (shipment_id, previous_eta, eta)
+      values (new.shipment_id, null, new.eta_updated);
+    end if;
+  elsif new.eta_updated is distinct from old.eta_updated then
+    insert into public.shipment_eta_history (shipment_id, previous_eta, eta)
+    values (new.shipment_id, old.eta_updated, new.eta_updated);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists shipments_set_original_eta on public.shipments;
+create trigger shipments_set_original_eta
+  before insert or update of eta_updated on public.shipments
+  for each row execute function public.shipments_set_original_eta();
+
+drop trigger if exists shipments_log_eta_change on public.shipments;
+create trigger shipments_log_eta_change
+  after insert or update of eta_updated on public.shipments
+  for each row execute function public.shipments_log_eta_change();
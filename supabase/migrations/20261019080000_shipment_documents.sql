@@ -0,0 +1,28 @@
+-- Documents attached to a shipment (invoice, packing list, BL/AWB, customs
+-- entry). Bytes live in the document storage backend under storage_key;
+-- the default backend is the private Supabase Storage bucket below.
+
+create table if not exists public.shipment_documents (
+  id uuid primary key default gen_random_uuid(),
+  shipment_id text not null,
+  customer_id text not null,
+  doc_type text not null check (
+    doc_type in (
+      'commercial_invoice', 'packing_list', 'bill_of_lading',
+      'air_waybill', 'customs_entry', 'other'
+    )
+  ),
+  filename text not null,
+  content_type text not null,
+  size_bytes bigint not null,
+  storage_key text not null unique,
+  uploaded_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists shipment_documents_shipment_idx
+  on public.shipment_documents (shipment_id, doc_type, created_at desc);
+
+insert into storage.buckets (id, name, public)
+values ('shipment-documents', 'shipment-documents', false)
+on conflict (id) do nothing;
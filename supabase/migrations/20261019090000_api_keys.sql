@@ -0,0 +1,19 @@
+-- API keys for machine clients (carrier/agent event feeds). Only a
+-- SHA-256 hash of the key is stored; key_prefix identifies it in lists.
+
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  scopes text[] not null default '{}',
+  customer_ids text[],                      -- null = every customer
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+-- Dedupe lookups during ingestion (shipment + code + time)
+create index if not exists events_shipment_code_time_idx
+  on public.events (shipment_id, event_code, event_time);
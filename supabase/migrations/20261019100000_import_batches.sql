@@ -0,0 +1,47 @@
+-- Spreadsheet imports. An uploaded tracker is kept as a draft batch (its
+-- parsed rows and the column mapping) until staff commit it. Committing
+-- records each touched shipment's prior state in import_batch_changes and
+-- tags inserted events with the batch, so the batch can be rolled back.
+
+create table if not exists public.import_batches (
+  id uuid primary key default gen_random_uuid(),
+  filename text not null,
+  status text not null default 'draft' check (
+    status in ('draft', 'committed', 'failed', 'rolled_back')
+  ),
+  headers jsonb not null,
+  rows jsonb not null,
+  row_count integer not null,
+  mapping jsonb,
+  summary jsonb,
+  error text,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  committed_by text,
+  committed_at timestamptz,
+  rolled_back_by text,
+  rolled_back_at timestamptz
+);
+
+create index if not exists import_batches_created_at_idx
+  on public.import_batches (created_at desc);
+
+create table if not exists public.import_batch_changes (
+  id bigint generated always as identity primary key,
+  batch_id uuid not null references public.import_batches (id) on delete cascade,
+  shipment_id text not null,
+  action text not null check (action in ('insert', 'update')),
+  before jsonb,                             -- null for inserted shipments
+  changes jsonb not null,
+  event_count integer not null default 0
+);
+
+create index if not exists import_batch_changes_batch_idx
+  on public.import_batch_changes (batch_id);
+
+alter table public.events
+  add column if not exists import_batch_id uuid;
+
+create index if not exists events_import_batch_idx
+  on public.events (import_batch_id)
+  where import_batch_id is not null;
@@ -0,0 +1,60 @@
+-- Dashboard aggregates that PostgREST can't group for us: the busiest
+-- origin -> destination lanes and the average departure-to-delivery time.
+-- Shipments are scoped like the list (case-insensitive customer match) and
+-- optionally to last_event_time in [p_from, p_to). The code lists are the
+-- departed/delivered milestone codes from src/lib/eventCodes.ts.
+
+create or replace function public.shipment_kpis(
+  p_customer_ids text[],
+  p_from timestamptz,
+  p_to timestamptz,
+  p_departed_codes text[],
+  p_delivered_codes text[],
+  p_lane_limit integer default 5
+)
+returns jsonb
+language sql
+stable
+as $$
+  with scoped as (
+    select s.shipment_id, s.origin, s.destination
+    from public.shipments s
+    where lower(s.customer_id) = any (
+        select lower(c) from unnest(p_customer_ids) c
+      )
+      and (p_from is null or s.last_event_time >= p_from)
+      and (p_to is null or s.last_event_time < p_to)
+  ),
+  lanes as (
+    select origin, destination, count(*) as shipments
+    from scoped
+    where origin is not null and destination is not null
+    group by origin, destination
+    order by count(*) desc, origin, destination
+    limit p_lane_limit
+  ),
+  transit as (
+    select
+      min(e.event_time) filter (where upper(trim(e.event_code)) = any (p_departed_codes)) as departed,
+      max(e.event_time) filter (where upper(trim(e.event_code)) = any (p_delivered_codes)) as delivered
+    from scoped s
+    join public.events e on e.shipment_id = s.shipment_id
+    group by s.shipment_id
+  )
+  select jsonb_build_object(
+    'lanes', coalesce(
+      (select jsonb_agg(jsonb_build_object(
+        'origin', origin, 'destination', destination, 'shipments', shipments
+      ) order by shipments desc, origin, destination) from lanes),
+      '[]'::jsonb
+    ),
+    'transit', (
+      select jsonb_build_object(
+        'avg_hours', round((avg(extract(epoch from (delivered - departed))) / 3600)::numeric, 1),
+        'shipments', count(*)
+      )
+      from transit
+      where departed is not null and delivered is not null and delivered >= departed
+    )
+  )
+$$;
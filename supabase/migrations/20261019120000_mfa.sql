@@ -0,0 +1,38 @@
+-- Multi-factor authentication. TOTP factors live in Supabase Auth; this
+-- adds the per-customer requirement and one-time recovery codes.
+
+alter table public.allowed_users
+  add column if not exists require_mfa boolean not null default false;
+
+-- New allowlist rows pick up their customer's setting, so invites into a
+-- customer that requires MFA require it too.
+create or replace function public.allowed_users_inherit_require_mfa()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not new.require_mfa then
+    new.require_mfa := exists (
+      select 1 from public.allowed_users
+      where lower(customer_id) = lower(new.customer_id) and require_mfa
+    );
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists allowed_users_inherit_require_mfa on public.allowed_users;
+create trigger allowed_users_inherit_require_mfa
+  before insert on public.allowed_users
+  for each row execute function public.allowed_users_inherit_require_mfa();
+
+-- Only a SHA-256 hash of each code is stored; codes are shown once.
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  created_at timestamptz not null default now(),
+  used_at timestamptz
+);
+
+create index if not exists mfa_recovery_codes_user_idx
+  on public.mfa_recovery_codes (user_id);
@@ -0,0 +1,18 @@
+-- Email domains that belong to a customer, for passwordless sign-in.
+--
+-- sso_provider_id points at a Supabase Auth SSO (SAML) provider, e.g. one
+-- registered with `supabase sso add --type saml --domains acme.com`; users
+-- on the domain are sent there instead of getting a magic link.
+-- auto_provision trusts the domain: anyone who proves they own an address
+-- on it is allowlisted for the customer on first sign-in.
+create table if not exists public.customer_domains (
+  domain text primary key check (domain = lower(domain)),
+  customer_id text not null,
+  sso_provider_id uuid,
+  auto_provision boolean not null default false,
+  created_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists customer_domains_customer_idx
+  on public.customer_domains (customer_id);
@@ -0,0 +1,62 @@
+-- Lock the notification tables down to the service role and let
+-- concurrent dispatch runs claim deliveries without sending them twice.
+
+-- No policies: only the service role (which bypasses RLS) reads or writes
+-- these, so the anon key can't see webhook secrets or queue deliveries.
+alter table public.notification_subscriptions enable row level security;
+alter table public.notification_deliveries enable row level security;
+
+alter table public.notification_deliveries
+  drop constraint if exists notification_deliveries_status_check;
+alter table public.notification_deliveries
+  add constraint notification_deliveries_status_check
+  check (status in ('pending', 'processing', 'sent', 'failed'));
+
+drop index if exists public.notification_deliveries_due_idx;
+create index if not exists notification_deliveries_due_idx
+  on public.notification_deliveries (next_attempt_at)
+  where status in ('pending', 'processing');
+
+-- Marks up to p_limit due deliveries as processing and returns them with
+-- their subscription. A claim is a lease: if the run that took it dies,
+-- the delivery becomes due again once p_lease_seconds have passed.
+create or replace function public.claim_notification_deliveries(
+  p_limit integer,
+  p_lease_seconds integer default 300
+)
+returns table (
+  id uuid,
+  attempts integer,
+  payload jsonb,
+  channel text,
+  target text,
+  secret text,
+  is_active boolean
+)
+language sql
+volatile
+as $$
+  with due as (
+    select d.id
+    from public.notification_deliveries d
+    where d.status in ('pending', 'processing')
+      and d.next_attempt_at <= now()
+    order by d.next_attempt_at
+    limit p_limit
+    for update skip locked
+  ),
+  claimed as (
+    update public.notification_deliveries d
+    set status = 'processing',
+        next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+    from due
+    where d.id = due.id
+    returning d.id, d.attempts, d.payload, d.subscription_id
+  )
+  select c.id, c.attempts, c.payload, s.channel, s.target, s.secret, s.is_active
+  from claimed c
+  left join public.notification_subscriptions s on s.id = c.subscription_id
+$$;
+
+revoke execute on function public.claim_notification_deliveries(integer, integer)
+  from public, anon, authenticated;
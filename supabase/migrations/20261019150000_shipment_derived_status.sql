@@ -0,0 +1,57 @@
+-- The status badge shown for each shipment, stored so the list's status
+-- filter, status sort and KPIs agree with the badges. The app keeps it up
+-- to date when it writes events or current_status (refreshDerivedStatus
+-- in src/lib/eventIngestion.ts); this backfills existing shipments.
+
+alter table public.shipments
+  add column if not exists derived_status text not null default 'In Transit'
+  check (derived_status in (
+    'Pre-Departure', 'In Transit', 'Discharged', 'Customs Released', 'Delivered'
+  ));
+
+create index if not exists shipments_derived_status_idx
+  on public.shipments (derived_status);
+
+-- Mirrors MILESTONES and CURRENT_STATUS_PATTERNS in src/lib/eventCodes.ts:
+-- the furthest known milestone wins, then current_status, then In Transit.
+with milestone_codes (code, rank, status) as (
+  values
+    ('BOOKED', 0, 'Pre-Departure'),
+    ('READY', 1, 'Pre-Departure'),
+    ('DOCS_RECEIVED', 2, 'Pre-Departure'),
+    ('CARGO_RECEIVED', 3, 'Pre-Departure'),
+    ('ATD', 4, 'In Transit'),
+    ('DEPARTED', 4, 'In Transit'),
+    ('DISCHARGED', 5, 'Discharged'),
+    ('DIS', 5, 'Discharged'),
+    ('CUSTOMS_RELEASED', 6, 'Customs Released'),
+    ('CUS', 6, 'Customs Released'),
+    ('CLEARED', 6, 'Customs Released'),
+    ('CUSTOMS_CLEARED', 6, 'Customs Released'),
+    ('DELIVERED', 7, 'Delivered'),
+    ('DEL', 7, 'Delivered')
+),
+furthest as (
+  select distinct on (e.shipment_id) e.shipment_id, m.status
+  from public.events e
+  join milestone_codes m on m.code = upper(trim(e.event_code))
+  order by e.shipment_id, m.rank desc
+)
+update public.shipments s
+set derived_status = coalesce(
+  f.status,
+  case
+    when lower(trim(s.current_status)) like '%deliver%' then 'Delivered'
+    when lower(trim(s.current_status)) like '%custom%release%'
+      or lower(trim(s.current_status)) like '%custom%clear%' then 'Customs Released'
+    when lower(trim(s.current_status)) like '%discharg%' then 'Discharged'
+    when lower(trim(s.current_status)) like '%transit%' then 'In Transit'
+    when lower(trim(s.current_status)) like '%pre%'
+      or lower(trim(s.current_status)) like '%booked%'
+      or lower(trim(s.current_status)) like '%ready%' then 'Pre-Departure'
+    else 'In Transit'
+  end
+)
+from public.shipments s2
+left join furthest f on f.shipment_id = s2.shipment_id
+where s2.shipment_id = s.shipment_id;
@@ -0,0 +1,4 @@
+-- Share tokens are only read and written by the service role (which
+-- bypasses RLS). With RLS on and no policies, the anon key can't list
+-- token hashes or mint links of its own.
+alter table public.shipment_share_tokens enable row level security;
@@ -0,0 +1,4 @@
+-- The audit log is written and read only by the service role (which
+-- bypasses RLS). With RLS on and no policies, the anon key can't read it
+-- or forge entries.
+alter table public.audit_log enable row level security;
@@ -0,0 +1,27 @@
+-- Allowlist emails and customer ids are stored lowercase, so lookups by
+-- exact match work and case variants can't become separate rows.
+
+-- Rows that differ only by case collapse into one, keeping an active row
+-- and the MFA requirement if either had it.
+update public.allowed_users a
+set require_mfa = true
+where not a.require_mfa
+  and exists (
+    select 1 from public.allowed_users b
+    where lower(b.email) = lower(a.email)
+      and lower(b.customer_id) = lower(a.customer_id)
+      and b.require_mfa
+  );
+
+delete from public.allowed_users a
+using public.allowed_users b
+where lower(a.email) = lower(b.email)
+  and lower(a.customer_id) = lower(b.customer_id)
+  and (a.is_active, a.ctid) < (b.is_active, b.ctid);
+
+update public.allowed_users
+set email = lower(email), customer_id = lower(customer_id)
+where email <> lower(email) or customer_id <> lower(customer_id);
+
+create unique index if not exists allowed_users_email_customer_lower_idx
+  on public.allowed_users (lower(email), lower(customer_id));
@@ -0,0 +1,17 @@
+-- API keys are only read and written by the service role (which bypasses
+-- RLS). With RLS on and no policies, the anon key can't see key hashes.
+alter table public.api_keys enable row level security;
+
+-- One event per shipment, code and time, so concurrent ingestion can't
+-- insert the same event twice (writers upsert with ignoreDuplicates).
+-- Existing duplicates are dropped first, keeping one row of each.
+delete from public.events a
+using public.events b
+where a.shipment_id = b.shipment_id
+  and a.event_code = b.event_code
+  and a.event_time = b.event_time
+  and a.ctid > b.ctid;
+
+drop index if exists public.events_shipment_code_time_idx;
+create unique index if not exists events_shipment_code_time_key
+  on public.events (shipment_id, event_code, event_time);
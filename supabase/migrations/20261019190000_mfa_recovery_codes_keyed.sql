@@ -0,0 +1,11 @@
+-- Recovery codes are now stored as an HMAC keyed with MFA_RECOVERY_SECRET
+-- rather than a plain SHA-256. Existing rows keep their old hash (marked
+-- keyed = false) and stay redeemable until the user issues new codes.
+alter table public.mfa_recovery_codes
+  add column if not exists keyed boolean not null default false;
+alter table public.mfa_recovery_codes
+  alter column keyed set default true;
+
+-- Only the service role (which bypasses RLS) reads or writes these; with
+-- RLS on and no policies the anon key can't list code hashes.
+alter table public.mfa_recovery_codes enable row level security;
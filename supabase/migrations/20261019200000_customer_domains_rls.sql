@@ -0,0 +1,4 @@
+-- Customer domains are only read and written by the service role (which
+-- bypasses RLS). With RLS on and no policies, the anon key can't add a
+-- trusted auto-provisioning domain of its own.
+alter table public.customer_domains enable row level security;
@@ -0,0 +1,5 @@
+-- Import batches hold whole uploaded trackers (PO numbers, customers,
+-- references) and are only read and written by the service role (which
+-- bypasses RLS). With RLS on and no policies, the anon key can't read them.
+alter table public.import_batches enable row level security;
+alter table public.import_batch_changes enable row level security;
@@ -0,0 +1,4 @@
+-- Document metadata (file names, storage keys) is only read and written by
+-- the service role (which bypasses RLS). With RLS on and no policies, the
+-- anon key can't list other customers' documents.
+alter table public.shipment_documents enable row level security;
@@ -0,0 +1,9 @@
+-- ETA history is only read by the service role (which bypasses RLS). With
+-- RLS on and no policies, the anon key can't read every customer's trail.
+alter table public.shipment_eta_history enable row level security;
+
+-- The trigger logs revisions whoever updates the ETA, so it writes as the
+-- table owner rather than through the caller's (now empty) policies
+alter function public.shipments_log_eta_change()
+  security definer
+  set search_path = public;
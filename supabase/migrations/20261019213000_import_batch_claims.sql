@@ -0,0 +1,31 @@
+-- Commits and rollbacks claim their batch first: committing until every
+-- change is applied (so a half-applied batch can't be rolled back under
+-- it), rolling_back while a rollback runs (so two can't interleave).
+alter table public.import_batches
+  drop constraint if exists import_batches_status_check;
+
+alter table public.import_batches
+  add constraint import_batches_status_check check (
+    status in ('draft', 'committing', 'committed', 'failed', 'rolling_back', 'rolled_back')
+  );
+
+-- Every customer the batch's file refers to, lowercased. Staff see a batch
+-- they didn't upload only when they can access all of them.
+alter table public.import_batches
+  add column if not exists customer_ids text[] not null default '{}';
+
+update public.import_batches b
+set customer_ids = coalesce(
+  (
+    select array_agg(distinct lower(c.customer_id) order by lower(c.customer_id))
+    from (
+      select coalesce(ch.before ->> 'customer_id', ch.changes -> 'customer_id' ->> 'to')
+        as customer_id
+      from public.import_batch_changes ch
+      where ch.batch_id = b.id
+    ) c
+    where c.customer_id is not null
+  ),
+  '{}'
+)
+where b.status <> 'draft';
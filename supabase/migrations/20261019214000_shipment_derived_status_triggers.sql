@@ -0,0 +1,128 @@
+-- Keeps shipments.derived_status in step with the badges inside the
+-- database, so every writer (the app, the external feed, manual fixes)
+-- updates it: events inserted, deleted or re-coded recompute their
+-- shipment's status, and so does a change to current_status.
+
+-- Mirrors MILESTONES and CURRENT_STATUS_PATTERNS in src/lib/eventCodes.ts:
+-- the furthest known milestone wins, then current_status, then In Transit.
+create or replace function public.shipment_derived_status(
+  p_shipment_id text,
+  p_current_status text
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with milestone_codes (code, rank, status) as (
+    values
+      ('BOOKED', 0, 'Pre-Departure'),
+      ('READY', 1, 'Pre-Departure'),
+      ('DOCS_RECEIVED', 2, 'Pre-Departure'),
+      ('CARGO_RECEIVED', 3, 'Pre-Departure'),
+      ('ATD', 4, 'In Transit'),
+      ('DEPARTED', 4, 'In Transit'),
+      ('DISCHARGED', 5, 'Discharged'),
+      ('DIS', 5, 'Discharged'),
+      ('CUSTOMS_RELEASED', 6, 'Customs Released'),
+      ('CUS', 6, 'Customs Released'),
+      ('CLEARED', 6, 'Customs Released'),
+      ('CUSTOMS_CLEARED', 6, 'Customs Released'),
+      ('DELIVERED', 7, 'Delivered'),
+      ('DEL', 7, 'Delivered')
+  )
+  select coalesce(
+    (
+      select m.status
+      from public.events e
+      join milestone_codes m on m.code = upper(trim(e.event_code))
+      where e.shipment_id = p_shipment_id
+      order by m.rank desc
+      limit 1
+    ),
+    case
+      when lower(trim(p_current_status)) like '%deliver%' then 'Delivered'
+      when lower(trim(p_current_status)) like '%custom%release%'
+        or lower(trim(p_current_status)) like '%custom%clear%' then 'Customs Released'
+      when lower(trim(p_current_status)) like '%discharg%' then 'Discharged'
+      when lower(trim(p_current_status)) like '%transit%' then 'In Transit'
+      when lower(trim(p_current_status)) like '%pre%'
+        or lower(trim(p_current_status)) like '%booked%'
+        or lower(trim(p_current_status)) like '%ready%' then 'Pre-Departure'
+      else 'In Transit'
+    end
+  );
+$$;
+
+create or replace function public.shipments_set_derived_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.derived_status := public.shipment_derived_status(new.shipment_id, new.current_status);
+  return new;
+end;
+$$;
+
+drop trigger if exists shipments_set_derived_status on public.shipments;
+create trigger shipments_set_derived_status
+  before insert or update of shipment_id, current_status on public.shipments
+  for each row execute function public.shipments_set_derived_status();
+
+create or replace function public.refresh_shipment_derived_status(p_shipment_id text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.shipments s
+  set derived_status = d.status
+  from (
+    select shipment_id, public.shipment_derived_status(shipment_id, current_status) as status
+    from public.shipments
+    where shipment_id = p_shipment_id
+  ) d
+  where s.shipment_id = d.shipment_id
+    and s.derived_status is distinct from d.status;
+$$;
+
+create or replace function public.events_refresh_derived_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.refresh_shipment_derived_status(new.shipment_id);
+  end if;
+  if tg_op = 'DELETE' then
+    perform public.refresh_shipment_derived_status(old.shipment_id);
+  elsif tg_op = 'UPDATE' then
+    -- An event moved to another shipment changes the one it left too
+    if old.shipment_id is distinct from new.shipment_id then
+      perform public.refresh_shipment_derived_status(old.shipment_id);
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists events_refresh_derived_status on public.events;
+create trigger events_refresh_derived_status
+  after insert or delete or update of shipment_id, event_code on public.events
+  for each row execute function public.events_refresh_derived_status();
+
+-- Catch up on whatever was written since the backfill without the app
+update public.shipments s
+set derived_status = public.shipment_derived_status(s.shipment_id, s.current_status)
+where s.derived_status is distinct from
+  public.shipment_derived_status(s.shipment_id, s.current_status);
+
+revoke execute on function public.shipment_derived_status(text, text)
+  from public, anon, authenticated;
+revoke execute on function public.refresh_shipment_derived_status(text)
+  from public, anon, authenticated;
@@ -0,0 +1,20 @@
+-- Moves each shipment's current_status/last_event_time forward to a newer
+-- event in one statement. The condition is checked against the row as it
+-- is when updated, so concurrent batches can't move a shipment backwards.
+-- p_events: [{ shipment_id, current_status, event_time }], one per shipment.
+create or replace function public.advance_shipments(p_events jsonb)
+returns void
+language sql
+volatile
+as $$
+  update public.shipments s
+  set current_status = e.current_status,
+      last_event_time = e.event_time
+  from jsonb_to_recordset(p_events)
+    as e (shipment_id text, current_status text, event_time timestamptz)
+  where s.shipment_id = e.shipment_id
+    and (s.last_event_time is null or s.last_event_time < e.event_time)
+$$;
+
+revoke execute on function public.advance_shipments(jsonb)
+  from public, anon, authenticated;